@@ -23,5 +23,17 @@ async function main() {
     target: "es6",
   });
   console.log("resultNode", resultNode);
+
+  const resultCLI = await build({
+    entryPoints: ["src/bin.ts"],
+    bundle: true,
+    outfile: "dist/esbuild/cli.js",
+    minify: true,
+    platform: "node",
+    format: "cjs",
+    target: "es6",
+    banner: { js: "#!/usr/bin/env node" },
+  });
+  console.log("resultCLI", resultCLI);
 }
 main();
@@ -0,0 +1,136 @@
+import { randomBytes } from "crypto";
+import elliptic from "elliptic";
+import { DIDDocument } from "did-resolver";
+import { ES256, ES384, getAlgorithm, registerAlgorithm } from "./algorithms";
+import { createPassURI } from "./issue";
+import { verifyPassURIOffline } from "./main";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+import { encodeBase64Url } from "./util";
+
+const now = new Date("2023-01-01T00:00:00Z");
+const iss = "did:web:algorithms.example.com";
+
+const claims = {
+  jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+  nbf: 1641679750,
+  exp: 1956007750,
+  vc: {
+    "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+    version: "1.0.0",
+    type: ["VerifiableCredential", "PublicCovidPass"],
+    credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+  },
+};
+
+const toBase64Url = (bytes: number[]) => encodeBase64Url(new Uint8Array(bytes));
+
+// a freshly generated key pair, with a DID document listing its public key as key-1
+const createIssuer = (publicKeyJwk: { kty: string; crv: string; x: string; y?: string }, d: string) => {
+  const didDocument: DIDDocument = {
+    id: iss,
+    assertionMethod: [`${iss}#key-1`],
+    verificationMethod: [{ id: `${iss}#key-1`, controller: iss, type: "JsonWebKey2020", publicKeyJwk }],
+  };
+  return { privateKeyJwk: { ...publicKeyJwk, d }, didDocument };
+};
+
+const createECIssuer = (curve: string, crv: string, size: number) => {
+  const key = new elliptic.ec(curve).genKeyPair();
+  const x = toBase64Url(key.getPublic().getX().toArray("be", size));
+  const y = toBase64Url(key.getPublic().getY().toArray("be", size));
+  return createIssuer({ kty: "EC", crv, x, y }, toBase64Url(key.getPrivate().toArray("be", size)));
+};
+
+const createEd25519Issuer = () => {
+  const secret = randomBytes(32);
+  const key = new elliptic.eddsa("ed25519").keyFromSecret(secret);
+  return createIssuer({ kty: "OKP", crv: "Ed25519", x: toBase64Url(Array.from(key.getPublic())) }, toBase64Url(Array.from(secret)));
+};
+
+const issuers = {
+  ES384: createECIssuer("p384", "P-384", 48),
+  ES512: createECIssuer("p521", "P-521", 66),
+  EdDSA: createEd25519Issuer(),
+};
+
+const mint = (alg: keyof typeof issuers) =>
+  createPassURI(claims, { privateKeyJwk: issuers[alg].privateKeyJwk, kid: "key-1", iss, alg });
+
+test("Algorithms are registered by COSE algorithm identifier", () => {
+  expect(getAlgorithm(-7)?.name).toBe("ES256");
+  expect(getAlgorithm(-35)?.name).toBe("ES384");
+  expect(getAlgorithm(-36)?.name).toBe("ES512");
+  expect(getAlgorithm(-8)?.name).toBe("EdDSA");
+  expect(getAlgorithm(-37)).toBeUndefined();
+});
+
+test("Only ES256 is accepted by default", () => {
+  const es256 = createPassURI(claims, { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id });
+  expect(verifyPassURIOffline(es256, { didDocument: mineDIDDocument, now }).success).toBe(true);
+
+  const result = verifyPassURIOffline(mint("ES384"), { didDocument: issuers.ES384.didDocument, now });
+  expect(result.violates).toMatchObject({
+    code: "INVALID_ALG",
+    section: "2.2.2.2",
+    message:
+      "`alg` claim value MUST be present in the protected header section of the `COSE_Sign1` structure and MUST be set to the value corresponding to `ES256` algorithm registration",
+  });
+});
+
+test("ES384, ES512 and EdDSA passes verify once accepted", () => {
+  (["ES384", "ES512", "EdDSA"] as const).forEach((alg) => {
+    const result = verifyPassURIOffline(mint(alg), {
+      didDocument: issuers[alg].didDocument,
+      algorithms: ["ES256", alg],
+      now,
+    });
+    expect(result.success).toBe(true);
+    expect(result.credentialSubject?.givenName).toBe("Patrick");
+  });
+});
+
+test("Tampered passes fail the signature check of their algorithm", () => {
+  (["ES384", "ES512", "EdDSA"] as const).forEach((alg) => {
+    const uri = mint(alg);
+    // flip a bit of the signature, the last characters of the payload
+    const last = uri[uri.length - 2];
+    const tampered = `${uri.slice(0, -2)}${last === "A" ? "B" : "A"}${uri.slice(-1)}`;
+    const result = verifyPassURIOffline(tampered, {
+      didDocument: issuers[alg].didDocument,
+      algorithms: [alg],
+      now,
+    });
+    expect(result.violates?.code).toBe("BAD_SIGNATURE");
+  });
+});
+
+test("The JWK crv and kty must match the algorithm", () => {
+  // an ES384 pass claiming to be signed by the Ed25519 key, which has no `y` coordinate either
+  const uri = createPassURI(claims, { privateKeyJwk: issuers.ES384.privateKeyJwk, kid: "key-1", iss, alg: "ES384" });
+  const result = verifyPassURIOffline(uri, {
+    didDocument: issuers.EdDSA.didDocument,
+    algorithms: ["ES384", "EdDSA"],
+    allViolations: true,
+    now,
+  });
+  expect(result.violations?.map((v) => v.code)).toEqual(["INVALID_PUBLIC_KEY", "INVALID_KEY_TYPE"]);
+  expect(result.violations?.[1]).toMatchObject({
+    section: "5.1.5",
+    message:
+      "This public key JWK expression MUST set a crv property which has a value of P-384. Additionally, the JWK MUST have a kty property set to EC.",
+  });
+});
+
+test("Unregistered algorithms are rejected and can be registered", () => {
+  expect(() => createPassURI(claims, { ...issuers.ES384, kid: "key-1", iss, alg: "ES384K" })).toThrowError(
+    "Unknown signature algorithm ES384K"
+  );
+
+  // ES384 under a made up identifier
+  registerAlgorithm({ ...ES384, id: -65000, name: "ES384K" });
+  const uri = createPassURI(claims, { privateKeyJwk: issuers.ES384.privateKeyJwk, kid: "key-1", iss, alg: "ES384K" });
+  const result = verifyPassURIOffline(uri, { didDocument: issuers.ES384.didDocument, algorithms: ["ES384K"], now });
+  expect(result.success).toBe(true);
+  expect(getAlgorithm(ES256.id)).toBe(ES256);
+});
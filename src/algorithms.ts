@@ -0,0 +1,103 @@
+// Section 3
+// https://nzcp.covid19.health.nz/#cryptographic-digital-signature-algorithm-selection
+// The `alg` header of a pass is a COSE algorithm identifier [RFC8152], which determines the curve and hash
+// the signature is verified with and the type of JWK the public key MUST be expressed as
+
+export interface SignatureAlgorithm {
+  // COSE algorithm identifier, e.g. -7
+  id: number;
+  // COSE algorithm name, e.g. "ES256"
+  name: string;
+  // curve of the `elliptic` library the signature is verified on, e.g. "p256" or "ed25519"
+  curve: string;
+  // hash of the `Sig_structure`, EdDSA hashes the message as part of the signature scheme
+  hash: "SHA-256" | "SHA-384" | "SHA-512";
+  // the JWK `kty` and `crv` of the public keys, e.g. "EC" and "P-256"
+  kty: string;
+  crv: string;
+  // length in bytes of each half of the signature, r and s for ECDSA and R and S for EdDSA
+  size: number;
+}
+
+// Section 3
+// New Zealand COVID Passes MUST use Elliptic Curve Digital Signature Algorithm (ECDSA) using the P-256 curve and SHA-256
+export const ES256: SignatureAlgorithm = {
+  id: -7,
+  name: "ES256",
+  curve: "p256",
+  hash: "SHA-256",
+  kty: "EC",
+  crv: "P-256",
+  size: 32,
+};
+
+// https://datatracker.ietf.org/doc/html/rfc8152#section-8.1
+export const ES384: SignatureAlgorithm = {
+  id: -35,
+  name: "ES384",
+  curve: "p384",
+  hash: "SHA-384",
+  kty: "EC",
+  crv: "P-384",
+  size: 48,
+};
+
+export const ES512: SignatureAlgorithm = {
+  id: -36,
+  name: "ES512",
+  curve: "p521",
+  hash: "SHA-512",
+  kty: "EC",
+  crv: "P-521",
+  size: 66,
+};
+
+// https://datatracker.ietf.org/doc/html/rfc8152#section-8.2
+// Ed25519 public keys are expressed as an octet key pair, which has no `y` coordinate [RFC8037]
+export const EdDSA: SignatureAlgorithm = {
+  id: -8,
+  name: "EdDSA",
+  curve: "ed25519",
+  hash: "SHA-512",
+  kty: "OKP",
+  crv: "Ed25519",
+  size: 32,
+};
+
+// EdDSA signs the message itself and its keys are octet key pairs, the other algorithms are ECDSA
+export const isEdDSA = (algorithm: SignatureAlgorithm): boolean =>
+  algorithm.kty === "OKP";
+
+// the algorithms accepted when verify options don't choose any, the specification only allows ES256
+export const DEFAULT_ALGORITHMS = [ES256.name];
+
+// registered algorithms by COSE algorithm identifier
+const algorithms = new Map<number, SignatureAlgorithm>(
+  [ES256, ES384, ES512, EdDSA].map((algorithm) => [algorithm.id, algorithm])
+);
+
+/**
+ * registers a signature algorithm so verify options can accept it, replacing any algorithm registered with the same identifier
+ * @param algorithm the COSE identifier and name, curve, hash and JWK key type of the algorithm
+ */
+export const registerAlgorithm = (algorithm: SignatureAlgorithm): void => {
+  algorithms.set(algorithm.id, algorithm);
+};
+
+/**
+ * gets a registered signature algorithm
+ * @param id the COSE algorithm identifier, e.g. -7
+ * @returns {SignatureAlgorithm | undefined} the algorithm, or undefined if none is registered with the identifier
+ */
+export const getAlgorithm = (id: number): SignatureAlgorithm | undefined =>
+  algorithms.get(id);
+
+/**
+ * gets a registered signature algorithm by name
+ * @param name the COSE algorithm name, e.g. "ES256"
+ * @returns {SignatureAlgorithm | undefined} the algorithm, or undefined if none is registered with the name
+ */
+export const getAlgorithmByName = (
+  name: string
+): SignatureAlgorithm | undefined =>
+  Array.from(algorithms.values()).find((algorithm) => algorithm.name === name);
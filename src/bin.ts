@@ -0,0 +1,34 @@
+/**
+ * This file is the entrypoint of the `nzcp` command.
+ * The code executes when run from a shell.
+ */
+import fs from "fs";
+import { runCLI } from "./cli";
+import { setDefaultCryptoProvider } from "./crypto";
+import { NODE_CRYPTO_PROVIDER } from "./cryptoNode";
+
+const readStdin = (): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    process.stdin.on("error", reject);
+  });
+
+// verify with the native crypto module, which is many times faster than `elliptic`
+setDefaultCryptoProvider(NODE_CRYPTO_PROVIDER);
+
+runCLI(process.argv.slice(2), {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  readFile: (path) => fs.readFileSync(path, "utf8"),
+  readStdin,
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    // runCLI reports the errors it expects, anything else is a bug
+    console.error(err);
+    process.exitCode = 2;
+  });
@@ -2,5 +2,11 @@
  * This file is the entrypoint of browser builds.
  * The code executes when loaded in a browser.
  */
-import { verifyPassURI, verifyPassURIOffline, DID_DOCUMENTS, TRUSTED_ISSUERS } from "./main";
-export { verifyPassURI, verifyPassURIOffline, DID_DOCUMENTS, TRUSTED_ISSUERS };
+import { verifyPassURI, verifyPassURIOffline, verifyPassURIs, verifyPassURIsIterator, verifyPassImage, verifyPassImageOffline, decodeQR, encodeQR, renderQRToSVG, renderQRToPNG, registerCatalogue, registerPassType, PUBLIC_COVID_PASS, DEFAULT_PASS_TYPES, registerProtocolVersion, PROTOCOL_VERSION_1, DEFAULT_PROTOCOL_VERSIONS, registerAlgorithm, DEFAULT_ALGORITHMS, ELLIPTIC_CRYPTO_PROVIDER, setDefaultCryptoProvider, setDefaultAsyncCryptoProvider, createPassURI, DID_DOCUMENTS, TRUSTED_ISSUERS, DEFAULT_DECODE_LIMITS, DIDCache, MemoryDIDCacheStorage, KeyCache, validateDIDDocument, loadDIDDocument, createDIDResolver, loadRevocationList, BloomFilter, DenyList, MemorySeenStore, DEFAULT_REPLAY_POLICY } from "./main";
+import { createWebCryptoProvider } from "./cryptoWeb";
+export { verifyPassURI, verifyPassURIOffline, verifyPassURIs, verifyPassURIsIterator, verifyPassImage, verifyPassImageOffline, decodeQR, encodeQR, renderQRToSVG, renderQRToPNG, registerCatalogue, registerPassType, PUBLIC_COVID_PASS, DEFAULT_PASS_TYPES, registerProtocolVersion, PROTOCOL_VERSION_1, DEFAULT_PROTOCOL_VERSIONS, registerAlgorithm, DEFAULT_ALGORITHMS, ELLIPTIC_CRYPTO_PROVIDER, setDefaultCryptoProvider, setDefaultAsyncCryptoProvider, createPassURI, DID_DOCUMENTS, TRUSTED_ISSUERS, DEFAULT_DECODE_LIMITS, DIDCache, MemoryDIDCacheStorage, KeyCache, validateDIDDocument, loadDIDDocument, createDIDResolver, loadRevocationList, BloomFilter, DenyList, MemorySeenStore, DEFAULT_REPLAY_POLICY, createWebCryptoProvider };
+
+// verify with WebCrypto where it is available, verifyPassURIOffline is synchronous and keeps using `elliptic`
+if (typeof crypto !== "undefined" && crypto.subtle) {
+  setDefaultAsyncCryptoProvider(createWebCryptoProvider(crypto.subtle));
+}
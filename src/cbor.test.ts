@@ -1,5 +1,7 @@
 import { base32 } from "rfc4648";
-import { decodeCOSE } from "./cbor";
+import { decodeCBOR, decodeCOSE, DEFAULT_DECODE_LIMITS, encodeCBOR } from "./cbor";
+import { Data, TaggedValue } from "./cborTypes";
+import { Violation } from "./violation";
 
 test("CBOR library decodes", async () => {
   const res = base32.parse(
@@ -12,3 +14,235 @@ test("CBOR library decodes", async () => {
   expect(cborobj.tag).toEqual(18);
   expect(cborobj.value.length).toEqual(4);
 });
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+// Examples of encoded CBOR data items
+// https://datatracker.ietf.org/doc/html/rfc8949#appendix-A
+test("CBOR encoder matches RFC 8949 examples", async () => {
+  const examples: [Data, string][] = [
+    [0, "00"],
+    [23, "17"],
+    [24, "1818"],
+    [1000, "1903e8"],
+    [1000000, "1a000f4240"],
+    [1000000000000, "1b000000e8d4a51000"],
+    [BigInt("18446744073709551615"), "1bffffffffffffffff"],
+    [BigInt("18446744073709551616"), "c249010000000000000000"],
+    [BigInt("-18446744073709551616"), "3bffffffffffffffff"],
+    [BigInt("-18446744073709551617"), "c349010000000000000000"],
+    [-1, "20"],
+    [-1000, "3903e7"],
+    [0.5, "f93800"],
+    [1.1, "fb3ff199999999999a"],
+    [100000.0, "1a000186a0"],
+    [3.4028234663852886e38, "fa7f7fffff"],
+    [5.960464477539063e-8, "f90001"],
+    [-4.1, "fbc010666666666666"],
+    [-0, "f98000"],
+    [Infinity, "f97c00"],
+    [NaN, "f97e00"],
+    [false, "f4"],
+    [true, "f5"],
+    [null, "f6"],
+    [undefined, "f7"],
+    [new TaggedValue(1, 1363896240), "c11a514b67b0"],
+    [new Uint8Array([1, 2, 3, 4]), "4401020304"],
+    ["", "60"],
+    ["IETF", "6449455446"],
+    ["ü", "62c3bc"],
+    [[1, [2, 3], [4, 5]], "8301820203820405"],
+    [{ a: 1, b: [2, 3] }, "a26161016162820203"],
+    [new Map<Data, Data>([[1, 2], [3, 4]]), "a201020304"],
+  ];
+  examples.forEach(([value, hex]) => {
+    expect(toHex(encodeCBOR(value))).toBe(hex);
+  });
+});
+
+test("CBOR encoder sorts map keys deterministically", async () => {
+  const map = new Map<Data, Data>([
+    ["vc", 0],
+    [7, 1],
+    [-1, 2],
+    ["a", 3],
+    [1, 4],
+  ]);
+  expect(toHex(encodeCBOR(map))).toBe("a501040701200261610362766300");
+  expect(() => encodeCBOR(new Map<Data, Data>([[1, 0], [BigInt(1), 1]]))).toThrowError();
+});
+
+test("CBOR encoder handles large byte strings", async () => {
+  const bytes = new Uint8Array(70000).fill(7);
+  const encoded = encodeCBOR(bytes);
+  expect(toHex(encoded.subarray(0, 5))).toBe("5a00011170");
+  expect(encoded.length).toBe(70005);
+  expect(decodeCBOR(encoded)).toEqual(bytes);
+});
+
+test("CBOR encoder output is read back by the decoder", async () => {
+  const value = new Map<Data, Data>([
+    [1, "did:web:nzcp.covid19.health.nz"],
+    [4, 1951416330],
+    [-7, new Uint8Array([0x6b, 0x65, 0x79])],
+    ["vc", { version: "1.0.0", type: ["VerifiableCredential", "PublicCovidPass"] }],
+  ]);
+  expect(decodeCBOR(encodeCBOR(value))).toEqual(value);
+});
+
+const fromHex = (hex: string) => new Uint8Array(Buffer.from(hex, "hex"));
+
+// Examples of encoded CBOR data items
+// https://datatracker.ietf.org/doc/html/rfc8949#appendix-A
+test("CBOR decoder matches RFC 8949 examples", async () => {
+  const examples: [string, Data][] = [
+    ["1b000000e8d4a51000", 1000000000000],
+    ["1bffffffffffffffff", BigInt("18446744073709551615")],
+    ["3bffffffffffffffff", BigInt("-18446744073709551616")],
+    ["c249010000000000000000", BigInt("18446744073709551616")],
+    ["c349010000000000000000", BigInt("-18446744073709551617")],
+    ["3903e7", -1000],
+    ["3a7fffffff", -2147483648],
+    ["f93c00", 1.0],
+    ["f97bff", 65504.0],
+    ["f90400", 0.00006103515625],
+    ["f9c400", -4.0],
+    ["f97c00", Infinity],
+    ["f9fc00", -Infinity],
+    ["fa47c35000", 100000.0],
+    ["fb7e37e43c8800759c", 1.0e300],
+    ["f4", false],
+    ["f5", true],
+    ["f6", null],
+    ["f7", undefined],
+    ["c074323031332d30332d32315432303a30343a30305a", new TaggedValue(0, "2013-03-21T20:04:00Z")],
+    ["d82076687474703a2f2f7777772e6578616d706c652e636f6d", new TaggedValue(32, "http://www.example.com")],
+    ["5f42010243030405ff", new Uint8Array([1, 2, 3, 4, 5])],
+    ["7f657374726561646d696e67ff", "streaming"],
+    ["9fff", []],
+    ["9f018202039f0405ffff", [1, [2, 3], [4, 5]]],
+    ["83018202039f0405ff", [1, [2, 3], [4, 5]]],
+    ["bf61610161629f0203ffff", new Map<Data, Data>([["a", 1], ["b", [2, 3]]])],
+  ];
+  examples.forEach(([hex, value]) => {
+    expect(decodeCBOR(fromHex(hex))).toEqual(value);
+  });
+  expect(decodeCBOR(fromHex("f97e00"))).toBeNaN();
+  expect(Object.is(decodeCBOR(fromHex("f98000")), -0)).toBe(true);
+});
+
+test("CBOR decoder rejects malformed data", async () => {
+  [
+    // unexpected break
+    "ff",
+    // reserved additional information
+    "1c",
+    // indefinite-length integer
+    "1f",
+    // chunk of a different major type in an indefinite-length string
+    "5f6161ff",
+    // missing break
+    "9f01",
+  ].forEach((hex) => {
+    expect(() => decodeCBOR(fromHex(hex))).toThrowError();
+  });
+});
+
+test("CBOR decoder reads back everything the encoder writes", async () => {
+  const value: Data = [
+    BigInt("9007199254740993"),
+    -0.5,
+    3.4028234663852886e38,
+    true,
+    null,
+    undefined,
+    new TaggedValue(1, 1363896240),
+    new Map<Data, Data>([[1, "a"], ["vc", { b: [1.1] }]]),
+  ];
+  expect(decodeCBOR(encodeCBOR(value))).toEqual(value);
+});
+
+test("strict CBOR decoding rejects ambiguous data", async () => {
+  [
+    // trailing bytes
+    ["0100", "RFC8949.F"],
+    // non-minimal integer
+    ["1817", "RFC8949.4.2.1"],
+    // non-minimal length
+    ["780161", "RFC8949.4.2.1"],
+    // indefinite length
+    ["9fff", "RFC8949.4.2.1"],
+    // duplicate map key
+    ["a201020103", "RFC8949.5.6"],
+    // duplicate text key in a nested map
+    ["a16176a2613102613102", "RFC8949.5.6"],
+  ].forEach(([hex, section]) => {
+    expect(() => decodeCBOR(fromHex(hex))).not.toThrowError();
+    try {
+      decodeCBOR(fromHex(hex), { strict: true });
+      throw new Error("expected a violation");
+    } catch (e) {
+      expect(e).toBeInstanceOf(Violation);
+      expect((e as Violation).violates.section).toBe(section);
+    }
+  });
+
+  // keys of different types are different keys, {1: "x", "1": "y"}
+  expect(decodeCBOR(fromHex("a201617861316179"), { strict: true })).toEqual(
+    new Map<Data, Data>([[1, "x"], ["1", "y"]])
+  );
+  // byte string keys are compared by their bytes, {h'01': 1, h'01': 2}
+  expect(() => decodeCBOR(fromHex("a2410101410102"), { strict: true })).toThrowError(Violation);
+});
+
+test("strict COSE decoding rejects trailing bytes", async () => {
+  const res = base32.parse(
+    "2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUYMBTIFAIGTUKBAAUYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RPMNXW45DFPB2HGL3WGFTXMZLSONUW63TFGEXDALRQMR2HS4DFQJ2FMZLSNFTGSYLCNRSUG4TFMRSW45DJMFWG6UDVMJWGSY2DN53GSZCQMFZXG4LDOJSWIZLOORUWC3CTOVRGUZLDOSRWSZ3JOZSW4TTBNVSWISTBMNVWUZTBNVUWY6KOMFWWKZ2TOBQXE4TPO5RWI33CNIYTSNRQFUYDILJRGYDVAYFE6VGU4MCDGK7DHLLYWHVPUS2YIDJOA6Y524TD3AZRM263WTY2BE4DPKIF27WKF3UDNNVSVWRDYIYVJ65IRJJJ6Z25M2DO4YZLBHWFQGVQR5ZLIWEQJOZTS3IQ7JTNCFDX"
+  );
+  expect(decodeCOSE(res, { strict: true }).err).toEqual(undefined);
+
+  const appended = new Uint8Array([...res, 0x00]);
+  expect(decodeCOSE(appended).err).toEqual(undefined);
+  expect(decodeCOSE(appended, { strict: true }).err).toBeInstanceOf(Violation);
+});
+
+test("CBOR decoding enforces resource limits", async () => {
+  const expectLimitViolation = (fn: () => unknown) => {
+    try {
+      fn();
+      throw new Error("expected a violation");
+    } catch (e) {
+      expect(e).toBeInstanceOf(Violation);
+      expect((e as Violation).violates.section).toBe("RFC8949.10");
+      expect((e as Violation).violates.code).toBe("DECODE_LIMIT_EXCEEDED");
+    }
+  };
+
+  const limits = DEFAULT_DECODE_LIMITS;
+
+  // deeply nested arrays
+  const nested = new Uint8Array(100000).fill(0x81);
+  expectLimitViolation(() => decodeCBOR(nested, { limits }));
+  expectLimitViolation(() => decodeCBOR(nested.subarray(0, 5), { limits: { maxDepth: 4 } }));
+  expect(decodeCBOR(fromHex("818180"), { limits: { maxDepth: 3 } })).toEqual([[[]]]);
+
+  // array claiming 2^32 - 1 items
+  expectLimitViolation(() => decodeCBOR(fromHex("9affffffff"), { limits }));
+  // indefinite-length array with too many items
+  expectLimitViolation(() => decodeCBOR(fromHex("9f010203ff"), { limits: { maxItems: 2 } }));
+  // map claiming 2^32 - 1 pairs
+  expectLimitViolation(() => decodeCBOR(fromHex("baffffffff"), { limits }));
+
+  // long strings
+  expectLimitViolation(() => decodeCBOR(fromHex("4401020304"), { limits: { maxLength: 3 } }));
+  expectLimitViolation(() => decodeCBOR(fromHex("5f42010242030405ff"), { limits: { maxLength: 3 } }));
+
+  // whole input
+  expectLimitViolation(() => decodeCBOR(new Uint8Array(65537), { limits }));
+  const tooLarge = decodeCOSE(new Uint8Array(65537), { limits });
+  expect(tooLarge.err).toBeInstanceOf(Violation);
+  expect((tooLarge.err as Violation).violates.code).toBe("DECODE_LIMIT_EXCEEDED");
+
+  // only applied when asked for
+  expect(decodeCBOR(new Uint8Array(65537))).toBe(0);
+});
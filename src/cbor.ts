@@ -1,6 +1,40 @@
 // centralized place where cbor is included, in case we need to patch it
-import { Data } from "./cborTypes";
+import {
+  Data,
+  DecodeCBORLimits,
+  DecodeCBOROptions,
+  TaggedValue,
+} from "./cborTypes";
 import { DecodedCOSEStructure } from "./coseTypes";
+import { fromHex, toHex } from "./util";
+import { Violation } from "./violation";
+
+// Limits applied when decoding untrusted input, large enough for any NZ COVID Pass
+// Passes are decoded with them when verifying, other callers opt in through `limits`
+export const DEFAULT_DECODE_LIMITS: DecodeCBORLimits = {
+  maxDepth: 16,
+  maxItems: 1024,
+  maxLength: 65536,
+  maxInputSize: 65536,
+};
+
+const NO_DECODE_LIMITS: DecodeCBORLimits = {
+  maxDepth: Infinity,
+  maxItems: Infinity,
+  maxLength: Infinity,
+  maxInputSize: Infinity,
+};
+
+// RFC 8949 section 10
+// Decoders need to be robust against resource exhaustion attacks
+function exceedsLimit(message: string) {
+  return new Violation({
+    code: "DECODE_LIMIT_EXCEEDED",
+    message,
+    section: "RFC8949.10",
+    link: "https://www.rfc-editor.org/rfc/rfc8949#section-10",
+  });
+}
 
 // author: putara
 // https://github.com/putara/nzcp/blob/master/verifier.js
@@ -8,11 +42,44 @@ class Stream {
   data: Uint8Array;
   ptr: number;
   len: number;
+  depth: number;
+  limits: DecodeCBORLimits;
 
-  constructor(data: Uint8Array) {
+  constructor(data: Uint8Array, limits: Partial<DecodeCBORLimits> = {}) {
     this.data = data;
     this.ptr = 0;
     this.len = data.length;
+    this.depth = 0;
+    this.limits = { ...NO_DECODE_LIMITS, ...limits };
+    if (this.len > this.limits.maxInputSize) {
+      throw exceedsLimit(
+        `CBOR input of ${this.len} bytes exceeds the limit of ${this.limits.maxInputSize} bytes`
+      );
+    }
+  }
+  enter() {
+    if (++this.depth > this.limits.maxDepth) {
+      throw exceedsLimit(
+        `CBOR nesting depth exceeds the limit of ${this.limits.maxDepth}`
+      );
+    }
+  }
+  leave() {
+    --this.depth;
+  }
+  checkItems(count: number) {
+    if (count > this.limits.maxItems) {
+      throw exceedsLimit(
+        `CBOR array or map of ${count} items exceeds the limit of ${this.limits.maxItems} items`
+      );
+    }
+  }
+  checkLength(len: number) {
+    if (len > this.limits.maxLength) {
+      throw exceedsLimit(
+        `CBOR string of ${len} bytes exceeds the limit of ${this.limits.maxLength} bytes`
+      );
+    }
   }
   getc() {
     if (this.ptr >= this.len) {
@@ -39,41 +106,161 @@ class Stream {
   }
 }
 
-// RFC 7049
+// RFC 8949
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-function decodeCBORStream(stream: Stream) {
-  function decodeUint(stream: Stream, v: number) {
-    let x = v & 31;
+function decodeCBORStream(stream: Stream, options: DecodeCBOROptions = {}) {
+  function readUint(stream: Stream, v: number): number | bigint {
+    const x = v & 31;
     if (x <= 23) {
       // small
+      return x;
     } else if (x === 24) {
       // 8-bit
-      x = stream.getc();
+      return stream.getc();
     } else if (x === 25) {
       // 16-bit
-      x = stream.getc() << 8;
-      x |= stream.getc();
+      return new DataView(stream.chop(2).slice().buffer).getUint16(0);
     } else if (x === 26) {
       // 32-bit
-      x = stream.getc() << 24;
-      x |= stream.getc() << 16;
-      x |= stream.getc() << 8;
-      x |= stream.getc();
+      return new DataView(stream.chop(4).slice().buffer).getUint32(0);
     } else if (x === 27) {
       // 64-bit
-      x = stream.getc() << 56;
-      x |= stream.getc() << 48;
-      x |= stream.getc() << 40;
-      x |= stream.getc() << 32;
-      x |= stream.getc() << 24;
-      x |= stream.getc() << 16;
-      x |= stream.getc() << 8;
-      x |= stream.getc();
-    } else {
-      throw new Error("invalid data");
+      const big = new DataView(stream.chop(8).slice().buffer).getBigUint64(0);
+      // integers beyond 2^53 cannot be represented exactly as a number
+      return big <= Number.MAX_SAFE_INTEGER ? Number(big) : big;
+    }
+    throw new Error("invalid data");
+  }
+  function decodeUint(stream: Stream, v: number): number | bigint {
+    const x = readUint(stream, v);
+    // RFC 8949 section 4.2.1
+    // The arguments for integers, lengths and tags MUST be as short as possible
+    const ai = v & 31;
+    if (
+      options.strict &&
+      ((ai === 24 && x < 24) ||
+        (ai === 25 && x < 0x100) ||
+        (ai === 26 && x < 0x10000) ||
+        (ai === 27 && x < 0x100000000))
+    ) {
+      throw new Violation({
+        code: "NON_CANONICAL_CBOR",
+        message:
+          "CBOR integers and lengths MUST be encoded in the shortest form possible",
+        section: "RFC8949.4.2.1",
+        link: "https://www.rfc-editor.org/rfc/rfc8949#section-4.2.1",
+      });
     }
     return x;
   }
+  function decodeLength(stream: Stream, v: number): number {
+    const len = decodeUint(stream, v);
+    if (typeof len !== "number") {
+      throw new Error("invalid length");
+    }
+    return len;
+  }
+  function decodeStringLength(stream: Stream, v: number): number {
+    const len = decodeLength(stream, v);
+    stream.checkLength(len);
+    return len;
+  }
+  function decodeItemCount(stream: Stream, v: number): number {
+    const len = decodeLength(stream, v);
+    stream.checkItems(len);
+    return len;
+  }
+  function isIndefinite(v: number) {
+    if ((v & 31) !== 31) {
+      return false;
+    }
+    // RFC 8949 section 4.2.1
+    // Indefinite-length items MUST NOT appear
+    if (options.strict) {
+      throw new Violation({
+        code: "NON_CANONICAL_CBOR",
+        message: "CBOR items MUST NOT be encoded with indefinite lengths",
+        section: "RFC8949.4.2.1",
+        link: "https://www.rfc-editor.org/rfc/rfc8949#section-4.2.1",
+      });
+    }
+    return true;
+  }
+  function isBreak(stream: Stream) {
+    // RFC 8949 section 3.2.1
+    // The "break" stop code terminates indefinite-length items
+    if (stream.getc() === 0xff) {
+      return true;
+    }
+    stream.ungetc();
+    return false;
+  }
+  function decodeChunks(stream: Stream, type: number): Uint8Array {
+    // RFC 8949 section 3.2.3
+    // Indefinite-length strings are a series of definite-length chunks of the same major type
+    const chunks: Uint8Array[] = [];
+    while (!isBreak(stream)) {
+      const v = stream.getc();
+      if (v >> 5 !== type || isIndefinite(v)) {
+        throw new Error("invalid data");
+      }
+      chunks.push(stream.chop(decodeLength(stream, v)));
+      stream.checkLength(chunks.reduce((len, c) => len + c.length, 0));
+    }
+    const out = new Uint8Array(chunks.reduce((len, c) => len + c.length, 0));
+    chunks.reduce((offset, c) => {
+      out.set(c, offset);
+      return offset + c.length;
+    }, 0);
+    return out;
+  }
+  function decodeHalf(bits: number): number {
+    const sign = bits & 0x8000 ? -1 : 1;
+    const exponent = (bits >> 10) & 0x1f;
+    const mantissa = bits & 0x3ff;
+    if (exponent === 0) {
+      // subnormal
+      return sign * mantissa * 2 ** -24;
+    } else if (exponent === 0x1f) {
+      return mantissa ? NaN : sign * Infinity;
+    }
+    return sign * (1024 + mantissa) * 2 ** (exponent - 25);
+  }
+  function decodeSimple(stream: Stream, v: number): Data {
+    const x = v & 31;
+    if (x === 20) {
+      return false;
+    } else if (x === 21) {
+      return true;
+    } else if (x === 22) {
+      return null;
+    } else if (x === 23) {
+      return undefined;
+    } else if (x === 25) {
+      // half-precision float
+      return decodeHalf(new DataView(stream.chop(2).slice().buffer).getUint16(0));
+    } else if (x === 26) {
+      // single-precision float
+      return new DataView(stream.chop(4).slice().buffer).getFloat32(0);
+    } else if (x === 27) {
+      // double-precision float
+      return new DataView(stream.chop(8).slice().buffer).getFloat64(0);
+    }
+    // unassigned simple values, reserved values and an unexpected "break"
+    throw new Error("invalid data");
+  }
+  function decodeTag(tag: number | bigint, value: Data): Data {
+    // RFC 8949 section 3.4.3
+    // Bignums are returned as BigInt
+    if ((tag === 2 || tag === 3) && value instanceof Uint8Array) {
+      const big = value.length ? BigInt(`0x${toHex(value)}`) : BigInt(0);
+      return tag === 2 ? big : BigInt(-1) - big;
+    }
+    if (typeof tag !== "number") {
+      throw new Error("invalid data");
+    }
+    return new TaggedValue(tag, value);
+  }
   function decode(stream: Stream, isKeyString?: boolean): Data {
     const v = stream.getc();
     const type = v >> 5;
@@ -82,84 +269,360 @@ function decodeCBORStream(stream: Stream) {
       return decodeUint(stream, v);
     } else if (type === 1) {
       // negative int
-      return ~decodeUint(stream, v);
+      const x = decodeUint(stream, v);
+      return typeof x === "number" ? -1 - x : BigInt(-1) - x;
     } else if (type === 2) {
       // byte array
-      return stream.chop(decodeUint(stream, v));
+      if (isIndefinite(v)) {
+        return decodeChunks(stream, type);
+      }
+      return stream.chop(decodeStringLength(stream, v));
     } else if (type === 3) {
       // utf-8 string
       return new TextDecoder("utf-8").decode(
-        stream.chop(decodeUint(stream, v))
+        isIndefinite(v)
+          ? decodeChunks(stream, type)
+          : stream.chop(decodeStringLength(stream, v))
       );
     } else if (type === 4) {
       // array
-      const d = new Array(decodeUint(stream, v))
-        .fill(undefined)
-        .map(() => decode(stream));
+      const d: Data[] = [];
+      stream.enter();
+      if (isIndefinite(v)) {
+        while (!isBreak(stream)) {
+          stream.checkItems(d.length + 1);
+          d.push(decode(stream));
+        }
+      } else {
+        const len = decodeItemCount(stream, v);
+        for (let i = 0; i < len; ++i) {
+          d.push(decode(stream));
+        }
+      }
+      stream.leave();
       return d;
     } else if (type === 5) {
       // object
       const dMap: Map<Data, Data> = new Map();
       const dObj: { [key: string]: Data } = {};
-      const len = decodeUint(stream, v);
-      for (let i = 0; i < len; ++i) {
+      const keys = new Set<string>();
+      const decodePair = () => {
         const key = decode(stream);
         const value = decode(stream, typeof key === "string");
+        // RFC 8949 section 5.6
+        // A map with duplicate keys can be interpreted in more than one way
+        // Keys are compared by type as well as value, so 1 and "1" are different keys
+        const keyId =
+          typeof key === "object" && key !== null
+            ? `object:${toHex(encodeCBOR(key))}`
+            : `${typeof key}:${key}`;
+        if (options.strict && keys.has(keyId)) {
+          throw new Violation({
+            code: "DUPLICATE_MAP_KEY",
+            message: `CBOR maps MUST NOT contain duplicate keys, but ${key} was repeated`,
+            section: "RFC8949.5.6",
+            link: "https://www.rfc-editor.org/rfc/rfc8949#section-5.6",
+          });
+        }
+        keys.add(keyId);
         dMap.set(key, value);
         dObj[`${key}`] = value;
+      };
+      stream.enter();
+      if (isIndefinite(v)) {
+        for (let i = 1; !isBreak(stream); ++i) {
+          stream.checkItems(i);
+          decodePair();
+        }
+      } else {
+        const len = decodeItemCount(stream, v);
+        for (let i = 0; i < len; ++i) {
+          decodePair();
+        }
       }
+      stream.leave();
       return isKeyString ? dObj : dMap;
+    } else if (type === 6) {
+      // tag
+      const tag = decodeUint(stream, v);
+      stream.enter();
+      const value = decodeTag(tag, decode(stream));
+      stream.leave();
+      return value;
     }
-    return null
+    // simple values and floats
+    return decodeSimple(stream, v);
   }
   return decode(stream);
 }
 
-const encodeBytes = (data: Uint8Array | never[]) => {
-  const x = data.length;
-  if (x === 0) {
-    return [0x40];
-  } else if (x <= 23) {
+class Writer {
+  data: Uint8Array;
+  len: number;
+
+  constructor() {
+    this.data = new Uint8Array(256);
+    this.len = 0;
+  }
+  reserve(len: number) {
+    if (this.len + len <= this.data.length) {
+      return;
+    }
+    let size = this.data.length * 2;
+    while (size < this.len + len) {
+      size *= 2;
+    }
+    const data = new Uint8Array(size);
+    data.set(this.data.subarray(0, this.len));
+    this.data = data;
+  }
+  putc(c: number) {
+    this.reserve(1);
+    this.data[this.len++] = c;
+  }
+  write(bytes: Uint8Array) {
+    this.reserve(bytes.length);
+    this.data.set(bytes, this.len);
+    this.len += bytes.length;
+  }
+  bytes() {
+    return this.data.slice(0, this.len);
+  }
+}
+
+const MAX_UINT64 = BigInt("0xffffffffffffffff");
+
+// RFC 8949 section 4.2.1
+// The arguments for integers, lengths in major types 2 through 5, and tags are as short as possible
+function encodeHead(writer: Writer, type: number, x: number | bigint) {
+  const mt = type << 5;
+  if (x <= 23) {
     // small
-    return [0x40 + x, ...data];
-  } else if (x < 256) {
+    writer.putc(mt | Number(x));
+  } else if (x < 0x100) {
     // 8-bit
-    return [0x40 + 24, x, ...data];
-  } else if (x < 65536) {
+    writer.putc(mt | 24);
+    writer.putc(Number(x));
+  } else if (x < 0x10000) {
     // 16-bit
-    return [0x40 + 25, x >> 8, x & 0xff, ...data];
-  } // leave 32-bit and 64-bit unimplemented
-  throw new Error("Too big data");
-};
+    const buf = new Uint8Array(3);
+    buf[0] = mt | 25;
+    new DataView(buf.buffer).setUint16(1, Number(x));
+    writer.write(buf);
+  } else if (x < 0x100000000) {
+    // 32-bit
+    const buf = new Uint8Array(5);
+    buf[0] = mt | 26;
+    new DataView(buf.buffer).setUint32(1, Number(x));
+    writer.write(buf);
+  } else if (x <= MAX_UINT64) {
+    // 64-bit
+    const buf = new Uint8Array(9);
+    buf[0] = mt | 27;
+    new DataView(buf.buffer).setBigUint64(1, BigInt(x));
+    writer.write(buf);
+  } else {
+    throw new Error("Too big data");
+  }
+}
+
+function encodeInteger(writer: Writer, x: bigint) {
+  if (x >= 0) {
+    if (x <= MAX_UINT64) {
+      // positive int
+      encodeHead(writer, 0, x);
+    } else {
+      // RFC 8949 section 3.4.3
+      // unsigned bignum
+      encodeHead(writer, 6, 2);
+      encodeBignum(writer, x);
+    }
+  } else {
+    const n = BigInt(-1) - x;
+    if (n <= MAX_UINT64) {
+      // negative int
+      encodeHead(writer, 1, n);
+    } else {
+      // negative bignum
+      encodeHead(writer, 6, 3);
+      encodeBignum(writer, n);
+    }
+  }
+}
+
+function encodeBignum(writer: Writer, x: bigint) {
+  let hex = x.toString(16);
+  if (hex.length % 2) {
+    hex = `0${hex}`;
+  }
+  const bytes = fromHex(hex);
+  encodeHead(writer, 2, bytes.length);
+  writer.write(bytes);
+}
+
+// returns the half-precision bits of x, or null if x cannot be represented exactly
+function toHalf(x: number): number | null {
+  const buf = new DataView(new ArrayBuffer(4));
+  buf.setFloat32(0, x);
+  if (buf.getFloat32(0) !== x) {
+    return null;
+  }
+  const bits = buf.getUint32(0);
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  const mantissa = bits & 0x7fffff;
+  if (exponent === 0 && mantissa === 0) {
+    // zero
+    return sign;
+  }
+  if (exponent === 0xff) {
+    // infinity
+    return sign | 0x7c00;
+  }
+  const e = exponent - 127;
+  if (e >= -14 && e <= 15) {
+    // normal
+    if (mantissa & 0x1fff) {
+      return null;
+    }
+    return sign | ((e + 15) << 10) | (mantissa >> 13);
+  }
+  if (e >= -24 && e < -14) {
+    // subnormal
+    const shift = -e - 1;
+    const m = mantissa | 0x800000;
+    if (m & ((1 << shift) - 1)) {
+      return null;
+    }
+    return sign | (m >> shift);
+  }
+  return null;
+}
+
+// RFC 8949 section 4.2.1
+// Floating-point values use the shortest form that preserves the value
+function encodeFloat(writer: Writer, x: number) {
+  if (Number.isNaN(x)) {
+    // canonical NaN
+    writer.write(new Uint8Array([0xf9, 0x7e, 0x00]));
+    return;
+  }
+  const half = toHalf(x);
+  if (half !== null) {
+    // half-precision float
+    writer.write(new Uint8Array([0xf9, half >> 8, half & 0xff]));
+    return;
+  }
+  const buf = new Uint8Array(9);
+  const view = new DataView(buf.buffer);
+  view.setFloat32(1, x);
+  if (view.getFloat32(1) === x) {
+    // single-precision float
+    buf[0] = 0xfa;
+    writer.write(buf.subarray(0, 5));
+  } else {
+    // double-precision float
+    buf[0] = 0xfb;
+    view.setFloat64(1, x);
+    writer.write(buf);
+  }
+}
+
+// RFC 8949 section 4.2.1
+// The keys in every map are sorted in the bytewise lexicographic order of their deterministic encodings
+function compareBytes(a: Uint8Array, b: Uint8Array) {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; ++i) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+function encodeMap(writer: Writer, entries: [Data, Data][]) {
+  const encoded = entries
+    .map(([key, value]) => ({ key: encodeCBOR(key), value }))
+    .sort((a, b) => compareBytes(a.key, b.key));
+  encodeHead(writer, 5, encoded.length);
+  encoded.forEach(({ key, value }, i) => {
+    if (i > 0 && compareBytes(encoded[i - 1].key, key) === 0) {
+      throw new Error("duplicate map key");
+    }
+    writer.write(key);
+    encodeCBORValue(writer, value);
+  });
+}
+
+// RFC 8949
+// Encodes using the core deterministic encoding requirements (section 4.2.1)
+function encodeCBORValue(writer: Writer, value: Data) {
+  if (typeof value === "number") {
+    if (Object.is(value, -0)) {
+      // negative zero is only representable as a float
+      encodeFloat(writer, value);
+    } else if (Number.isInteger(value) && Math.abs(value) <= MAX_UINT64) {
+      // positive or negative int, including integers beyond 2^53
+      encodeInteger(writer, BigInt(value));
+    } else {
+      // float
+      encodeFloat(writer, value);
+    }
+  } else if (typeof value === "bigint") {
+    encodeInteger(writer, value);
+  } else if (value instanceof Uint8Array) {
+    // byte array
+    encodeHead(writer, 2, value.length);
+    writer.write(value);
+  } else if (typeof value === "string") {
+    // utf-8 string
+    const bytes = new TextEncoder().encode(value);
+    encodeHead(writer, 3, bytes.length);
+    writer.write(bytes);
+  } else if (value instanceof Array) {
+    // array
+    encodeHead(writer, 4, value.length);
+    value.forEach((item) => encodeCBORValue(writer, item));
+  } else if (value instanceof Map) {
+    // object
+    encodeMap(writer, Array.from(value.entries()));
+  } else if (value instanceof TaggedValue) {
+    // tag
+    encodeHead(writer, 6, value.tag);
+    encodeCBORValue(writer, value.value);
+  } else if (value === false) {
+    writer.putc(0xf4);
+  } else if (value === true) {
+    writer.putc(0xf5);
+  } else if (value === null) {
+    writer.putc(0xf6);
+  } else if (value === undefined) {
+    writer.putc(0xf7);
+  } else if (typeof value === "object") {
+    // object with string keys
+    encodeMap(writer, Object.entries(value));
+  } else {
+    throw new Error("unsupported data");
+  }
+}
 
 export function encodeToBeSigned(bodyProtected: Uint8Array, payload: Uint8Array): Uint8Array {
-  const sig_structure = new Uint8Array([
-    // array w/ 4 items
-    0x84,
-    // #1: context: "Signature1"
-    0x6a,
-    0x53,
-    0x69,
-    0x67,
-    0x6e,
-    0x61,
-    0x74,
-    0x75,
-    0x72,
-    0x65,
-    0x31,
-    // #2: body_protected: CWT headers
-    ...encodeBytes(bodyProtected),
-    // #3: external_aad: empty
-    ...encodeBytes([]),
-    // #4: payload: CWT claims
-    ...encodeBytes(payload),
+  //   Sig_structure = [
+  //     context : "Signature1",
+  //     body_protected : CWT headers,
+  //     external_aad : empty,
+  //     payload : CWT claims
+  // ]
+  const ToBeSigned = encodeCBOR([
+    "Signature1",
+    bodyProtected,
+    new Uint8Array(0),
+    payload,
   ]);
-  const ToBeSigned = sig_structure;
   return ToBeSigned;
 }
 
-function decodeCOSEStream(stream: Stream) {
+function decodeCOSEStream(stream: Stream, options: DecodeCBOROptions = {}) {
   const vtag = stream.getc();
   const tag = vtag & 31;
 
@@ -167,7 +630,8 @@ function decodeCOSEStream(stream: Stream) {
     if (vtag !== 0xD2) {
       throw new Error('invalid data');
     }
-    const data = decodeCBORStream(stream);
+    const data = decodeCBORStream(stream, options);
+    expectEndOfStream(stream, options);
     if (!(data instanceof Array)) {
       throw new Error('invalid data');
     }
@@ -201,12 +665,60 @@ function decodeCOSEStream(stream: Stream) {
   }
 }
 
-export const decodeCBOR = (buf: Uint8Array): Data => {
-  const data = decodeCBORStream(new Stream(buf))
+// RFC 8949 appendix F
+// Input bytes left after the top-level item are only an error if the input is expected to be exactly one data item
+function expectEndOfStream(stream: Stream, options: DecodeCBOROptions) {
+  if (options.strict && stream.ptr < stream.len) {
+    throw new Violation({
+      code: "TRAILING_BYTES",
+      message: `CBOR data MUST consist of exactly one data item, but ${
+        stream.len - stream.ptr
+      } trailing bytes were found`,
+      section: "RFC8949.F",
+      link: "https://www.rfc-editor.org/rfc/rfc8949#appendix-F",
+    });
+  }
+}
+
+export const decodeCBOR = (
+  buf: Uint8Array,
+  options: DecodeCBOROptions = {}
+): Data => {
+  const stream = new Stream(buf, options.limits)
+  const data = decodeCBORStream(stream, options)
+  expectEndOfStream(stream, options)
   return data
 };
 
-export const decodeCOSE = (buf: Uint8Array): DecodedCOSEStructure => {
-  const data = decodeCOSEStream(new Stream(buf))
+export const decodeCOSE = (
+  buf: Uint8Array,
+  options: DecodeCBOROptions = {}
+): DecodedCOSEStructure => {
+  let stream: Stream;
+  try {
+    stream = new Stream(buf, options.limits)
+  } catch (err) {
+    // input over maxInputSize fails like any other malformed input
+    return { tag: buf[0] & 31, value: [], err }
+  }
+  const data = decodeCOSEStream(stream, options)
   return data
 };
+
+export const encodeCBOR = (data: Data): Uint8Array => {
+  const writer = new Writer();
+  encodeCBORValue(writer, data);
+  return writer.bytes();
+};
+
+// COSE_Sign1 is a CBOR array of 4 items with the tag #18
+// https://datatracker.ietf.org/doc/html/rfc8152#section-4.2
+export const encodeCOSE = (
+  bodyProtected: Uint8Array,
+  payload: Uint8Array,
+  signature: Uint8Array
+): Uint8Array => {
+  return encodeCBOR(
+    new TaggedValue(18, [bodyProtected, new Map(), payload, signature])
+  );
+};
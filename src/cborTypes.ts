@@ -1 +1,42 @@
-export type Data = string | number | Uint8Array | Data[] | Map<Data, Data> | { [key: string]: Data } | null;
\ No newline at end of file
+// RFC 8949 section 3.4
+// A tagged data item, the tag number is kept alongside the enclosed data item
+export class TaggedValue {
+  tag: number;
+  value: Data;
+
+  constructor(tag: number, value: Data) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+export type Data =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | Data[]
+  | Map<Data, Data>
+  | { [key: string]: Data }
+  | TaggedValue
+  | null
+  | undefined;
+
+export type DecodeCBORLimits = {
+  // maximum nesting depth of arrays, maps and tags
+  maxDepth: number;
+  // maximum number of items in an array or pairs in a map
+  maxItems: number;
+  // maximum length in bytes of a byte or text string
+  maxLength: number;
+  // maximum size in bytes of the whole input
+  maxInputSize: number;
+};
+
+export type DecodeCBOROptions = {
+  // reject trailing bytes, duplicate map keys, indefinite lengths and non-minimal integer/length encodings
+  strict?: boolean;
+  // resource limits, missing ones are unlimited, e.g. pass DEFAULT_DECODE_LIMITS for untrusted input
+  limits?: Partial<DecodeCBORLimits>;
+};
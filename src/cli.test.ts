@@ -0,0 +1,170 @@
+import { CLIIO, parseArguments, runCLI } from "./cli";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+import { createPassURI } from "./issue";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
+// https://nzcp.covid19.health.nz/#valid-worked-example
+const EXAMPLE_PASS =
+  "NZCP:/1/2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUYMBTIFAIGTUKBAAUYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RPMNXW45DFPB2HGL3WGFTXMZLSONUW63TFGEXDALRQMR2HS4DFQJ2FMZLSNFTGSYLCNRSUG4TFMRSW45DJMFWG6UDVMJWGSY2DN53GSZCQMFZXG4LDOJSWIZLOORUWC3CTOVRGUZLDOSRWSZ3JOZSW4TTBNVSWISTBMNVWUZTBNVUWY6KOMFWWKZ2TOBQXE4TPO5RWI33CNIYTSNRQFUYDILJRGYDVAYFE6VGU4MCDGK7DHLLYWHVPUS2YIDJOA6Y524TD3AZRM263WTY2BE4DPKIF27WKF3UDNNVSVWRDYIYVJ65IRJJJ6Z25M2DO4YZLBHWFQGVQR5ZLIWEQJOZTS3IQ7JTNCFDX";
+
+// https://nzcp.covid19.health.nz/#expired-pass
+const EXPIRED_PASS =
+  "NZCP:/1/2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUX5AM2FQIGTBPBPYWYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RPMNXW45DFPB2HGL3WGFTXMZLSONUW63TFGEXDALRQMR2HS4DFQJ2FMZLSNFTGSYLCNRSUG4TFMRSW45DJMFWG6UDVMJWGSY2DN53GSZCQMFZXG4LDOJSWIZLOORUWC3CTOVRGUZLDOSRWSZ3JOZSW4TTBNVSWISTBMNVWUZTBNVUWY6KOMFWWKZ2TOBQXE4TPO5RWI33CNIYTSNRQFUYDILJRGYDVA56TNJCCUN2NVK5NGAYOZ6VIWACYIBM3QXW7SLCMD2WTJ3GSEI5JH7RXAEURGATOHAHXC2O6BEJKBSVI25ICTBR5SFYUDSVLB2F6SJ63LWJ6Z3FWNHOXF6A2QLJNUFRQNTRU";
+
+const createIO = (files: Record<string, string> = {}, stdin = "") => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CLIIO = {
+    stdout: (line) => out.push(line),
+    stderr: (line) => err.push(line),
+    readFile: (path) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    readStdin: async () => stdin,
+  };
+  return { io, out, err };
+};
+
+const files = { "did.json": JSON.stringify(exampleDIDDocument) };
+
+test("CLI parses repeatable options", () => {
+  const args = parseArguments([
+    "verify",
+    "--trusted-issuer",
+    "did:web:a",
+    "--trusted-issuer",
+    "did:web:b",
+    "--did-document",
+    "did.json",
+    "--at",
+    "1635883530",
+    "-",
+  ]);
+  expect(args.command).toBe("verify");
+  expect(args.inputs).toStrictEqual(["-"]);
+  expect(args.trustedIssuers).toStrictEqual(["did:web:a", "did:web:b"]);
+  expect(args.didDocuments).toStrictEqual(["did.json"]);
+  expect(args.offline).toBe(true);
+  expect(args.at).toStrictEqual(new Date("2021-11-02T20:05:30.000Z"));
+});
+
+test("CLI verifies a valid pass offline", async () => {
+  const { io, out } = createIO(files);
+  const code = await runCLI(["verify", "--did-document", "did.json", EXAMPLE_PASS], io);
+  expect(code).toBe(0);
+  expect(out).toStrictEqual(["1: VALID Jack Sparrow (1960-04-16), expires 2031-11-02T20:05:30.000Z"]);
+});
+
+test("CLI exits with 1 when a pass is invalid", async () => {
+  const { io, out, err } = createIO(files);
+  const code = await runCLI(["verify", "--did-document", "did.json", EXAMPLE_PASS, EXPIRED_PASS], io);
+  expect(code).toBe(1);
+  expect(out[1]).toMatch(/^2: INVALID \[2\.1\.0\.4\.3\]/);
+  expect(err).toStrictEqual(["1 valid, 1 invalid"]);
+});
+
+test("CLI verifies as of --at", async () => {
+  const { io } = createIO(files);
+  const code = await runCLI(
+    ["verify", "--did-document", "did.json", "--at", "2021-06-01T00:00:00Z", EXPIRED_PASS],
+    io
+  );
+  expect(code).toBe(0);
+});
+
+test("CLI reads URIs from files and stdin and prints NDJSON", async () => {
+  const { io, out } = createIO(
+    { ...files, "passes.txt": `${EXAMPLE_PASS}\n\n${EXPIRED_PASS}\n` },
+    `${EXAMPLE_PASS}\r\n`
+  );
+  const code = await runCLI(["verify", "--json", "--did-document", "did.json", "passes.txt", "-"], io);
+  expect(code).toBe(1);
+  const results = out.map((line) => JSON.parse(line));
+  expect(results.map((r) => r.success)).toStrictEqual([true, false, true]);
+  expect(results[1].violates.section).toBe("2.1.0.4.3");
+});
+
+test("CLI prints passes with 64-bit integers as JSON", async () => {
+  const uri = createPassURI(
+    {
+      jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+      nbf: 1641679750,
+      exp: 1956007750,
+      vc: {
+        "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+        version: "1.0.0",
+        type: ["VerifiableCredential", "PublicCovidPass"],
+        credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+        serial: BigInt("9007199254740993"),
+      } as never,
+    },
+    { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id }
+  );
+  const { io, out } = createIO({ "did.json": JSON.stringify(mineDIDDocument) });
+  const code = await runCLI(
+    ["verify", "--json", "--did-document", "did.json", "--trusted-issuer", mineDIDDocument.id, "--at", "2023-01-01T00:00:00Z", uri],
+    io
+  );
+  expect(code).toBe(0);
+  expect(JSON.parse(out[0]).raw.vc.serial).toBe("9007199254740993");
+});
+
+test("CLI only trusts the given issuers", async () => {
+  const { io, out } = createIO(files);
+  const code = await runCLI(
+    ["verify", "--did-document", "did.json", "--trusted-issuer", "did:web:nzcp.identity.health.nz", EXAMPLE_PASS],
+    io
+  );
+  expect(code).toBe(1);
+  expect(out[0]).toMatch(/\[6\.3\]/);
+});
+
+test("CLI validates DID documents", async () => {
+  const badDocument = JSON.stringify({ ...exampleDIDDocument, assertionMethod: [`${exampleDIDDocument.id}#key-2`] });
+  const { io, out, err } = createIO({ ...files, "bad.json": badDocument });
+  expect(await runCLI(["validate-did", "did.json", "bad.json"], io)).toBe(1);
+  expect(out).toStrictEqual([
+    "did.json: VALID",
+    `bad.json: INVALID [5.1.1] assertionMethod[0]: The \`assertionMethod\` \`${exampleDIDDocument.id}#key-2\` MUST reference a verification method of the DID document.`,
+  ]);
+  expect(err).toStrictEqual(["1 valid, 1 invalid"]);
+
+  const json = createIO({}, "{");
+  expect(await runCLI(["validate-did", "--json", "-"], json.io)).toBe(1);
+  expect(JSON.parse(json.out[0])).toMatchObject({ file: "-", issues: [{ path: "", section: "DID-CORE.6.2" }] });
+
+  expect(await runCLI(["validate-did"], createIO().io)).toBe(2);
+  expect(await runCLI(["validate-did", "missing.json"], createIO().io)).toBe(2);
+});
+
+test("CLI exits with 2 on usage errors", async () => {
+  expect(await runCLI([], createIO().io)).toBe(2);
+  expect(await runCLI(["check", EXAMPLE_PASS], createIO().io)).toBe(2);
+  expect(await runCLI(["verify"], createIO().io)).toBe(2);
+  expect(await runCLI(["verify", "--at", "yesterday", EXAMPLE_PASS], createIO().io)).toBe(2);
+  expect(await runCLI(["verify", "--frobnicate", EXAMPLE_PASS], createIO().io)).toBe(2);
+  expect(await runCLI(["verify", "missing.txt"], createIO().io)).toBe(2);
+});
+
+test("CLI exits with 2 when a --did-document file is not a valid DID document", async () => {
+  const { io, out, err } = createIO({ ...files, "bad.json": JSON.stringify({ ...exampleDIDDocument, assertionMethod: [] }) });
+  expect(await runCLI(["verify", "--did-document", "did.json", "--did-document", "bad.json", EXAMPLE_PASS], io)).toBe(2);
+  expect(out).toStrictEqual([]);
+  expect(err).toStrictEqual([
+    "nzcp: bad.json: INVALID [5.1.1] assertionMethod: The `assertionMethod` of a DID document MUST reference the keys passes are signed with.",
+  ]);
+
+  const notJSON = createIO({ "did.json": "<html>" });
+  expect(await runCLI(["verify", "--did-document", "did.json", EXAMPLE_PASS], notJSON.io)).toBe(2);
+  expect(notJSON.err[0]).toMatch(/^nzcp: did.json: INVALID \[DID-CORE.6.2\] A DID document MUST be JSON/);
+});
+
+test("CLI prints help", async () => {
+  const { io, out } = createIO();
+  expect(await runCLI(["--help"], io)).toBe(0);
+  expect(out[0]).toMatch(/^Usage: nzcp verify/);
+});
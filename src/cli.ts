@@ -0,0 +1,272 @@
+import { DIDDocument } from "did-resolver";
+import { DIDDocumentIssue, loadDIDDocument } from "./didDocument";
+import { VerificationResult } from "./generalTypes";
+import {
+  DID_DOCUMENTS,
+  verifyPassURIsIterator,
+  VerifyPassURIsOptions,
+} from "./main";
+
+// The `nzcp` command line interface, see `nzcp --help`
+// It is kept free of process globals so it can be tested, src/bin.ts wires it up to node
+
+export type CLIIO = {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  readFile: (path: string) => string;
+  readStdin: () => Promise<string>;
+};
+
+export const USAGE = `Usage: nzcp verify [options] <uri|file|->...
+       nzcp validate-did [options] <file|->...
+
+Verifies NZ COVID Passes. Each argument is a pass URI, a file with one URI per line,
+or - to read URIs from stdin.
+
+validate-did checks DID documents before passes are verified against them. Each argument
+is a file with a DID document, or - to read one from stdin.
+
+Options:
+  --offline               verify against prefetched DID documents, DID_DOCUMENTS.MOH_LIVE by default
+  --did-document <file>   verify against the DID document in <file>, implies --offline (repeatable)
+  --trusted-issuer <did>  trust this issuer instead of the default (repeatable)
+  --at <timestamp>        verify as of this ISO 8601 date or unix timestamp
+  --json                  print one JSON VerificationResult per line, or one JSON object
+                          of the file and its issues per DID document
+  -h, --help              show this help
+
+Exits with 0 when every pass or DID document is valid, 1 when one is invalid and 2 on usage errors
+or when a --did-document file is not a valid DID document.`;
+
+export type CLIArguments = {
+  command: string | undefined;
+  inputs: string[];
+  offline: boolean;
+  didDocuments: string[];
+  trustedIssuers: string[];
+  at: Date | undefined;
+  json: boolean;
+  help: boolean;
+};
+
+class UsageError extends Error {}
+
+/**
+ * parses the arguments following `nzcp`
+ * @param argv the arguments, without the node and script paths
+ * @returns {CLIArguments} the parsed arguments
+ */
+export const parseArguments = (argv: string[]): CLIArguments => {
+  const args: CLIArguments = {
+    command: undefined,
+    inputs: [],
+    offline: false,
+    didDocuments: [],
+    trustedIssuers: [],
+    at: undefined,
+    json: false,
+    help: false,
+  };
+  const value = (flag: string, i: number): string => {
+    if (i >= argv.length) {
+      throw new UsageError(`${flag} requires a value`);
+    }
+    return argv[i];
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--offline") {
+      args.offline = true;
+    } else if (arg === "--did-document") {
+      args.didDocuments.push(value(arg, ++i));
+      args.offline = true;
+    } else if (arg === "--trusted-issuer") {
+      args.trustedIssuers.push(value(arg, ++i));
+    } else if (arg === "--at") {
+      args.at = parseTimestamp(value(arg, ++i));
+    } else if (arg === "--json") {
+      args.json = true;
+    } else if (arg === "-h" || arg === "--help") {
+      args.help = true;
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else if (args.command === undefined) {
+      args.command = arg;
+    } else {
+      args.inputs.push(arg);
+    }
+  }
+  return args;
+};
+
+// a unix timestamp in seconds, as used by the `nbf` and `exp` claims, or an ISO 8601 date
+const parseTimestamp = (input: string): Date => {
+  const date = /^\d+$/.test(input)
+    ? new Date(Number(input) * 1000)
+    : new Date(input);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`Invalid timestamp ${input}`);
+  }
+  return date;
+};
+
+const readURIs = async (inputs: string[], io: CLIIO): Promise<string[]> => {
+  const uris: string[] = [];
+  for (const input of inputs) {
+    if (/^NZCP:\//i.test(input)) {
+      uris.push(input);
+      continue;
+    }
+    const text = input === "-" ? await io.readStdin() : io.readFile(input);
+    text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .forEach((line) => uris.push(line));
+  }
+  return uris;
+};
+
+const formatResult = (index: number, result: VerificationResult): string => {
+  if (result.success) {
+    const { givenName, familyName, dob } = result.credentialSubject;
+    const name = [givenName, familyName].filter(Boolean).join(" ");
+    const warnings = (result.warnings ?? []).map(
+      (w) => `\n  warning [${w.section}] ${w.message}`
+    );
+    return `${index + 1}: VALID ${name} (${dob}), expires ${result.expires.toISOString()}${warnings.join("")}`;
+  }
+  const { section, message } = result.violates;
+  return `${index + 1}: INVALID [${section}] ${message}`;
+};
+
+// the raw claims of a pass can hold integers beyond 2^53 as BigInt, which JSON.stringify rejects
+const toJSON = (result: VerificationResult): string =>
+  JSON.stringify(result, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+
+const formatIssue = (input: string, issue: DIDDocumentIssue): string =>
+  `${input}: INVALID [${issue.section}] ${issue.path ? `${issue.path}: ` : ""}${issue.message}`;
+
+const reportError = (err: unknown, io: CLIIO): number => {
+  io.stderr(`nzcp: ${(err as Error).message}`);
+  if (err instanceof UsageError) {
+    io.stderr(USAGE);
+  }
+  return 2;
+};
+
+// `nzcp validate-did`
+const runValidateDID = async (
+  args: CLIArguments,
+  io: CLIIO
+): Promise<number> => {
+  const documents: { input: string; json: string }[] = [];
+  try {
+    if (args.inputs.length === 0) {
+      throw new UsageError("Missing <file|->");
+    }
+    for (const input of args.inputs) {
+      const json = input === "-" ? await io.readStdin() : io.readFile(input);
+      documents.push({ input, json });
+    }
+  } catch (err) {
+    return reportError(err, io);
+  }
+
+  let failures = 0;
+  documents.forEach(({ input, json }) => {
+    const { issues } = loadDIDDocument(json);
+    if (issues.length > 0) {
+      failures += 1;
+    }
+    if (args.json) {
+      io.stdout(JSON.stringify({ file: input, issues }));
+    } else if (issues.length === 0) {
+      io.stdout(`${input}: VALID`);
+    } else {
+      issues.forEach((issue) => io.stdout(formatIssue(input, issue)));
+    }
+  });
+  if (!args.json) {
+    io.stderr(`${documents.length - failures} valid, ${failures} invalid`);
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+/**
+ * runs the CLI
+ * @param argv the arguments, without the node and script paths
+ * @param io how to read input and write output
+ * @returns {number} the exit code
+ */
+export const runCLI = async (argv: string[], io: CLIIO): Promise<number> => {
+  let args: CLIArguments;
+  let uris: string[];
+  let options: VerifyPassURIsOptions;
+  try {
+    args = parseArguments(argv);
+    if (args.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (args.command === "validate-did") {
+      return runValidateDID(args, io);
+    }
+    if (args.command !== "verify") {
+      throw new UsageError(
+        args.command ? `Unknown command ${args.command}` : "Missing command"
+      );
+    }
+    if (args.inputs.length === 0) {
+      throw new UsageError("Missing <uri|file|->");
+    }
+    // passes are only verified against DID documents without issues, as `nzcp validate-did` reports them
+    const didDocuments: DIDDocument[] = [];
+    let invalidDIDDocuments = 0;
+    args.didDocuments.forEach((file) => {
+      const { didDocument, issues } = loadDIDDocument(io.readFile(file));
+      issues.forEach((issue) => io.stderr(`nzcp: ${formatIssue(file, issue)}`));
+      if (didDocument && issues.length === 0) {
+        didDocuments.push(didDocument);
+      } else {
+        invalidDIDDocuments += 1;
+      }
+    });
+    if (invalidDIDDocuments > 0) {
+      return 2;
+    }
+    options = {
+      trustedIssuer:
+        args.trustedIssuers.length > 0 ? args.trustedIssuers : undefined,
+      didDocument: args.offline
+        ? didDocuments.length > 0
+          ? didDocuments
+          : DID_DOCUMENTS.MOH_LIVE
+        : undefined,
+      now: args.at,
+    };
+    uris = await readURIs(args.inputs, io);
+  } catch (err) {
+    return reportError(err, io);
+  }
+
+  let failures = 0;
+  try {
+    const iterator = verifyPassURIsIterator(uris, options);
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      const { index, result } = next.value;
+      if (!result.success) {
+        failures += 1;
+      }
+      io.stdout(args.json ? toJSON(result) : formatResult(index, result));
+    }
+  } catch (err) {
+    return reportError(err, io);
+  }
+  if (!args.json) {
+    io.stderr(`${uris.length - failures} valid, ${failures} invalid`);
+  }
+  return failures > 0 ? 1 : 0;
+};
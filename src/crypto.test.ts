@@ -0,0 +1,144 @@
+import nodeCrypto from "crypto";
+import elliptic from "elliptic";
+import { DIDDocument } from "did-resolver";
+import { ES256, ES384, ES512, EdDSA, SignatureAlgorithm } from "./algorithms";
+import {
+  AsyncCryptoProvider,
+  CryptoProvider,
+  ELLIPTIC_CRYPTO_PROVIDER,
+  getDefaultAsyncCryptoProvider,
+  getDefaultCryptoProvider,
+  setDefaultAsyncCryptoProvider,
+  setDefaultCryptoProvider,
+} from "./crypto";
+import { NODE_CRYPTO_PROVIDER } from "./cryptoNode";
+import { createWebCryptoProvider } from "./cryptoWeb";
+import { createPassURI } from "./issue";
+import { verifyPassURI, verifyPassURIOffline, verifyPassURIs } from "./main";
+import { encodeBase64Url } from "./util";
+
+const now = new Date("2023-01-01T00:00:00Z");
+const iss = "did:web:crypto.example.com";
+
+const claims = {
+  jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+  nbf: 1641679750,
+  exp: 1956007750,
+  vc: {
+    "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+    version: "1.0.0",
+    type: ["VerifiableCredential", "PublicCovidPass"],
+    credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+  },
+};
+
+const toBase64Url = (bytes: number[]) => encodeBase64Url(new Uint8Array(bytes));
+
+// a pass signed with a freshly generated key of the algorithm, and the DID document of its issuer
+const mint = (algorithm: SignatureAlgorithm) => {
+  let publicKeyJwk: { kty: string; crv: string; x: string; y?: string };
+  let d: string;
+  if (algorithm === EdDSA) {
+    const secret = nodeCrypto.randomBytes(32);
+    const key = new elliptic.eddsa("ed25519").keyFromSecret(secret);
+    publicKeyJwk = { kty: "OKP", crv: "Ed25519", x: toBase64Url(Array.from(key.getPublic())) };
+    d = toBase64Url(Array.from(secret));
+  } else {
+    const key = new elliptic.ec(algorithm.curve).genKeyPair();
+    publicKeyJwk = {
+      kty: "EC",
+      crv: algorithm.crv,
+      x: toBase64Url(key.getPublic().getX().toArray("be", algorithm.size)),
+      y: toBase64Url(key.getPublic().getY().toArray("be", algorithm.size)),
+    };
+    d = toBase64Url(key.getPrivate().toArray("be", algorithm.size));
+  }
+  const didDocument: DIDDocument = {
+    id: iss,
+    assertionMethod: [`${iss}#key-1`],
+    verificationMethod: [{ id: `${iss}#key-1`, controller: iss, type: "JsonWebKey2020", publicKeyJwk }],
+  };
+  const uri = createPassURI(claims, { privateKeyJwk: { ...publicKeyJwk, d }, kid: "key-1", iss, alg: algorithm.name });
+  // flip a bit of the signature, the last characters of the payload
+  const last = uri[uri.length - 2];
+  const tampered = `${uri.slice(0, -2)}${last === "A" ? "B" : "A"}${uri.slice(-1)}`;
+  return { uri, tampered, didDocument };
+};
+
+const passes = [ES256, ES384, ES512, EdDSA].map((algorithm) => ({ algorithm, ...mint(algorithm) }));
+const algorithms = passes.map(({ algorithm }) => algorithm.name);
+
+const webCryptoProvider = createWebCryptoProvider(
+  (nodeCrypto as unknown as { webcrypto: { subtle: SubtleCrypto } }).webcrypto.subtle
+);
+
+test("The elliptic and node providers verify every algorithm", () => {
+  [ELLIPTIC_CRYPTO_PROVIDER, NODE_CRYPTO_PROVIDER].forEach((cryptoProvider) => {
+    passes.forEach(({ uri, tampered, didDocument }) => {
+      const options = { didDocument, algorithms, cryptoProvider, now };
+      expect(verifyPassURIOffline(uri, options).success).toBe(true);
+      expect(verifyPassURIOffline(tampered, options).violates?.code).toBe("BAD_SIGNATURE");
+    });
+  });
+});
+
+test("The WebCrypto provider verifies every algorithm", async () => {
+  for (const { uri, tampered, didDocument } of passes) {
+    const options = { didDocument, algorithms, cryptoProvider: webCryptoProvider, now };
+    expect((await verifyPassURIs([uri, tampered], options)).results.map((r) => r.violates?.code)).toEqual([
+      undefined,
+      "BAD_SIGNATURE",
+    ]);
+  }
+});
+
+test("Providers reject keys that are not on the curve", () => {
+  const publicKeyJwk = { kty: "EC", crv: "P-256", x: toBase64Url(new Array(32).fill(1)), y: toBase64Url(new Array(32).fill(2)) };
+  expect(NODE_CRYPTO_PROVIDER.importPublicKey(publicKeyJwk, ES256)).toBeNull();
+  return expect(webCryptoProvider.importPublicKey(publicKeyJwk, ES256)).resolves.toBeNull();
+});
+
+test("Injected providers are used for verification", async () => {
+  const { uri, didDocument } = passes[0];
+  const calls: string[] = [];
+  // e.g. a provider whose keys live in an HSM
+  const hsmProvider: AsyncCryptoProvider<string> = {
+    importPublicKey: async (publicKeyJwk) => {
+      calls.push("import");
+      return publicKeyJwk.x ?? null;
+    },
+    verify: async (publicKey, algorithm) => {
+      calls.push(`verify ${algorithm.name}`);
+      return publicKey === (didDocument.verificationMethod?.[0].publicKeyJwk?.x as string);
+    },
+  };
+  const result = await verifyPassURI(uri, {
+    resolver: { resolve: async () => ({ didResolutionMetadata: {}, didDocument, didDocumentMetadata: {} }) },
+    trustedIssuer: iss,
+    cryptoProvider: hsmProvider,
+    now,
+  });
+  expect(result.success).toBe(true);
+  expect(calls).toEqual(["import", "verify ES256"]);
+});
+
+test("Default providers can be replaced, a synchronous default replaces the asynchronous one", async () => {
+  const { uri, tampered, didDocument } = passes[0];
+  const verifyAll: CryptoProvider = { importPublicKey: () => ({}), verify: () => true };
+  expect(getDefaultCryptoProvider()).toBe(ELLIPTIC_CRYPTO_PROVIDER);
+  try {
+    setDefaultCryptoProvider(verifyAll);
+    expect(verifyPassURIOffline(tampered, { didDocument, now }).success).toBe(true);
+
+    setDefaultAsyncCryptoProvider(webCryptoProvider);
+    expect(getDefaultAsyncCryptoProvider()).toBe(webCryptoProvider);
+    expect((await verifyPassURIs([uri, tampered], { didDocument, now })).counts.success).toBe(1);
+    // verifyPassURIOffline keeps the synchronous default
+    expect(verifyPassURIOffline(tampered, { didDocument, now }).success).toBe(true);
+
+    setDefaultCryptoProvider(ELLIPTIC_CRYPTO_PROVIDER);
+    expect(getDefaultAsyncCryptoProvider()).toBe(ELLIPTIC_CRYPTO_PROVIDER);
+  } finally {
+    setDefaultCryptoProvider(ELLIPTIC_CRYPTO_PROVIDER);
+  }
+});
@@ -1,31 +1,236 @@
 import { sha256 } from "js-sha256";
+import hash from "hash.js";
 import elliptic from "elliptic";
+import { ES256, isEdDSA, SignatureAlgorithm } from "./algorithms";
 import { DecodedCOSEStructure } from "./coseTypes";
 import { encodeToBeSigned } from "./cbor";
-import { decode } from 'base64-arraybuffer'
-import { toHex } from "./util";
+import { decodeBase64Url, toHex } from "./util";
 
-const EC = elliptic.ec;
-const ec = new EC("p256");
+// Verifies COSE signatures, `K` is the key type of the provider, e.g. a node KeyObject or a WebCrypto CryptoKey
+// `data` is the encoded Sig_structure and `signature` the raw COSE signature, r and s concatenated for ECDSA
+export interface CryptoProvider<K = unknown> {
+  // returns null when the JWK is not a usable public key for the algorithm
+  importPublicKey(publicKeyJwk: JsonWebKey, algorithm: SignatureAlgorithm): K | null;
+  verify(publicKey: K, algorithm: SignatureAlgorithm, data: Uint8Array, signature: Uint8Array): boolean;
+}
 
-export function validateCOSESignature(
-  decodedCOSEStructure: DecodedCOSEStructure,
-  publicKeyJwt: JsonWebKey
-): boolean {
-  // protected is a typescript keyword
-  const [protected_, , payload_, signature_] = decodedCOSEStructure.value;
+// a provider backed by an asynchronous API such as crypto.subtle or an HSM, only supported by verifyPassURI
+export interface AsyncCryptoProvider<K = unknown> {
+  importPublicKey(publicKeyJwk: JsonWebKey, algorithm: SignatureAlgorithm): Promise<K | null>;
+  verify(publicKey: K, algorithm: SignatureAlgorithm, data: Uint8Array, signature: Uint8Array): Promise<boolean>;
+}
+
+export type PublicKey = elliptic.ec.KeyPair | elliptic.eddsa.KeyPair;
+
+// curves are created on first use, as precomputing them is slow
+const ecdsaCurves = new Map<string, elliptic.ec>();
+const eddsaCurves = new Map<string, elliptic.eddsa>();
+
+/**
+ * the ECDSA curve of an algorithm, shared by everything that decodes or verifies with it
+ * @param algorithm the algorithm selecting the curve
+ * @returns {elliptic.ec} the curve, created on first use
+ */
+export const getECDSA = (algorithm: SignatureAlgorithm): elliptic.ec => {
+  let ec = ecdsaCurves.get(algorithm.curve);
+  if (!ec) {
+    ec = new elliptic.ec(algorithm.curve);
+    ecdsaCurves.set(algorithm.curve, ec);
+  }
+  return ec;
+};
+
+const getEdDSA = (algorithm: SignatureAlgorithm): elliptic.eddsa => {
+  let eddsa = eddsaCurves.get(algorithm.curve);
+  if (!eddsa) {
+    eddsa = new elliptic.eddsa(algorithm.curve as "ed25519");
+    eddsaCurves.set(algorithm.curve, eddsa);
+  }
+  return eddsa;
+};
 
-  // verified at a earlier point...
-  if (!publicKeyJwt.x || !publicKeyJwt.y) {
+const digest = (
+  algorithm: SignatureAlgorithm,
+  data: Uint8Array
+): number[] => {
+  switch (algorithm.hash) {
+    case "SHA-384":
+      return hash.sha384().update(data).digest();
+    case "SHA-512":
+      return hash.sha512().update(data).digest();
+    default:
+      return sha256.digest(data);
+  }
+};
+
+/**
+ * whether public key coordinates are a point on the curve of the algorithm
+ * @param algorithm the algorithm selecting the curve
+ * @param x the x coordinate, the encoded point of an octet key pair
+ * @param y the y coordinate, octet key pairs have none
+ * @returns {boolean} whether the point is on the curve
+ */
+export const isOnCurve = (
+  algorithm: SignatureAlgorithm,
+  x: Uint8Array,
+  y?: Uint8Array
+): boolean => {
+  if (isEdDSA(algorithm)) {
+    try {
+      getEdDSA(algorithm).decodePoint(toHex(x));
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+  if (!y) {
+    return false;
+  }
+  const ec = getECDSA(algorithm);
+  // coordinates are elements of the field, `elliptic` would reduce larger values instead of rejecting them
+  const p = ec.curve.p.toString(16, algorithm.size * 2);
+  if (toHex(x) >= p || toHex(y) >= p) {
     return false;
   }
+  try {
+    return ec.keyFromPublic(`04${toHex(x)}${toHex(y)}`, "hex").getPublic().validate();
+  } catch (err) {
+    return false;
+  }
+};
+
+// Pure javascript provider on top of the `elliptic` library, it works everywhere but is the slowest
+export const ELLIPTIC_CRYPTO_PROVIDER: CryptoProvider<PublicKey> = {
+  importPublicKey: (publicKeyJwt, algorithm) => {
+    // verified at a earlier point...
+    if (!publicKeyJwt.x) {
+      return null;
+    }
+
+    const xBuf = decodeBase64Url(publicKeyJwt.x)
+
+    // an octet key pair is the encoded point itself
+    // https://datatracker.ietf.org/doc/html/rfc8037#section-2
+    if (isEdDSA(algorithm)) {
+      const eddsa = getEdDSA(algorithm);
+      try {
+        return eddsa.keyFromPublic(eddsa.decodePoint(toHex(xBuf)));
+      } catch (err) {
+        // not a point on the curve
+        return null;
+      }
+    }
 
-  const xBuf = new Uint8Array(decode(publicKeyJwt.x.replace(/-/g, '+').replace(/_/g, '/')))
-  const yBuf = new Uint8Array(decode(publicKeyJwt.y.replace(/-/g, '+').replace(/_/g, '/')))
+    if (!publicKeyJwt.y) {
+      return null;
+    }
+    const yBuf = decodeBase64Url(publicKeyJwt.y)
+
+    // 1) '04' + hex string of x + hex string of y
+    const publicKeyHex = `04${toHex(xBuf)}${toHex(yBuf)}`;
+    let key: elliptic.ec.KeyPair;
+    try {
+      key = getECDSA(algorithm).keyFromPublic(publicKeyHex, "hex");
+    } catch (err) {
+      // the coordinates are not of the size of the curve
+      return null;
+    }
+    // the curves have a cofactor of 1, so a point on the curve is a valid public key
+    if (!key.getPublic().validate()) {
+      return null;
+    }
+    return key;
+  },
+  verify: (publicKey, algorithm, data, signature) => {
+    // EdDSA signs the message itself, the signature being R and S concatenated
+    // https://datatracker.ietf.org/doc/html/rfc8152#section-8.2
+    if (isEdDSA(algorithm)) {
+      try {
+        return (publicKey as elliptic.eddsa.KeyPair).verify(
+          toHex(data),
+          toHex(signature)
+        );
+      } catch (err) {
+        // the signature does not encode a point on the curve
+        return false;
+      }
+    }
+
+    const messageHash = digest(algorithm, data);
+    const signatureRS = {
+      r: signature.slice(0, signature.length / 2),
+      s: signature.slice(signature.length / 2),
+    };
+    return (publicKey as elliptic.ec.KeyPair).verify(messageHash, signatureRS);
+  },
+};
+
+let defaultCryptoProvider: CryptoProvider = ELLIPTIC_CRYPTO_PROVIDER;
+let defaultAsyncCryptoProvider: AsyncCryptoProvider | undefined;
+
+/**
+ * sets the provider every verify function uses when its options don't choose one
+ * @param cryptoProvider the provider, it replaces an asynchronous default as well
+ */
+export const setDefaultCryptoProvider = (
+  cryptoProvider: CryptoProvider
+): void => {
+  defaultCryptoProvider = cryptoProvider;
+  defaultAsyncCryptoProvider = undefined;
+};
+
+/**
+ * sets the provider verifyPassURI and the functions built on it use when their options don't choose one,
+ * verifyPassURIOffline keeps using the synchronous default
+ * @param cryptoProvider the asynchronous provider
+ */
+export const setDefaultAsyncCryptoProvider = (
+  cryptoProvider: AsyncCryptoProvider
+): void => {
+  defaultAsyncCryptoProvider = cryptoProvider;
+};
+
+// the default provider of synchronous verification, e.g. verifyPassURIOffline
+export const getDefaultCryptoProvider = (): CryptoProvider =>
+  defaultCryptoProvider;
+
+// the default provider of verifyPassURI, which can wait for an asynchronous provider
+export const getDefaultAsyncCryptoProvider = ():
+  | CryptoProvider
+  | AsyncCryptoProvider => defaultAsyncCryptoProvider ?? defaultCryptoProvider;
+
+/**
+ * imports a public key JWK, so that it can verify several passes
+ * @param publicKeyJwt the public key JWK
+ * @param algorithm the algorithm the key verifies, defaults to ES256
+ * @param cryptoProvider defaults to the default provider
+ * @returns {K | null | Promise<K | null>} the imported key, or null when the JWK is not a usable public key
+ */
+export function importPublicKey<K>(
+  publicKeyJwt: JsonWebKey,
+  algorithm: SignatureAlgorithm = ES256,
+  cryptoProvider: CryptoProvider<K> | AsyncCryptoProvider<K> = getDefaultCryptoProvider() as CryptoProvider<K>
+): K | null | Promise<K | null> {
+  return cryptoProvider.importPublicKey(publicKeyJwt, algorithm);
+}
+
+/**
+ * validates the signature of a COSE_Sign1 structure
+ * @param decodedCOSEStructure the decoded COSE_Sign1 structure
+ * @param publicKey a key imported by the provider
+ * @param algorithm the algorithm of the `alg` header, defaults to ES256
+ * @param cryptoProvider defaults to the default provider
+ * @returns {boolean | Promise<boolean>} whether the signature is valid, a promise when the provider is asynchronous
+ */
+export function validateCOSESignature<K>(
+  decodedCOSEStructure: DecodedCOSEStructure,
+  publicKey: K,
+  algorithm: SignatureAlgorithm = ES256,
+  cryptoProvider: CryptoProvider<K> | AsyncCryptoProvider<K> = getDefaultCryptoProvider() as CryptoProvider<K>
+): boolean | Promise<boolean> {
+  // protected is a typescript keyword
+  const [protected_, , payload_, signature_] = decodedCOSEStructure.value;
 
-  // 1) '04' + hex string of x + hex string of y
-  const publicKeyHex = `04${toHex(xBuf)}${toHex(yBuf)}`;
-  const key = ec.keyFromPublic(publicKeyHex, "hex");
   //   Sig_structure = [
   //     context : "Signature" / "Signature1" / "CounterSignature",
   //     body_protected : empty_or_serialized_map,
@@ -35,11 +240,39 @@ export function validateCOSESignature(
   // ]
 
   const ToBeSigned = encodeToBeSigned(protected_ as Uint8Array, payload_ as Uint8Array);
-  const messageHash = sha256.digest(ToBeSigned);
-  const signature = {
-    r: (signature_ as Uint8Array).slice(0, (signature_ as Uint8Array).length / 2),
-    s: (signature_ as Uint8Array).slice((signature_ as Uint8Array).length / 2),
-  };
-  const result = key.verify(messageHash, signature);
-  return result;
+  return cryptoProvider.verify(
+    publicKey,
+    algorithm,
+    ToBeSigned,
+    signature_ as Uint8Array
+  );
+}
+
+export function signCOSE(
+  bodyProtected: Uint8Array,
+  payload: Uint8Array,
+  privateKeyJwk: JsonWebKey,
+  algorithm: SignatureAlgorithm = ES256
+): Uint8Array {
+  if (!privateKeyJwk.d) {
+    throw new Error("Private key JWK MUST contain the `d` parameter");
+  }
+  const privateKeyHex = toHex(decodeBase64Url(privateKeyJwk.d));
+  const ToBeSigned = encodeToBeSigned(bodyProtected, payload);
+
+  if (isEdDSA(algorithm)) {
+    const key = getEdDSA(algorithm).keyFromSecret(privateKeyHex);
+    return new Uint8Array(key.sign(toHex(ToBeSigned)).toBytes());
+  }
+
+  const key = getECDSA(algorithm).keyFromPrivate(privateKeyHex, "hex");
+  const messageHash = digest(algorithm, ToBeSigned);
+  const signature = key.sign(messageHash, { canonical: true });
+
+  // COSE ECDSA signatures are r and s concatenated, each padded to the curve size
+  // https://datatracker.ietf.org/doc/html/rfc8152#section-8.1
+  return new Uint8Array([
+    ...signature.r.toArray("be", algorithm.size),
+    ...signature.s.toArray("be", algorithm.size),
+  ]);
 }
@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import { isEdDSA } from "./algorithms";
+import { CryptoProvider } from "./crypto";
+import { decodeBase64Url, fromHex } from "./util";
+
+// Provider on top of the native `crypto` module of node, many times faster than the `elliptic` provider
+// Only available in node builds, where it is the default provider
+
+// DER encoded SubjectPublicKeyInfo up to the public key, by JWK `crv`
+// https://datatracker.ietf.org/doc/html/rfc5480#section-2 and https://datatracker.ietf.org/doc/html/rfc8410#section-4
+const SPKI_PREFIXES: Record<string, string> = {
+  "P-256": "3059301306072a8648ce3d020106082a8648ce3d030107034200",
+  "P-384": "3076301006072a8648ce3d020106052b81040022036200",
+  "P-521": "30819b301006072a8648ce3d020106052b8104002303818600",
+  Ed25519: "302a300506032b6570032100",
+};
+
+export const NODE_CRYPTO_PROVIDER: CryptoProvider<crypto.KeyObject> = {
+  importPublicKey: (publicKeyJwk, algorithm) => {
+    const prefix = SPKI_PREFIXES[algorithm.crv];
+    if (!prefix || !publicKeyJwk.x || (!isEdDSA(algorithm) && !publicKeyJwk.y)) {
+      return null;
+    }
+    // an uncompressed point is '04' + x + y, an octet key pair is the encoded point itself
+    const point = isEdDSA(algorithm)
+      ? decodeBase64Url(publicKeyJwk.x)
+      : new Uint8Array([
+          4,
+          ...decodeBase64Url(publicKeyJwk.x),
+          ...decodeBase64Url(publicKeyJwk.y as string),
+        ]);
+    try {
+      return crypto.createPublicKey({
+        key: Buffer.concat([fromHex(prefix), point]),
+        format: "der",
+        type: "spki",
+      });
+    } catch (err) {
+      // the coordinates are not a point on the curve
+      return null;
+    }
+  },
+  verify: (publicKey, algorithm, data, signature) => {
+    try {
+      // EdDSA hashes as part of the signature scheme, COSE ECDSA signatures are r and s concatenated
+      return crypto.verify(
+        isEdDSA(algorithm) ? null : algorithm.hash.replace("-", "").toLowerCase(),
+        data,
+        { key: publicKey, dsaEncoding: "ieee-p1363" },
+        signature
+      );
+    } catch (err) {
+      return false;
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import { isEdDSA, SignatureAlgorithm } from "./algorithms";
+import { AsyncCryptoProvider } from "./crypto";
+
+// Provider on top of WebCrypto, many times faster than the `elliptic` provider but asynchronous
+// The browser build makes it the default of verifyPassURI, verifyPassURIOffline keeps using `elliptic`
+
+// https://www.w3.org/TR/WebCryptoAPI/#ecdsa and https://wicg.github.io/webcrypto-secure-curves/#ed25519
+const getParams = (
+  algorithm: SignatureAlgorithm
+): { import: EcKeyImportParams | Algorithm; verify: EcdsaParams | Algorithm } =>
+  isEdDSA(algorithm)
+    ? { import: { name: algorithm.crv }, verify: { name: algorithm.crv } }
+    : {
+        import: { name: "ECDSA", namedCurve: algorithm.crv },
+        verify: { name: "ECDSA", hash: algorithm.hash },
+      };
+
+/**
+ * creates a provider verifying with WebCrypto
+ * @param subtle the SubtleCrypto implementation, defaults to `crypto.subtle`
+ * @returns {AsyncCryptoProvider} the provider
+ */
+export const createWebCryptoProvider = (
+  subtle: SubtleCrypto = crypto.subtle
+): AsyncCryptoProvider<CryptoKey> => ({
+  importPublicKey: async (publicKeyJwk, algorithm) => {
+    // only the public members, other members such as `alg` or `key_ops` can make the import fail
+    const { kty, crv, x, y } = publicKeyJwk;
+    try {
+      return await subtle.importKey(
+        "jwk",
+        { kty, crv, x, y },
+        getParams(algorithm).import,
+        false,
+        ["verify"]
+      );
+    } catch (err) {
+      // not a point on the curve, or an algorithm the browser does not support
+      return null;
+    }
+  },
+  verify: async (publicKey, algorithm, data, signature) => {
+    try {
+      return await subtle.verify(
+        getParams(algorithm).verify,
+        publicKey,
+        signature,
+        data
+      );
+    } catch (err) {
+      return false;
+    }
+  },
+});
@@ -1,4 +1,6 @@
 import {
+  ClaimsValidationOptions,
+  CredentialSubject,
   CWTClaims,
   RawCWTClaims,
   RawCWTHeaders,
@@ -6,13 +8,15 @@ import {
   UnvalidatedCWTHeaders,
   VC,
 } from "./cwtTypes";
+import { getAlgorithm } from "./algorithms";
 import { decodeCtiToJti } from "./jtiCti";
-import { currentTimestamp } from "./util";
-import { Violation } from "./violation";
+import { DEFAULT_PASS_TYPES, getPassType, PassType } from "./passTypes";
+import { currentTimestamp, satisfiesVersion } from "./util";
+import { Violation, ViolationCollector } from "./violation";
 
 export function parseCWTClaims(
   rawCWTClaims: RawCWTClaims
-): UnvalidatedCWTClaims {
+): UnvalidatedCWTClaims<unknown> {
   // Section 2.1.0.1.5
   // The claim key for cti of 7 MUST be used
   const ctiClaimRaw = rawCWTClaims.get(7);
@@ -60,9 +64,9 @@ export function parseCWTClaims(
   // The vc claim is currrently unregistered and therefore MUST be encoded as a Major Type 3 string as defined by [RFC7049].
   // That is automatically handled by CBOR library.
   const vcClaimRaw = rawCWTClaims.get("vc");
-  let vc: VC | undefined;
+  let vc: VC<unknown> | undefined;
   if (vcClaimRaw) {
-    vc = vcClaimRaw as VC;
+    vc = vcClaimRaw as VC<unknown>;
   }
 
   return { jti, iss, nbf, exp, vc };
@@ -70,18 +74,27 @@ export function parseCWTClaims(
 
 // parse CWT claims
 // https://nzcp.covid19.health.nz/#cwt-claims
-export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
+export function validateCWTClaims<T = CredentialSubject>(
+  cwtClaims: UnvalidatedCWTClaims<unknown>,
+  options: ClaimsValidationOptions = {
+    timestamp: currentTimestamp(),
+    clockSkewSeconds: 0,
+  },
+  collector: ViolationCollector = new ViolationCollector()
+): CWTClaims<T> {
   // Section 2.1.0.1.5
   // The claim key for cti of 7 MUST be used
   if (cwtClaims.jti) {
     // pass
   } else {
-    throw new Violation({
-      message: "CWT Token ID claim MUST be present",
-      section: "2.1.0.1.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_JTI",
+        message: "CWT Token ID claim MUST be present",
+        section: "2.1.0.1.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      }, cwtClaims)
+    );
   }
 
   // Section 2.1.0.2.5
@@ -89,25 +102,29 @@ export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
   if (cwtClaims.iss) {
     // pass
   } else {
-    throw new Violation({
-      message: "Issuer claim MUST be present",
-      section: "2.1.0.2.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_ISS",
+        message: "Issuer claim MUST be present",
+        section: "2.1.0.2.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      }, cwtClaims)
+    );
   }
   // Section 2.1.0.3.5
   // The claim key for nbf of 5 MUST be used
   if (cwtClaims.nbf) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "Not Before claim MUST be present and MUST be a timestamp encoded as an integer in the NumericDate format (as specified in [RFC8392] section 2)",
-      section: "2.1.0.3.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_NBF",
+        message:
+          "Not Before claim MUST be present and MUST be a timestamp encoded as an integer in the NumericDate format (as specified in [RFC8392] section 2)",
+        section: "2.1.0.3.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      }, cwtClaims)
+    );
   }
 
   // Section 2.1.0.4.5
@@ -115,38 +132,50 @@ export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
   if (cwtClaims.exp) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "Not Before claim MUST be present and MUST be a timestamp encoded as an integer in the NumericDate format (as specified in [RFC8392] section 2)",
-      section: "2.1.0.4.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_EXP",
+        message:
+          "Not Before claim MUST be present and MUST be a timestamp encoded as an integer in the NumericDate format (as specified in [RFC8392] section 2)",
+        section: "2.1.0.4.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      }, cwtClaims)
+    );
   }
 
   // TODO: what section number?
-  if (currentTimestamp() >= cwtClaims.nbf) {
+  if (
+    !cwtClaims.nbf ||
+    options.timestamp + options.clockSkewSeconds >= cwtClaims.nbf
+  ) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "The current datetime is after or equal to the value of the `nbf` claim",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      section: "2.1.0.3.3",
-      description: "The COVID Pass is not yet activated.",
-    });
+    collector.report(
+      new Violation({
+        code: "NOT_YET_ACTIVE",
+        message:
+          "The current datetime is after or equal to the value of the `nbf` claim",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+        section: "2.1.0.3.3",
+      }, cwtClaims)
+    );
   }
 
   // TODO: what section number?
-  if (currentTimestamp() < cwtClaims.exp) {
+  if (
+    !cwtClaims.exp ||
+    options.timestamp - options.clockSkewSeconds < cwtClaims.exp
+  ) {
     // pass
   } else {
-    throw new Violation({
-      message: "The current datetime is before the value of the `exp` claim",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      section: "2.1.0.4.3",
-      description: "The COVID Pass has expired.",
-    });
+    collector.report(
+      new Violation({
+        code: "EXPIRED",
+        message: "The current datetime is before the value of the `exp` claim",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+        section: "2.1.0.4.3",
+      }, cwtClaims)
+    );
   }
 
   // Section 2.1.0.5.3
@@ -154,14 +183,24 @@ export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
   if (cwtClaims.vc) {
     // pass
   } else {
-    throw new Violation({
-      message: "Verifiable Credential CWT claim MUST be present",
-      section: "2.1.0.5.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_VC",
+        message: "Verifiable Credential CWT claim MUST be present",
+        section: "2.1.0.5.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      }, cwtClaims)
+    );
+    // the remaining checks are all about the vc claim
+    return cwtClaims as CWTClaims<T>;
   }
 
+  const passType =
+    cwtClaims.vc.type instanceof Array &&
+    (options.passTypes ?? DEFAULT_PASS_TYPES).includes(cwtClaims.vc.type[1])
+      ? getPassType(cwtClaims.vc.type[1])
+      : undefined;
+
   // https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure
   if (
     // Section 2.3.2.1
@@ -176,13 +215,15 @@ export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
   ) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "Verifiable Credential JSON-LD Context property doesn't conform to New Zealand COVID Pass example",
-      link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
-      section: "2.3.2",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "INVALID_VC_CONTEXT",
+        message:
+          "Verifiable Credential JSON-LD Context property doesn't conform to New Zealand COVID Pass example",
+        link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
+        section: "2.3.2",
+      }, cwtClaims)
+    );
   }
 
   if (
@@ -196,69 +237,121 @@ export function validateCWTClaims(cwtClaims: UnvalidatedCWTClaims): CWTClaims {
     // https://nzcp.covid19.health.nz/#pass-types
     // For the purposes of the New Zealand COVID Pass the Verifiable Credential MUST also include one of the following types.
     // - PublicCovidPass
-    cwtClaims.vc.type[1] === "PublicCovidPass"
+    // other registered pass types are accepted when the verify options choose them
+    passType
   ) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "Verifiable Credential Type property doesn't conform to New Zealand COVID Pass example",
-      link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
-      section: "2.3.5",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "INVALID_VC_TYPE",
+        message:
+          "Verifiable Credential Type property doesn't conform to New Zealand COVID Pass example",
+        link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
+        section: "2.3.5",
+      }, cwtClaims)
+    );
   }
 
   // Section 2.3.8
   // Verifiable Credential Version property MUST be 1.0.0
-  if (cwtClaims.vc.version === "1.0.0") {
+  // later versions of the specification can accept other versions, see protocolVersions.ts
+  const vcVersions = options.vcVersions ?? ["1.0.0"];
+  if (
+    typeof cwtClaims.vc.version === "string" &&
+    vcVersions.some((range) => satisfiesVersion(cwtClaims.vc?.version as string, range))
+  ) {
     // pass
   } else {
-    throw new Violation({
-      message: "Verifiable Credential Version property MUST be 1.0.0",
-      link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
-      section: "2.3.8",
-      description: "The QR code is not a valid NZ COVID Pass.",
-    });
+    collector.report(
+      new Violation({
+        code: "INVALID_VC_VERSION",
+        message: `Verifiable Credential Version property MUST be ${vcVersions.join(" or ")}`,
+        link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
+        section: "2.3.8",
+      }, cwtClaims)
+    );
   }
 
   // Section 2.3.9
   // Verifiable Credential Credential Subject property MUST be present
   if (cwtClaims.vc.credentialSubject) {
     // and its value MUST be a JSON object with properties determined by the declared pass type for the pass
-    if (!cwtClaims.vc.credentialSubject.givenName) {
-      throw new Violation({
-        message: "Missing REQUIRED 'givenName' in credentialSubject property",
-        link: "https://nzcp.covid19.health.nz/#publiccovidpass",
-        section: "2.4.1.2.1",
-        description: '"Given Name" missing from NZ COVID Pass.',
-      });
-    }
-    if (!cwtClaims.vc.credentialSubject.dob) {
-      throw new Violation({
-        message: "Missing REQUIRED 'dob' in credentialSubject property",
-        link: "https://nzcp.covid19.health.nz/#publiccovidpass",
-        section: "2.4.1.2.2",
-        description: '"Date of Birth" missing from NZ COVID Pass.',
-      });
+    if (passType) {
+      validateCredentialSubject(cwtClaims, passType, collector);
     }
   } else {
-    throw new Violation({
-      message:
-        "Verifiable Credential Credential Subject property MUST be present",
-      link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
-      section: "2.3.9",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_CREDENTIAL_SUBJECT",
+        message:
+          "Verifiable Credential Credential Subject property MUST be present",
+        link: "https://nzcp.covid19.health.nz/#verifiable-credential-claim-structure",
+        section: "2.3.9",
+      }, cwtClaims)
+    );
   }
 
+  // with allViolations the claims are only valid when nothing was reported
   return {
     jti: cwtClaims.jti,
     iss: cwtClaims.iss,
     nbf: cwtClaims.nbf,
     exp: cwtClaims.exp,
     vc: cwtClaims.vc,
-  };
+  } as CWTClaims<T>;
+}
+
+// Section 2.4
+// https://nzcp.covid19.health.nz/#pass-types
+// Check the credential subject against the properties and checks declared by its pass type
+function validateCredentialSubject(
+  cwtClaims: UnvalidatedCWTClaims<unknown>,
+  passType: PassType,
+  collector: ViolationCollector
+): void {
+  const credentialSubject = cwtClaims.vc?.credentialSubject as Record<string, unknown>;
+  let valid = true;
+  Object.entries(passType.credentialSubject).forEach(([name, property]) => {
+    const value = credentialSubject[name];
+    if (value === undefined || value === null || value === "") {
+      if (property.required) {
+        valid = false;
+        collector.report(
+          new Violation({
+            code: property.code ?? "MISSING_CREDENTIAL_SUBJECT_PROPERTY",
+            message: `Missing REQUIRED '${name}' in credentialSubject property`,
+            link: passType.link,
+            section: property.section ?? "2.3.9",
+          }, cwtClaims)
+        );
+      }
+    } else if (typeof value !== property.type) {
+      valid = false;
+      collector.report(
+        new Violation({
+          code: "INVALID_CREDENTIAL_SUBJECT",
+          message: `'${name}' in credentialSubject property MUST be a ${property.type}`,
+          link: passType.link,
+          section: property.section ?? "2.3.9",
+        }, cwtClaims)
+      );
+    }
+  });
+  // the further checks can rely on the declared properties
+  if (!valid || !passType.validate) {
+    return;
+  }
+  passType.validate(credentialSubject).forEach((message) => {
+    collector.report(
+      new Violation({
+        code: "INVALID_CREDENTIAL_SUBJECT",
+        message,
+        link: passType.link,
+        section: "2.3.9",
+      }, cwtClaims)
+    );
+  });
 }
 
 // Section 2.2
@@ -278,6 +371,10 @@ export function parseCWTHeaders(
   const kid = CWTHeaderKid ? new TextDecoder("utf-8").decode(CWTHeaderKid as Uint8Array) : undefined;
   // Section 2.2.2
   // `alg` claim value MUST be set to the value corresponding to ES256 algorithm registration, which is the numeric value of -7
-  const alg = CWTHeaderAlg === -7 ? "ES256" : undefined;
+  // other registered algorithms are named here, whether they are accepted is up to the verify options
+  const alg =
+    typeof CWTHeaderAlg === "number"
+      ? getAlgorithm(CWTHeaderAlg)?.name
+      : undefined;
   return { kid, alg };
 }
@@ -1,25 +1,26 @@
+// the credential subject of a PublicCovidPass, other pass types have their own
 export interface CredentialSubject {
   givenName: string;
   familyName: string;
   dob: string;
 }
 
-export interface VC {
+export interface VC<T = CredentialSubject> {
   "@context": string[];
   version: string;
   type: string[];
-  credentialSubject: CredentialSubject;
+  credentialSubject: T;
 }
 
-export interface CWTClaims {
+export interface CWTClaims<T = CredentialSubject> {
   iss: string;
   nbf: number;
   exp: number;
-  vc: VC;
+  vc: VC<T>;
   jti: string;
 }
 
-export type UnvalidatedCWTClaims = Partial<CWTClaims>;
+export type UnvalidatedCWTClaims<T = CredentialSubject> = Partial<CWTClaims<T>>;
 
 export type RawCWTHeaders = Map<number, Uint8Array | number>;
 
@@ -34,3 +35,14 @@ export interface CWTHeaders {
 }
 
 export type UnvalidatedCWTHeaders = Partial<CWTHeaders>;
+
+export interface ClaimsValidationOptions {
+  // unix timestamp the `nbf` and `exp` claims are checked against
+  timestamp: number;
+  // tolerance in seconds applied to the `nbf` and `exp` checks
+  clockSkewSeconds: number;
+  // names of the pass types accepted, defaults to DEFAULT_PASS_TYPES
+  passTypes?: string[];
+  // Verifiable Credential versions accepted, exact versions or x-ranges such as "1.x", defaults to "1.0.0"
+  vcVersions?: string[];
+}
@@ -1,12 +1,38 @@
-import { Resolver, DIDResolutionResult } from "did-resolver";
+import { Resolver, DIDResolutionResult, Resolvable } from "did-resolver";
 import { getResolver } from "web-did-resolver";
+import {
+  FetchLike,
+  getJwkResolver,
+  getKeyResolver,
+  getWebResolver,
+} from "./didMethods";
 
-const webResolver = getResolver();
+export type CreateDIDResolverOptions = {
+  // fetch implementation used to resolve did:web, defaults to the one bundled with web-did-resolver
+  fetch?: FetchLike;
+};
 
-const didResolver = new Resolver({
-  ...webResolver,
-  //...you can flatten multiple resolver methods into the Resolver
-});
+/**
+ * creates a DID resolver for did:web, did:key and did:jwk
+ * @param options the fetch implementation to use for did:web
+ * @returns {Resolvable} the resolver
+ */
+export function createDIDResolver(
+  options: CreateDIDResolverOptions = {}
+): Resolvable {
+  const webResolver = options.fetch
+    ? getWebResolver(options.fetch)
+    : getResolver();
+
+  return new Resolver({
+    ...webResolver,
+    ...getKeyResolver(),
+    ...getJwkResolver(),
+    //...you can flatten multiple resolver methods into the Resolver
+  });
+}
+
+const didResolver = createDIDResolver();
 
 async function resolve(did: string): Promise<DIDResolutionResult> {
   const doc = await didResolver.resolve(did);
@@ -0,0 +1,157 @@
+import { DIDDocument, DIDResolutionResult } from "did-resolver";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { DIDCache, MemoryDIDCacheStorage } from "./didCache";
+import { FileDIDCacheStorage } from "./didCacheFile";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+import liveDIDDocument from "./liveDIDDocument.json";
+
+const EXAMPLE_DID = "did:web:nzcp.covid19.health.nz";
+const LIVE_DID = "did:web:nzcp.identity.health.nz";
+
+const resolved = (didDocument: DIDDocument): DIDResolutionResult => ({
+  didResolutionMetadata: {},
+  didDocument,
+  didDocumentMetadata: {},
+});
+
+const notFound: DIDResolutionResult = {
+  didResolutionMetadata: { error: "notFound" },
+  didDocument: null,
+  didDocumentMetadata: {},
+};
+
+const hoursAgo = (hours: number) => Date.now() - hours * 60 * 60 * 1000;
+
+test("DID cache resolves once within the TTL", async () => {
+  const resolve = jest.fn(async () => resolved(exampleDIDDocument));
+  const cache = new DIDCache({ resolve });
+  const first = await cache.resolve(EXAMPLE_DID);
+  const second = await cache.resolve(EXAMPLE_DID);
+  expect(first.didDocument?.id).toBe(EXAMPLE_DID);
+  expect(second.didDocument?.id).toBe(EXAMPLE_DID);
+  expect(resolve).toHaveBeenCalledTimes(1);
+});
+
+test("DID cache shares a resolution between concurrent lookups", async () => {
+  const resolve = jest.fn(async () => resolved(exampleDIDDocument));
+  const cache = new DIDCache({ resolve });
+  await Promise.all([cache.resolve(EXAMPLE_DID), cache.resolve(EXAMPLE_DID)]);
+  expect(resolve).toHaveBeenCalledTimes(1);
+});
+
+test("DID cache serves a stale document while revalidating", async () => {
+  const storage = new MemoryDIDCacheStorage();
+  await storage.set(EXAMPLE_DID, {
+    didDocument: { ...exampleDIDDocument, assertionMethod: [] },
+    fetchedAt: hoursAgo(2),
+  });
+  const resolve = jest.fn(async () => resolved(exampleDIDDocument));
+  const cache = new DIDCache({ resolve, storage, ttlSeconds: 60 * 60 });
+
+  const stale = await cache.resolve(EXAMPLE_DID);
+  expect(stale.didDocument?.assertionMethod).toStrictEqual([]);
+  expect(resolve).toHaveBeenCalledTimes(1);
+
+  await cache.pending.get(EXAMPLE_DID);
+  const fresh = await cache.resolve(EXAMPLE_DID);
+  expect(fresh.didDocument?.assertionMethod).toStrictEqual(
+    exampleDIDDocument.assertionMethod
+  );
+  expect(resolve).toHaveBeenCalledTimes(1);
+});
+
+test("DID cache resolves again once the stale window has passed", async () => {
+  const storage = new MemoryDIDCacheStorage();
+  await storage.set(EXAMPLE_DID, {
+    didDocument: exampleDIDDocument,
+    fetchedAt: hoursAgo(48),
+  });
+  const resolve = jest.fn(async () => resolved(exampleDIDDocument));
+  const cache = new DIDCache({ resolve, storage });
+  await cache.resolve(EXAMPLE_DID);
+  expect(resolve).toHaveBeenCalledTimes(1);
+  expect((await storage.get(EXAMPLE_DID))?.fetchedAt).toBeGreaterThan(
+    hoursAgo(1)
+  );
+});
+
+test("DID cache serves an expired document when resolution fails", async () => {
+  const storage = new MemoryDIDCacheStorage();
+  await storage.set(EXAMPLE_DID, {
+    didDocument: exampleDIDDocument,
+    fetchedAt: hoursAgo(48),
+  });
+  const cache = new DIDCache({
+    resolve: async () => notFound,
+    storage,
+    staleIfErrorSeconds: 7 * 24 * 60 * 60,
+  });
+  const result = await cache.resolve(EXAMPLE_DID);
+  expect(result.didResolutionMetadata.error).toBeUndefined();
+  expect(result.didDocument?.id).toBe(EXAMPLE_DID);
+});
+
+test("DID cache does not serve an expired document past the stale-if-error window", async () => {
+  const storage = new MemoryDIDCacheStorage();
+  await storage.set(EXAMPLE_DID, {
+    didDocument: exampleDIDDocument,
+    fetchedAt: hoursAgo(48),
+  });
+  const resolve = async () => notFound;
+  // off by default
+  const result = await new DIDCache({ resolve, storage }).resolve(EXAMPLE_DID);
+  expect(result.didResolutionMetadata.error).toBe("notFound");
+  expect(result.didDocument).toBeNull();
+
+  const cache = new DIDCache({ resolve, storage, staleIfErrorSeconds: 24 * 60 * 60 });
+  expect((await cache.resolve(EXAMPLE_DID)).didDocument).toBeNull();
+});
+
+test("DID cache reports resolution failures without a cached document", async () => {
+  const cache = new DIDCache({
+    resolve: async () => {
+      throw new Error("network down");
+    },
+  });
+  const result = await cache.resolve(EXAMPLE_DID);
+  expect(result.didResolutionMetadata.error).toBe("network down");
+  expect(result.didDocument).toBeNull();
+});
+
+test("DID cache falls back to the bundled live DID document when allowed", async () => {
+  const resolve = async () => notFound;
+  const withoutFallback = new DIDCache({ resolve });
+  expect((await withoutFallback.resolve(LIVE_DID)).didDocument).toBeNull();
+
+  const withFallback = new DIDCache({ resolve, fallbackToBundled: true });
+  expect((await withFallback.resolve(LIVE_DID)).didDocument).toStrictEqual(
+    liveDIDDocument
+  );
+  // the bundled document is only ever used for the live issuer
+  expect((await withFallback.resolve(EXAMPLE_DID)).didDocument).toBeNull();
+});
+
+test("File DID cache storage survives restarts", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "nzcp-"));
+  const file = path.join(dir, "did-cache.json");
+  try {
+    const resolve = jest.fn(async () => resolved(exampleDIDDocument));
+    const cache = new DIDCache({
+      resolve,
+      storage: new FileDIDCacheStorage(file),
+    });
+    await cache.resolve(EXAMPLE_DID);
+
+    const restarted = new DIDCache({
+      resolve,
+      storage: new FileDIDCacheStorage(file),
+    });
+    const result = await restarted.resolve(EXAMPLE_DID);
+    expect(result.didDocument?.id).toBe(EXAMPLE_DID);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,152 @@
+import { DIDDocument, DIDResolutionResult } from "did-resolver";
+import did from "./did";
+import liveDIDDocument from "./liveDIDDocument.json";
+
+// A cache in front of DID resolution, so that verifyPassURI does not fetch
+// `/.well-known/did.json` for every pass it verifies
+// https://nzcp.covid19.health.nz/#ref:DID-CORE
+
+export interface DIDCacheEntry {
+  didDocument: DIDDocument;
+  // js timestamp of when the DID document was resolved
+  fetchedAt: number;
+}
+
+// where cached DID documents are kept, implement this to persist the cache elsewhere
+export interface DIDCacheStorage {
+  get(did: string): Promise<DIDCacheEntry | undefined>;
+  set(did: string, entry: DIDCacheEntry): Promise<void>;
+}
+
+export type DIDCacheOptions = {
+  // how long a resolved DID document is used without resolving it again, defaults to an hour
+  ttlSeconds?: number;
+  // how long after the TTL a stale DID document is still served while it is resolved again in the background, defaults to a day
+  staleWhileRevalidateSeconds?: number;
+  // how long after the TTL an expired DID document is still served when it can not be resolved again, defaults to 0, never
+  staleIfErrorSeconds?: number;
+  // use the bundled DID_DOCUMENTS.MOH_LIVE when did:web:nzcp.identity.health.nz can not be resolved and nothing is cached
+  fallbackToBundled?: boolean;
+  // where to keep the DID documents, defaults to memory
+  storage?: DIDCacheStorage;
+  // the resolver behind the cache, defaults to resolving did:web, did:key and did:jwk
+  resolve?: (did: string) => Promise<DIDResolutionResult>;
+};
+
+export class MemoryDIDCacheStorage implements DIDCacheStorage {
+  entries = new Map<string, DIDCacheEntry>();
+
+  async get(did: string): Promise<DIDCacheEntry | undefined> {
+    return this.entries.get(did);
+  }
+
+  async set(did: string, entry: DIDCacheEntry): Promise<void> {
+    this.entries.set(did, entry);
+  }
+}
+
+const toResolutionResult = (didDocument: DIDDocument): DIDResolutionResult => ({
+  didResolutionMetadata: {},
+  didDocument,
+  didDocumentMetadata: {},
+});
+
+export class DIDCache {
+  ttlSeconds: number;
+  staleWhileRevalidateSeconds: number;
+  staleIfErrorSeconds: number;
+  fallbackToBundled: boolean;
+  storage: DIDCacheStorage;
+  resolver: (did: string) => Promise<DIDResolutionResult>;
+  // resolutions in progress, so that concurrent lookups of a DID share one request
+  pending = new Map<string, Promise<DIDResolutionResult>>();
+
+  constructor(options: DIDCacheOptions = {}) {
+    this.ttlSeconds = options.ttlSeconds ?? 60 * 60;
+    this.staleWhileRevalidateSeconds =
+      options.staleWhileRevalidateSeconds ?? 24 * 60 * 60;
+    this.staleIfErrorSeconds = options.staleIfErrorSeconds ?? 0;
+    this.fallbackToBundled = options.fallbackToBundled ?? false;
+    this.storage = options.storage ?? new MemoryDIDCacheStorage();
+    this.resolver = options.resolve ?? did.resolve;
+  }
+
+  /**
+   * resolves a DID document, serving it from the cache where possible
+   * @param did the DID to resolve
+   * @param resolver the resolver to use on a cache miss, defaults to the one the cache was created with
+   * @returns {DIDResolutionResult} the resolution result, in the same form as the DID resolver
+   */
+  async resolve(
+    did: string,
+    resolver = this.resolver
+  ): Promise<DIDResolutionResult> {
+    const entry = await this.storage.get(did);
+    const age = entry ? (Date.now() - entry.fetchedAt) / 1000 : Infinity;
+
+    if (entry && age < this.ttlSeconds) {
+      return toResolutionResult(entry.didDocument);
+    }
+    if (entry && age < this.ttlSeconds + this.staleWhileRevalidateSeconds) {
+      // failures are ignored here, the stale document is served until it is evicted
+      this.revalidate(did, resolver).catch(() => undefined);
+      return toResolutionResult(entry.didDocument);
+    }
+
+    let result: DIDResolutionResult;
+    try {
+      result = await this.revalidate(did, resolver);
+    } catch (err) {
+      result = {
+        didResolutionMetadata: { error: (err as Error).message },
+        didDocument: null,
+        didDocumentMetadata: {},
+      };
+    }
+    if (!result.didResolutionMetadata.error && result.didDocument) {
+      return result;
+    }
+    // an expired document is still better than none when the network is down, for as long as the caller allows
+    if (entry && age < this.ttlSeconds + this.staleIfErrorSeconds) {
+      return toResolutionResult(entry.didDocument);
+    }
+    if (this.fallbackToBundled && did === liveDIDDocument.id) {
+      return toResolutionResult(liveDIDDocument);
+    }
+    return result;
+  }
+
+  /**
+   * resolves a DID document and stores it in the cache if resolution succeeded
+   * @param did the DID to resolve
+   * @param resolver the resolver to use, defaults to the one the cache was created with
+   * @returns {DIDResolutionResult} the result of the resolver
+   */
+  revalidate(
+    did: string,
+    resolver = this.resolver
+  ): Promise<DIDResolutionResult> {
+    const pending = this.pending.get(did);
+    if (pending) {
+      return pending;
+    }
+    const request = resolver(did)
+      .then(async (result) => {
+        if (!result.didResolutionMetadata.error && result.didDocument) {
+          await this.storage.set(did, {
+            didDocument: result.didDocument,
+            fetchedAt: Date.now(),
+          });
+        }
+        return result;
+      })
+      .finally(() => {
+        this.pending.delete(did);
+      });
+    this.pending.set(did, request);
+    return request;
+  }
+}
+
+// used by verifyPassURI unless a cache is passed in the options
+export const defaultDIDCache = new DIDCache();
@@ -0,0 +1,36 @@
+import { promises as fs } from "fs";
+import { DIDCacheEntry, DIDCacheStorage } from "./didCache";
+
+// DID cache storage that keeps every entry in a single JSON file, so the cache survives restarts
+// Only available in node builds
+export class FileDIDCacheStorage implements DIDCacheStorage {
+  path: string;
+  entries: Record<string, DIDCacheEntry> | null = null;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<Record<string, DIDCacheEntry>> {
+    if (!this.entries) {
+      try {
+        this.entries = JSON.parse(await fs.readFile(this.path, "utf8"));
+      } catch (err) {
+        // a missing or corrupt file starts an empty cache
+        this.entries = {};
+      }
+    }
+    return this.entries as Record<string, DIDCacheEntry>;
+  }
+
+  async get(did: string): Promise<DIDCacheEntry | undefined> {
+    const entries = await this.load();
+    return entries[did];
+  }
+
+  async set(did: string, entry: DIDCacheEntry): Promise<void> {
+    const entries = await this.load();
+    entries[did] = entry;
+    await fs.writeFile(this.path, JSON.stringify(entries));
+  }
+}
@@ -0,0 +1,79 @@
+import { loadDIDDocument, validateDIDDocument } from "./didDocument";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+import liveDIDDocument from "./liveDIDDocument.json";
+import mineDIDDocument from "./mineDIDDocument.json";
+
+const did = exampleDIDDocument.id;
+const verificationMethod = exampleDIDDocument.verificationMethod[0];
+
+// the issues of a document as `path [section]`
+const check = (didDocument: unknown, options = {}) =>
+  validateDIDDocument(didDocument, options).map((issue) => `${issue.path} [${issue.section}]`);
+
+test("The built-in DID documents are valid", () => {
+  [exampleDIDDocument, liveDIDDocument, mineDIDDocument].forEach((didDocument) => {
+    expect(validateDIDDocument(didDocument)).toEqual([]);
+  });
+});
+
+test("The id of the document and its verification methods must be DIDs", () => {
+  expect(check({ ...exampleDIDDocument, id: "nzcp.covid19.health.nz" })).toEqual([
+    "id [DID-CORE.5.1.1]",
+    "verificationMethod[0].id [DID-CORE.5.2]",
+  ]);
+  // a relative key reference cannot be looked up by `did#kid`
+  expect(
+    check({ ...exampleDIDDocument, verificationMethod: [{ ...verificationMethod, id: "#key-1" }], assertionMethod: ["#key-1"] })
+  ).toEqual(["verificationMethod[0].id [DID-CORE.5.2]"]);
+  // keys may be controlled by another DID
+  expect(check({ ...exampleDIDDocument, verificationMethod: [{ ...verificationMethod, controller: "did:web:example.com" }] })).toEqual([]);
+  expect(check({ ...exampleDIDDocument, verificationMethod: [{ ...verificationMethod, controller: "example.com" }] })).toEqual([
+    "verificationMethod[0].controller [DID-CORE.5.2]",
+  ]);
+  expect(check({ ...exampleDIDDocument, verificationMethod: [verificationMethod, verificationMethod] })).toEqual([
+    "verificationMethod[1].id [DID-CORE.5.2]",
+  ]);
+  expect(check("did:web:nzcp.covid19.health.nz")).toEqual([" [DID-CORE.4]"]);
+});
+
+test("Every assertionMethod must reference a verification method", () => {
+  expect(check({ ...exampleDIDDocument, assertionMethod: `${did}#key-1` })).toEqual([]);
+  expect(check({ ...exampleDIDDocument, assertionMethod: [`${did}#key-1`, `${did}#key-2`] })).toEqual(["assertionMethod[1] [5.1.1]"]);
+  expect(check({ ...exampleDIDDocument, assertionMethod: [verificationMethod] })).toEqual(["assertionMethod[0] [5.1.1]"]);
+  expect(check({ ...exampleDIDDocument, assertionMethod: undefined })).toEqual(["assertionMethod [5.1.1]"]);
+  expect(validateDIDDocument({ ...exampleDIDDocument, verificationMethod: undefined })[0]).toMatchObject({
+    path: "assertionMethod[0]",
+    message: `The \`assertionMethod\` \`${did}#key-1\` MUST reference a verification method of the DID document.`,
+    link: "https://nzcp.covid19.health.nz/#did-document",
+  });
+});
+
+test("Keys must be JsonWebKey2020 verification methods with a valid JWK", () => {
+  const withMethod = (method: Record<string, unknown>) => ({ ...exampleDIDDocument, verificationMethod: [{ ...verificationMethod, ...method }] });
+  expect(check(withMethod({ publicKeyJwk: { ...verificationMethod.publicKeyJwk, d: "AAAA", x: "AAAA" } }))).toEqual([
+    "verificationMethod[0].publicKeyJwk [5.1.2]",
+    "verificationMethod[0].publicKeyJwk [5.1.4]",
+  ]);
+  // keys of other algorithms only when they are accepted
+  const ed25519 = { kty: "OKP", crv: "Ed25519", x: "Lm_M42cB3HkUiODQsXRcweM6TByfzEHGO9ND274JcOY" };
+  expect(check(withMethod({ publicKeyJwk: ed25519 }))).toEqual([
+    "verificationMethod[0].publicKeyJwk [5.1.2]",
+    "verificationMethod[0].publicKeyJwk [5.1.5]",
+  ]);
+  expect(check(withMethod({ publicKeyJwk: ed25519 }), { algorithms: ["ES256", "EdDSA"] })).toEqual([]);
+
+  const multikey = withMethod({ type: "Multikey", publicKeyJwk: undefined, publicKeyMultibase: "zDnaeQnP2RwfT4F6tnVFnxWLYJCLSfFgQGdyPhXbaRDVWP4Wp" });
+  expect(check(multikey)).toEqual(["verificationMethod[0].type [5.1.3]"]);
+  expect(check(multikey, { compatibleKeyFormats: true })).toEqual([]);
+  expect(check({ ...multikey, verificationMethod: [{ ...multikey.verificationMethod[0], publicKeyMultibase: "z1" }] }, { compatibleKeyFormats: true })).toEqual([
+    "verificationMethod[0].publicKeyMultibase [5.1.2]",
+  ]);
+});
+
+test("DID documents are loaded from JSON", () => {
+  const loaded = loadDIDDocument(JSON.stringify(exampleDIDDocument));
+  expect(loaded).toEqual({ didDocument: exampleDIDDocument, issues: [] });
+  const notJSON = loadDIDDocument("<html>");
+  expect(notJSON.didDocument).toBeNull();
+  expect(notJSON.issues[0].message).toMatch(/^A DID document MUST be JSON, but parsing failed: /);
+});
@@ -0,0 +1,279 @@
+import { DIDDocument, VerificationMethod } from "did-resolver";
+import {
+  DEFAULT_ALGORITHMS,
+  ES256,
+  getAlgorithmByName,
+  SignatureAlgorithm,
+} from "./algorithms";
+import { validatePublicKeyJwk } from "./jwk";
+import { toJsonWebKey2020 } from "./verificationMethods";
+
+// Checks of a DID document as a whole, so that a bad document is found when it is loaded, e.g. at startup,
+// rather than as violations of every pass verified against it
+// https://nzcp.covid19.health.nz/#did-document and https://www.w3.org/TR/did-core/
+
+// `path` is the member of the document with the issue, e.g. "verificationMethod[0].publicKeyJwk"
+export type DIDDocumentIssue = {
+  path: string;
+  message: string;
+  section: string;
+  link: string;
+};
+
+export type ValidateDIDDocumentOptions = {
+  // names of the registered signature algorithms whose keys are accepted, defaults to DEFAULT_ALGORITHMS
+  algorithms?: string[];
+  // also accept keys published as Multikey, JsonWebKey or EcdsaSecp256r1VerificationKey2019, defaults to false
+  compatibleKeyFormats?: boolean;
+};
+
+export type LoadDIDDocumentResult = {
+  // the parsed document, null when it is not JSON
+  didDocument: DIDDocument | null;
+  issues: DIDDocumentIssue[];
+};
+
+const NZCP_LINK = "https://nzcp.covid19.health.nz/#did-document";
+
+// https://www.w3.org/TR/did-core/#did-syntax
+const DID_PATTERN =
+  /^did:[a-z0-9]+:(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2}|:)*(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// the accepted algorithm for the curve of a JWK, the first accepted algorithm reports the mismatch otherwise
+const getKeyAlgorithm = (
+  publicKeyJwk: unknown,
+  algorithms: string[]
+): SignatureAlgorithm => {
+  const accepted = algorithms
+    .map(getAlgorithmByName)
+    .filter((algorithm): algorithm is SignatureAlgorithm => !!algorithm);
+  const jwk = isObject(publicKeyJwk) ? publicKeyJwk : {};
+  return (
+    accepted.find(
+      (algorithm) => algorithm.kty === jwk.kty && algorithm.crv === jwk.crv
+    ) ??
+    accepted[0] ??
+    ES256
+  );
+};
+
+const validateVerificationMethod = (
+  verificationMethod: unknown,
+  path: string,
+  did: unknown,
+  options: ValidateDIDDocumentOptions
+): DIDDocumentIssue[] => {
+  const issue = (
+    member: string,
+    message: string,
+    section = "DID-CORE.5.2",
+    link = "https://www.w3.org/TR/did-core/#verification-methods"
+  ): DIDDocumentIssue => ({
+    path: member ? `${path}.${member}` : path,
+    message,
+    section,
+    link,
+  });
+  if (!isObject(verificationMethod)) {
+    return [issue("", "A verification method MUST be a JSON object.")];
+  }
+  const issues: DIDDocumentIssue[] = [];
+  const { id, controller, type } = verificationMethod;
+
+  // the verifier looks keys up by absolute key reference, `did#kid`
+  if (
+    typeof id !== "string" ||
+    typeof did !== "string" ||
+    !id.startsWith(`${did}#`) ||
+    id.length === did.length + 1
+  ) {
+    issues.push(
+      issue(
+        "id",
+        "The `id` of a verification method MUST be the DID of the document followed by a fragment, e.g. `did:web:example.com#key-1`."
+      )
+    );
+  }
+  // the controller may be another DID than the one of the document
+  // https://www.w3.org/TR/did-core/#verification-methods
+  if (typeof controller !== "string" || !DID_PATTERN.test(controller)) {
+    issues.push(
+      issue("controller", "The `controller` of a verification method MUST be a DID.")
+    );
+  }
+  if (typeof type !== "string") {
+    issues.push(
+      issue("type", "The `type` of a verification method MUST be a string.")
+    );
+    return issues;
+  }
+
+  let jsonWebKey2020 = verificationMethod as unknown as VerificationMethod;
+  if (options.compatibleKeyFormats) {
+    try {
+      jsonWebKey2020 = toJsonWebKey2020(jsonWebKey2020);
+    } catch (err) {
+      issues.push(
+        issue("publicKeyMultibase", (err as Error).message, "5.1.2", NZCP_LINK)
+      );
+      return issues;
+    }
+  }
+
+  // 5.1.3
+  if (jsonWebKey2020.type !== "JsonWebKey2020") {
+    issues.push(
+      issue(
+        "type",
+        "The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517].",
+        "5.1.3",
+        NZCP_LINK
+      )
+    );
+    return issues;
+  }
+
+  // 5.1.2 to 5.1.5
+  const algorithm = getKeyAlgorithm(
+    jsonWebKey2020.publicKeyJwk,
+    options.algorithms ?? DEFAULT_ALGORITHMS
+  );
+  validatePublicKeyJwk(jsonWebKey2020.publicKeyJwk, algorithm).forEach(
+    ({ message, violates }) =>
+      issues.push(
+        issue("publicKeyJwk", message, violates.section, violates.link)
+      )
+  );
+  return issues;
+};
+
+/**
+ * checks a DID document: its `id`, its verification methods and their public key JWKs, and that every
+ * `assertionMethod` references one of its verification methods
+ * @param didDocument the DID document, e.g. parsed from a file
+ * @param options which algorithms and key formats are accepted
+ * @returns {DIDDocumentIssue[]} the issues, the document is valid when there are none
+ */
+export const validateDIDDocument = (
+  didDocument: unknown,
+  options: ValidateDIDDocumentOptions = {}
+): DIDDocumentIssue[] => {
+  if (!isObject(didDocument)) {
+    return [
+      {
+        path: "",
+        message: "A DID document MUST be a JSON object.",
+        section: "DID-CORE.4",
+        link: "https://www.w3.org/TR/did-core/#data-model",
+      },
+    ];
+  }
+  const issues: DIDDocumentIssue[] = [];
+  const { id, verificationMethod, assertionMethod } = didDocument;
+
+  // https://www.w3.org/TR/did-core/#did-subject
+  if (typeof id !== "string" || !DID_PATTERN.test(id)) {
+    issues.push({
+      path: "id",
+      message: "The `id` of a DID document MUST be a DID, e.g. `did:web:example.com`.",
+      section: "DID-CORE.5.1.1",
+      link: "https://www.w3.org/TR/did-core/#did-subject",
+    });
+  }
+
+  const verificationMethods = Array.isArray(verificationMethod)
+    ? verificationMethod
+    : [];
+  if (verificationMethod !== undefined && !Array.isArray(verificationMethod)) {
+    issues.push({
+      path: "verificationMethod",
+      message: "The `verificationMethod` of a DID document MUST be an array.",
+      section: "DID-CORE.5.2",
+      link: "https://www.w3.org/TR/did-core/#verification-methods",
+    });
+  }
+  const ids = new Set<string>();
+  verificationMethods.forEach((method, i) => {
+    const path = `verificationMethod[${i}]`;
+    issues.push(...validateVerificationMethod(method, path, id, options));
+    const methodId = isObject(method) ? method.id : undefined;
+    if (typeof methodId === "string") {
+      if (ids.has(methodId)) {
+        issues.push({
+          path: `${path}.id`,
+          message: `The \`id\` of a verification method MUST be unique, but \`${methodId}\` is used more than once.`,
+          section: "DID-CORE.5.2",
+          link: "https://www.w3.org/TR/did-core/#verification-methods",
+        });
+      }
+      ids.add(methodId);
+    }
+  });
+
+  // 5.1.1
+  // The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship
+  // Passes can only be verified with keys referenced by their absolute key reference
+  const references =
+    typeof assertionMethod === "string" ? [assertionMethod] : assertionMethod;
+  if (!Array.isArray(references) || references.length === 0) {
+    issues.push({
+      path: "assertionMethod",
+      message: "The `assertionMethod` of a DID document MUST reference the keys passes are signed with.",
+      section: "5.1.1",
+      link: NZCP_LINK,
+    });
+  } else {
+    references.forEach((reference: unknown, i) => {
+      if (typeof reference !== "string" || !ids.has(reference)) {
+        issues.push({
+          path:
+            typeof assertionMethod === "string"
+              ? "assertionMethod"
+              : `assertionMethod[${i}]`,
+          message:
+            typeof reference === "string"
+              ? `The \`assertionMethod\` \`${reference}\` MUST reference a verification method of the DID document.`
+              : "The `assertionMethod` of a DID document MUST reference a verification method by its `id`.",
+          section: "5.1.1",
+          link: NZCP_LINK,
+        });
+      }
+    });
+  }
+  return issues;
+};
+
+/**
+ * parses and checks a DID document
+ * @param json the DID document as JSON, e.g. the contents of a did.json file
+ * @param options which algorithms and key formats are accepted
+ * @returns {LoadDIDDocumentResult} the document and its issues
+ */
+export const loadDIDDocument = (
+  json: string,
+  options: ValidateDIDDocumentOptions = {}
+): LoadDIDDocumentResult => {
+  let didDocument: unknown;
+  try {
+    didDocument = JSON.parse(json);
+  } catch (err) {
+    return {
+      didDocument: null,
+      issues: [
+        {
+          path: "",
+          message: `A DID document MUST be JSON, but parsing failed: ${(err as Error).message}`,
+          section: "DID-CORE.6.2",
+          link: "https://www.w3.org/TR/did-core/#json",
+        },
+      ],
+    };
+  }
+  return {
+    didDocument: didDocument as DIDDocument,
+    issues: validateDIDDocument(didDocument, options),
+  };
+};
@@ -0,0 +1,91 @@
+import { createDIDResolver } from "./did";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+
+const DID_KEY = "did:key:zDnaeQnP2RwfT4F6tnVFnxWLYJCLSfFgQGdyPhXbaRDVWP4Wp";
+const DID_JWK =
+  "did:jwk:eyJrdHkiOiJFQyIsImNydiI6IlAtMjU2IiwieCI6IkJUcTZ5blVfSmRJQlN0eHNSbUVES2tkTU9UMlg5NDVUQlRoV0RJY05PZTAiLCJ5IjoiRi00aG5kV2tNSHpBOXJpS2w5anFib2NCVVJFYW02elBWelBzVWlPeERZdyJ9";
+
+// the public key of the example DID document
+const publicKeyJwk = {
+  kty: "EC",
+  crv: "P-256",
+  x: "BTq6ynU_JdIBStxsRmEDKkdMOT2X945TBThWDIcNOe0",
+  y: "F-4hndWkMHzA9riKl9jqbocBUREam6zPVzPsUiOxDYw",
+};
+
+const resolver = createDIDResolver();
+
+test("did:key resolves to a P-256 JsonWebKey2020 verification method", async () => {
+  const result = await resolver.resolve(DID_KEY);
+  expect(result.didResolutionMetadata.error).toBeUndefined();
+  const keyId = `${DID_KEY}#${DID_KEY.slice("did:key:".length)}`;
+  expect(result.didDocument?.id).toBe(DID_KEY);
+  expect(result.didDocument?.assertionMethod).toStrictEqual([keyId]);
+  expect(result.didDocument?.verificationMethod).toStrictEqual([
+    { id: keyId, type: "JsonWebKey2020", controller: DID_KEY, publicKeyJwk },
+  ]);
+});
+
+test("did:key with another key type is invalid", async () => {
+  // Ed25519 public key from the did:key specification
+  const result = await resolver.resolve(
+    "did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK"
+  );
+  expect(result.didResolutionMetadata.error).toBe("invalidDid");
+  expect(result.didDocument).toBeNull();
+});
+
+test("did:key that is not base58btc is invalid", async () => {
+  const result = await resolver.resolve("did:key:mDnaeQnP2RwfT4F6tnVFnxWLYJC");
+  expect(result.didResolutionMetadata.error).toBe("invalidDid");
+});
+
+test("did:jwk resolves to its JWK", async () => {
+  const result = await resolver.resolve(DID_JWK);
+  expect(result.didResolutionMetadata.error).toBeUndefined();
+  expect(result.didDocument?.assertionMethod).toStrictEqual([`${DID_JWK}#0`]);
+  expect(result.didDocument?.verificationMethod?.[0].publicKeyJwk).toStrictEqual(
+    publicKeyJwk
+  );
+});
+
+test("did:jwk with a private key is invalid", async () => {
+  const jwk = Buffer.from(JSON.stringify({ ...publicKeyJwk, d: "AA" })).toString("base64url");
+  const result = await resolver.resolve(`did:jwk:${jwk}`);
+  expect(result.didResolutionMetadata.error).toBe("invalidDid");
+});
+
+test("did:jwk that is not a JWK is invalid", async () => {
+  const result = await resolver.resolve("did:jwk:bm90LWpzb24");
+  expect(result.didResolutionMetadata.error).toBe("invalidDid");
+});
+
+test("did:web resolves with a custom fetch", async () => {
+  const fetch = jest.fn(async () => ({
+    status: 200,
+    statusText: "OK",
+    json: async () => exampleDIDDocument,
+  }));
+  const result = await createDIDResolver({ fetch }).resolve(
+    "did:web:nzcp.covid19.health.nz"
+  );
+  expect(fetch).toHaveBeenCalledWith(
+    "https://nzcp.covid19.health.nz/.well-known/did.json",
+    { mode: "cors" }
+  );
+  expect(result.didResolutionMetadata.error).toBeUndefined();
+  expect(result.didDocument).toStrictEqual(exampleDIDDocument);
+});
+
+test("did:web with a failing custom fetch is not found", async () => {
+  const fetch = async () => ({
+    status: 404,
+    statusText: "Not Found",
+    json: async () => null,
+  });
+  const result = await createDIDResolver({ fetch }).resolve(
+    "did:web:nzcp.covid19.health.nz"
+  );
+  expect(result.didResolutionMetadata.error).toBe("notFound");
+  expect(result.didDocument).toBeNull();
+});
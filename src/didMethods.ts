@@ -0,0 +1,186 @@
+import {
+  DIDDocument,
+  DIDResolutionResult,
+  DIDResolver,
+  VerificationMethod,
+} from "did-resolver";
+import { curve } from "elliptic";
+import { ES256 } from "./algorithms";
+import { getECDSA } from "./crypto";
+import { decodeBase58, decodeBase64Url, encodeBase64Url } from "./util";
+
+// DID methods supported by the built-in resolver besides did:web
+// https://nzcp.covid19.health.nz/#ref:DID-CORE
+
+// the subset of `fetch` used to resolve did:web, so that node-fetch, undici or a test double can be supplied
+export type FetchLike = (
+  url: string,
+  init?: { mode?: string }
+) => Promise<{
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+}>;
+
+type PublicKeyJwk = NonNullable<VerificationMethod["publicKeyJwk"]>;
+
+const DOC_PATH = "/.well-known/did.json";
+
+const invalidDid = (message: string): DIDResolutionResult => ({
+  didResolutionMetadata: { error: "invalidDid", message },
+  didDocument: null,
+  didDocumentMetadata: {},
+});
+
+// a DID document with a single JsonWebKey2020 verification method, authorised for assertions
+const singleKeyDocument = (
+  did: string,
+  keyId: string,
+  publicKeyJwk: PublicKeyJwk
+): DIDDocument => {
+  const id = `${did}#${keyId}`;
+  return {
+    "@context": [
+      "https://www.w3.org/ns/did/v1",
+      "https://w3id.org/security/suites/jws-2020/v1",
+    ],
+    id: did,
+    verificationMethod: [
+      { id, type: "JsonWebKey2020", controller: did, publicKeyJwk },
+    ],
+    assertionMethod: [id],
+    authentication: [id],
+  };
+};
+
+/**
+ * did:web resolver using the supplied fetch, following web-did-resolver
+ * https://w3c-ccg.github.io/did-method-web/
+ * @param fetch the fetch implementation used to retrieve the DID document
+ */
+export const getWebResolver = (
+  fetch: FetchLike
+): { web: DIDResolver } => ({
+  web: async (did, parsed) => {
+    const id = parsed.id.split(":");
+    const path =
+      id.length > 1
+        ? id.map(decodeURIComponent).join("/") + "/did.json"
+        : decodeURIComponent(parsed.id) + DOC_PATH;
+
+    let didDocument: DIDDocument | null = null;
+    try {
+      const res = await fetch(`https://${path}`, { mode: "cors" });
+      if (res.status >= 400) {
+        throw new Error(`Bad response ${res.statusText}`);
+      }
+      didDocument = (await res.json()) as DIDDocument;
+    } catch (error) {
+      return {
+        didResolutionMetadata: {
+          error: "notFound",
+          message: `resolver_error: DID must resolve to a valid https URL containing a JSON document: ${error}`,
+        },
+        didDocument: null,
+        didDocumentMetadata: {},
+      };
+    }
+    if (didDocument?.id !== did) {
+      return {
+        didResolutionMetadata: {
+          error: "notFound",
+          message: "resolver_error: DID document id does not match requested did",
+        },
+        didDocument,
+        didDocumentMetadata: {},
+      };
+    }
+    return {
+      didResolutionMetadata: { contentType: "application/did+ld+json" },
+      didDocument,
+      didDocumentMetadata: {},
+    };
+  },
+});
+
+// multicodec prefix of a P-256 public key (0x1200) as an unsigned varint
+const P256_PUB_MULTICODEC = [0x80, 0x24];
+
+/**
+ * did:key resolver for P-256 public keys, the only key type NZ COVID Passes can be signed with
+ * https://w3c-ccg.github.io/did-method-key/
+ * The key id of the verification method is the multibase encoded key, e.g. did:key:zDn...#zDn...
+ */
+export const getKeyResolver = (): { key: DIDResolver } => ({
+  key: async (did, parsed) => {
+    const multibaseValue = parsed.id;
+    // z is the multibase prefix of base58btc
+    if (!multibaseValue.startsWith("z")) {
+      return invalidDid("did:key MUST be base58btc multibase encoded");
+    }
+    let bytes: Uint8Array;
+    try {
+      bytes = decodeBase58(multibaseValue.slice(1));
+    } catch (err) {
+      return invalidDid((err as Error).message);
+    }
+    if (
+      bytes[0] !== P256_PUB_MULTICODEC[0] ||
+      bytes[1] !== P256_PUB_MULTICODEC[1] ||
+      bytes.length !== 2 + 33
+    ) {
+      return invalidDid("did:key MUST be a compressed P-256 public key");
+    }
+    let publicKey: curve.base.BasePoint;
+    try {
+      publicKey = getECDSA(ES256).keyFromPublic(bytes.slice(2)).getPublic();
+    } catch (err) {
+      return invalidDid("did:key is not a point on P-256");
+    }
+    const publicKeyJwk = {
+      kty: "EC",
+      crv: "P-256",
+      x: encodeBase64Url(new Uint8Array(publicKey.getX().toArray("be", 32))),
+      y: encodeBase64Url(new Uint8Array(publicKey.getY().toArray("be", 32))),
+    };
+    return {
+      didResolutionMetadata: { contentType: "application/did+ld+json" },
+      didDocument: singleKeyDocument(did, multibaseValue, publicKeyJwk),
+      didDocumentMetadata: {},
+    };
+  },
+});
+
+/**
+ * did:jwk resolver, the DID is the base64url encoded public key JWK
+ * https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ * The key id of the verification method is `0`, e.g. did:jwk:eyJ...#0
+ */
+export const getJwkResolver = (): { jwk: DIDResolver } => ({
+  jwk: async (did, parsed) => {
+    let publicKeyJwk: PublicKeyJwk;
+    try {
+      publicKeyJwk = JSON.parse(
+        new TextDecoder().decode(decodeBase64Url(parsed.id))
+      );
+    } catch (err) {
+      return invalidDid("did:jwk MUST be a base64url encoded JWK");
+    }
+    if (
+      typeof publicKeyJwk !== "object" ||
+      publicKeyJwk === null ||
+      typeof publicKeyJwk.kty !== "string"
+    ) {
+      return invalidDid("did:jwk MUST be a base64url encoded JWK");
+    }
+    // the JWK MUST NOT contain a private key
+    if ("d" in publicKeyJwk) {
+      return invalidDid("did:jwk MUST NOT contain private key material");
+    }
+    return {
+      didResolutionMetadata: { contentType: "application/did+ld+json" },
+      didDocument: singleKeyDocument(did, "0", publicKeyJwk),
+      didDocumentMetadata: {},
+    };
+  },
+});
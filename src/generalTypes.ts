@@ -1,12 +1,73 @@
 import { CredentialSubject, CWTClaims, UnvalidatedCWTClaims } from "./cwtTypes";
 
+// Stable identifiers of the checks a pass can fail, to branch on instead of `section` or `message`
+// `MALFORMED` is a pass that could not be decoded, `INTERNAL` an unexpected error while verifying it
+export type ViolationCode =
+  // QR code image and payload, section 4
+  | "NO_QR_CODE"
+  | "NOT_NZCP_QR_CODE"
+  | "PAYLOAD_NOT_STRING"
+  | "MALFORMED_PAYLOAD"
+  | "INVALID_PREFIX"
+  | "UNSUPPORTED_VERSION"
+  | "MALFORMED_BASE32"
+  // CBOR and COSE decoding
+  | "MALFORMED"
+  | "DECODE_LIMIT_EXCEEDED"
+  | "NON_CANONICAL_CBOR"
+  | "DUPLICATE_MAP_KEY"
+  | "TRAILING_BYTES"
+  // CWT headers, section 2.2
+  | "MISSING_KID"
+  | "INVALID_ALG"
+  // CWT claims, section 2.1
+  | "MISSING_JTI"
+  | "INVALID_CTI"
+  | "INVALID_JTI"
+  | "MISSING_ISS"
+  | "MISSING_NBF"
+  | "MISSING_EXP"
+  | "NOT_YET_ACTIVE"
+  | "EXPIRED"
+  // Verifiable Credential, sections 2.3 and 2.4
+  | "MISSING_VC"
+  | "INVALID_VC_CONTEXT"
+  | "INVALID_VC_TYPE"
+  | "INVALID_VC_VERSION"
+  | "MISSING_CREDENTIAL_SUBJECT"
+  | "MISSING_CREDENTIAL_SUBJECT_PROPERTY"
+  | "INVALID_CREDENTIAL_SUBJECT"
+  | "MISSING_GIVEN_NAME"
+  | "MISSING_DOB"
+  // issuer and keys, sections 5 and 6
+  | "UNTRUSTED_ISSUER"
+  | "DID_RESOLUTION_FAILED"
+  | "VERIFICATION_METHOD_NOT_FOUND"
+  | "KEY_NOT_AUTHORIZED"
+  | "INVALID_PUBLIC_KEY"
+  | "INVALID_KEY_FORMAT"
+  | "PRIVATE_KEY_PUBLISHED"
+  | "INVALID_KEY_TYPE"
+  // signature, section 3
+  | "BAD_SIGNATURE"
+  // revocation and replay
+  | "REVOKED_PASS"
+  | "REVOKED_KEY"
+  | "REPLAYED"
+  | "INTERNAL";
+
 export interface Violates {
+  code: ViolationCode;
   message: string;
   section: string;
   link: string;
-  description?: string;
+  // a description for people scanning the pass, from the locale catalogue
+  description: string;
 }
 
-export type VerificationResult =
-  | { success: true; violates: null; expires: Date; validFrom: Date; credentialSubject: CredentialSubject; raw: CWTClaims }
-  | { success: false; violates: Violates; expires: Date | null; validFrom: Date | null; credentialSubject: CredentialSubject | null; raw: UnvalidatedCWTClaims | null };
+// `violations` is only set when verifying with `allViolations: true`
+// `warnings` is only set when a pass succeeded but should be looked at, e.g. it was scanned repeatedly
+// generic over the credential subject of the pass types accepted, PublicCovidPass by default
+export type VerificationResult<T = CredentialSubject> =
+  | { success: true; violates: null; violations?: Violates[]; warnings?: Violates[]; expires: Date; validFrom: Date; credentialSubject: T; raw: CWTClaims<T> }
+  | { success: false; violates: Violates; violations?: Violates[]; warnings?: Violates[]; expires: Date | null; validFrom: Date | null; credentialSubject: T | null; raw: UnvalidatedCWTClaims<T> | null };
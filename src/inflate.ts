@@ -0,0 +1,223 @@
+// A zlib decompressor for reading PNG image data without platform dependencies
+// https://datatracker.ietf.org/doc/html/rfc1950
+// https://datatracker.ietf.org/doc/html/rfc1951
+
+type Huffman = {
+  // number of codes of each length
+  counts: Uint16Array;
+  // symbols ordered by code
+  symbols: Uint16Array;
+};
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]] += 1;
+  }
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) {
+    offsets[len] = offsets[len - 1] + counts[len - 1];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+  return { counts, symbols };
+};
+
+// RFC 1951 section 3.2.5
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// RFC 1951 section 3.2.7, the order of the code length code lengths
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// RFC 1951 section 3.2.6
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class Output {
+  buffer: Uint8Array;
+  length = 0;
+
+  constructor(size: number) {
+    this.buffer = new Uint8Array(Math.max(size, 1024));
+  }
+
+  ensure(extra: number, maxLength: number) {
+    if (this.length + extra > maxLength) {
+      throw new Error("Inflated data exceeds the maximum length");
+    }
+    if (this.length + extra > this.buffer.length) {
+      const next = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+  }
+}
+
+/**
+ * decompresses a zlib stream
+ * @param data the zlib stream
+ * @param maxLength the most bytes the stream may inflate to
+ * @returns {Uint8Array} the decompressed data
+ */
+export const inflate = (data: Uint8Array, maxLength = Infinity): Uint8Array => {
+  if (data.length < 6 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0) {
+    throw new Error("Invalid zlib header");
+  }
+  if (data[1] & 0x20) {
+    throw new Error("zlib preset dictionaries are not supported");
+  }
+  let pos = 2;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (pos >= data.length) {
+        throw new Error("Unexpected end of zlib data");
+      }
+      bitBuffer |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  // reads one symbol, Huffman codes are packed starting with the most significant bit
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = huffman.counts[len];
+      if (code - count < first) {
+        return huffman.symbols[index + (code - first)];
+      }
+      index += count;
+      first += count;
+      first <<= 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code");
+  };
+
+  const output = new Output(data.length * 4);
+  let final = 0;
+  while (!final) {
+    final = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      // stored block, aligned to the next byte
+      bitBuffer = 0;
+      bitCount = 0;
+      if (pos + 4 > data.length) {
+        throw new Error("Unexpected end of zlib data");
+      }
+      const len = data[pos] | (data[pos + 1] << 8);
+      const nlen = data[pos + 2] | (data[pos + 3] << 8);
+      pos += 4;
+      if ((len ^ 0xffff) !== nlen || pos + len > data.length) {
+        throw new Error("Invalid stored block");
+      }
+      output.ensure(len, maxLength);
+      output.buffer.set(data.subarray(pos, pos + len), output.length);
+      output.length += len;
+      pos += len;
+      continue;
+    }
+    let literals = FIXED_LITERALS;
+    let distances = FIXED_DISTANCES;
+    if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      }
+      const codeLengthHuffman = buildHuffman(codeLengths);
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length; ) {
+        const symbol = decodeSymbol(codeLengthHuffman);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+          continue;
+        }
+        let repeat: number;
+        let value = 0;
+        if (symbol === 16) {
+          if (i === 0) {
+            throw new Error("Invalid code length repeat");
+          }
+          value = lengths[i - 1];
+          repeat = 3 + bits(2);
+        } else if (symbol === 17) {
+          repeat = 3 + bits(3);
+        } else {
+          repeat = 11 + bits(7);
+        }
+        if (i + repeat > lengths.length) {
+          throw new Error("Invalid code length repeat");
+        }
+        lengths.fill(value, i, i + repeat);
+        i += repeat;
+      }
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    } else if (type !== 1) {
+      throw new Error("Invalid deflate block type");
+    }
+
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        output.ensure(1, maxLength);
+        output.buffer[output.length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        break;
+      }
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error("Invalid deflate length");
+      }
+      const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decodeSymbol(distances);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error("Invalid deflate distance");
+      }
+      const distance = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > output.length) {
+        throw new Error("Invalid deflate distance");
+      }
+      output.ensure(length, maxLength);
+      // byte by byte, a match may overlap the bytes it copies
+      for (let i = 0; i < length; i++) {
+        output.buffer[output.length] = output.buffer[output.length - distance];
+        output.length += 1;
+      }
+    }
+  }
+  return output.buffer.slice(0, output.length);
+};
@@ -0,0 +1,72 @@
+import { createPassURI } from "./issue";
+import { verifyPassURIOffline } from "./main";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
+const claims = {
+  jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+  nbf: 1641679750,
+  exp: 1956007750,
+  vc: {
+    "@context": [
+      "https://www.w3.org/2018/credentials/v1",
+      "https://nzcp.covid19.health.nz/contexts/v1",
+    ],
+    version: "1.0.0",
+    type: ["VerifiableCredential", "PublicCovidPass"],
+    credentialSubject: {
+      givenName: "Patrick",
+      familyName: "Star",
+      dob: "1960-04-16",
+    },
+  },
+};
+
+const options = {
+  privateKeyJwk: minePrivateKey,
+  kid: minePrivateKey.kid,
+  iss: mineDIDDocument.id,
+};
+
+test("Issued pass is successful", async () => {
+  const uri = createPassURI(claims, options);
+  expect(uri).toMatch(/^NZCP:\/1\/[A-Z2-7]+$/);
+
+  const result = verifyPassURIOffline(uri, { didDocument: mineDIDDocument });
+  expect(result.success).toBe(true);
+  expect(result.credentialSubject?.givenName).toBe("Patrick");
+  expect(result.credentialSubject?.familyName).toBe("Star");
+  expect(result.credentialSubject?.dob).toBe("1960-04-16");
+  expect(result.expires).toStrictEqual(new Date("2031-12-25T23:29:10.000Z"));
+  expect(result.validFrom).toStrictEqual(new Date("2022-01-08T22:09:10.000Z"));
+  expect(result.raw?.jti).toBe(claims.jti);
+  expect(result.raw?.iss).toBe(mineDIDDocument.id);
+});
+
+test("Issued pass with an unknown kid is unsuccessful", async () => {
+  const uri = createPassURI(claims, { ...options, kid: "02" });
+  const result = verifyPassURIOffline(uri, { didDocument: mineDIDDocument });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("5.1.1");
+});
+
+test("Issued expired pass is unsuccessful", async () => {
+  const uri = createPassURI({ ...claims, exp: 1673215750 }, options);
+  const result = verifyPassURIOffline(uri, { didDocument: mineDIDDocument });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("2.1.0.4.3");
+});
+
+test("Issuing without a private key throws", async () => {
+  const { d, ...publicKeyJwk } = minePrivateKey;
+  expect(d).toBeTruthy();
+  expect(() =>
+    createPassURI(claims, { ...options, privateKeyJwk: publicKeyJwk })
+  ).toThrowError();
+});
+
+test("Issuing with a malformed jti throws", async () => {
+  expect(() =>
+    createPassURI({ ...claims, jti: "not-a-uuid" }, options)
+  ).toThrowError();
+});
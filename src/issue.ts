@@ -0,0 +1,83 @@
+import { ES256, getAlgorithmByName } from "./algorithms";
+import { encodeCBOR, encodeCOSE } from "./cbor";
+import { Data } from "./cborTypes";
+import { signCOSE } from "./crypto";
+import { CredentialSubject, CWTClaims } from "./cwtTypes";
+import { encodeJtiToCti } from "./jtiCti";
+import { getProtocolVersion } from "./protocolVersions";
+
+// The function below issues passes following v1 of NZ COVID Pass - Technical Specification, or a registered protocol version
+// https://nzcp.covid19.health.nz/
+// It is the counterpart of verifyPassURI and verifyPassURIOffline, intended for minting test passes
+
+export type CreatePassURIOptions = {
+  // private key in JWK form for the algorithm, MUST contain `d`
+  privateKeyJwk: JsonWebKey;
+  // name of a registered signature algorithm, defaults to ES256 as the specification requires
+  alg?: string;
+  // key id, which together with `iss` forms the absolute key reference `${iss}#${kid}`
+  kid: string;
+  // issuer identifier, e.g. "did:web:nzcp.covid19.health.nz"
+  iss: string;
+  // version-identifier of a registered protocol version, defaults to 1
+  version?: number;
+};
+
+/**
+ * signs CWT claims into a COVID-19 Pass URI
+ * @param claims the claims of the pass (`iss` is taken from the options)
+ * @param options the signing key and the issuer
+ * @returns {string} the COVID-19 Pass URI in the form `NZCP:/1/<base32-encoded-CWT>`, or as encoded by the protocol version
+ */
+export const createPassURI = <T = CredentialSubject>(
+  claims: Omit<CWTClaims<T>, "iss">,
+  options: CreatePassURIOptions
+): string => {
+  // Section 2.2
+  // CWT Headers: `kid` (4) as bytes and `alg` (1) set to ES256 (-7)
+  // https://nzcp.covid19.health.nz/#cwt-headers
+  const algorithm = options.alg ? getAlgorithmByName(options.alg) : ES256;
+  if (!algorithm) {
+    throw new Error(`Unknown signature algorithm ${options.alg}`);
+  }
+  const version = options.version ?? 1;
+  const protocolVersion = getProtocolVersion(version);
+  if (!protocolVersion) {
+    throw new Error(`Unknown protocol version ${version}`);
+  }
+  const cwtHeaders = new Map<number, Uint8Array | number>([
+    [4, new TextEncoder().encode(options.kid)],
+    [1, algorithm.id],
+  ]);
+
+  // Section 2.1
+  // CWT Claims, using the claim keys mandated by the spec
+  // https://nzcp.covid19.health.nz/#cwt-claims
+  const cwtClaims = new Map<Data, Data>([
+    [1, options.iss],
+    [5, claims.nbf],
+    [4, claims.exp],
+    // Section 2.1.0.5.3
+    // The vc claim is currrently unregistered and therefore MUST be encoded as a Major Type 3 string
+    ["vc", claims.vc as unknown as Data],
+    // Section 2.1.1
+    // https://nzcp.covid19.health.nz/#mapping-jti-cti
+    [7, encodeJtiToCti(claims.jti)],
+  ]);
+  const bodyProtected = encodeCBOR(cwtHeaders);
+  const payload = encodeCBOR(cwtClaims);
+
+  // Section 3
+  // https://nzcp.covid19.health.nz/#cryptographic-digital-signature-algorithm-selection
+  const signature = signCOSE(
+    bodyProtected,
+    payload,
+    options.privateKeyJwk,
+    algorithm
+  );
+  const cose = encodeCOSE(bodyProtected, payload, signature);
+
+  // Section 4
+  // https://nzcp.covid19.health.nz/#2d-barcode-encoding
+  return `NZCP:/${version}/${protocolVersion.encode(cose)}`;
+};
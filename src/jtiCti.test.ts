@@ -1,4 +1,4 @@
-import { decodeCtiToJti } from "./jtiCti";
+import { decodeCtiToJti, encodeJtiToCti } from "./jtiCti";
 import { Violation } from "./violation";
 
 // Tests to verify Section 2.1.1 and RFC4122 are implemented properly
@@ -16,4 +16,18 @@ test("properly formed cti is decode into jti", async () => {
 test("malformed cti returns unsuccessful result", async () => {
   const cti = new Uint8Array([0x60, 0xa4, 0xf5, 0x4d, 0x4e, 0x30, 0x43, 0x32])
   expect(() => decodeCtiToJti(cti)).toThrowError(Violation);
+  expect(() => decodeCtiToJti(cti)).toThrow(expect.objectContaining({ violates: expect.objectContaining({ code: "INVALID_CTI" }) }));
+});
+
+// Properly formed jti is encoded back into the same cti
+test("properly formed jti is encoded into cti", async () => {
+  const cti = new Uint8Array([0x60, 0xa4, 0xf5, 0x4d, 0x4e, 0x30, 0x43, 0x32, 0xbe, 0x33, 0xad, 0x78, 0xb1, 0xea, 0xfa, 0x4b])
+  const result = encodeJtiToCti("urn:uuid:60a4f54d-4e30-4332-be33-ad78b1eafa4b");
+  expect(result).toEqual(cti);
+});
+
+// Malformed jti without the urn:uuid prefix
+test("malformed jti throws", async () => {
+  expect(() => encodeJtiToCti("60a4f54d-4e30-4332-be33-ad78b1eafa4b")).toThrowError(Violation);
+  expect(() => encodeJtiToCti("60a4f54d-4e30-4332-be33-ad78b1eafa4b")).toThrow(expect.objectContaining({ violates: expect.objectContaining({ code: "INVALID_JTI" }) }));
 });
@@ -1,4 +1,4 @@
-import { toHex } from "./util";
+import { fromHex, toHex } from "./util";
 import { Violation } from "./violation";
 
 // Section 2.1.1
@@ -9,10 +9,10 @@ export function decodeCtiToJti(rawCti: Uint8Array): string {
   // Parse the 16 byte value and convert to hexadecimal form
   if (rawCti.length !== 16) {
     throw new Violation({
+      code: "INVALID_CTI",
       message: `CTI must be 16 octets, but was ${rawCti.length} octets.`,
       section: "RFC4122.4.1",
       link: "https://datatracker.ietf.org/doc/html/rfc4122#section-4.1",
-      description: "The COVID Pass is malformed or has been modified.",
     });
   }
   const hexUuid = toHex(rawCti)
@@ -51,3 +51,25 @@ export function decodeCtiToJti(rawCti: Uint8Array): string {
   const jti = `urn:uuid:${uuid}`;
   return jti;
 }
+
+// Section 2.1.1
+// Encode JTI to CTI, the reverse of decodeCtiToJti
+// https://nzcp.covid19.health.nz/#mapping-jti-cti
+export function encodeJtiToCti(jti: string): Uint8Array {
+  // Parse the value of the jti claim in the form of a UUID URI
+  const match = jti.match(
+    /^urn:uuid:([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})$/i
+  );
+  if (!match) {
+    throw new Violation({
+      code: "INVALID_JTI",
+      message: `JTI must be a UUID in the form of a URI, but was ${jti}.`,
+      section: "RFC4122.3",
+      link: "https://datatracker.ietf.org/doc/html/rfc4122#section-3",
+    });
+  }
+
+  // Remove the prefix and hyphens, then convert the hexadecimal form to 16 bytes
+  const cti = fromHex(match.slice(1).join(""));
+  return cti;
+}
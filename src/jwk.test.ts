@@ -0,0 +1,95 @@
+import { DIDDocument } from "did-resolver";
+import { EdDSA, ES256, ES384 } from "./algorithms";
+import { createPassURI } from "./issue";
+import { validatePublicKeyJwk } from "./jwk";
+import { verifyPassURIOffline } from "./main";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+import { encodeBase64Url } from "./util";
+
+const publicKeyJwk = exampleDIDDocument.verificationMethod[0].publicKeyJwk;
+const toBase64Url = (bytes: number[]) => encodeBase64Url(new Uint8Array(bytes));
+
+// the violations of a JWK as `section: message`
+const check = (jwk: unknown, algorithm = ES256) =>
+  validatePublicKeyJwk(jwk, algorithm).map((v) => `${v.violates.section}: ${v.message}`);
+
+test("A valid P-256 JWK has no violations", () => {
+  expect(check(publicKeyJwk)).toEqual([]);
+  expect(check({ ...publicKeyJwk, use: "sig", key_ops: ["verify"], alg: "ES256", kid: "key-1" })).toEqual([]);
+});
+
+test("Coordinates must be strict base64url of the size of the curve and a point on it", () => {
+  const prefix = "5.1.2: The public key referenced by the decoded CWT MUST be a valid P-256 public key, but";
+  expect(check({ ...publicKeyJwk, y: undefined })).toEqual([`${prefix} \`y\` is missing.`]);
+  // padding, the standard base64 alphabet and non-zero trailing bits
+  expect(check({ ...publicKeyJwk, x: `${publicKeyJwk.x}=` })).toEqual([`${prefix} \`x\` is not base64url encoded.`]);
+  expect(check({ ...publicKeyJwk, y: publicKeyJwk.y.replace("_", "/") })).toEqual([`${prefix} \`y\` is not base64url encoded.`]);
+  expect(check({ ...publicKeyJwk, x: `${publicKeyJwk.x.slice(0, -1)}1` })).toEqual([`${prefix} \`x\` is not base64url encoded.`]);
+  expect(check({ ...publicKeyJwk, x: toBase64Url(new Array(31).fill(1)) })).toEqual([`${prefix} \`x\` is 31 bytes instead of 32.`]);
+  expect(check({ ...publicKeyJwk, y: toBase64Url(new Array(32).fill(2)) })).toEqual([`${prefix} it is not a point on the P-256 curve.`]);
+  // the field prime, which `elliptic` would reduce to zero
+  expect(check({ ...publicKeyJwk, x: "_____wAAAAEAAAAAAAAAAAAAAAD_______________8" })).toEqual([
+    `${prefix} it is not a point on the P-256 curve.`,
+  ]);
+  // octet key pairs are the encoded point
+  const notOnCurve = new Array(32).fill(0);
+  notOnCurve[0] = 2;
+  expect(check({ kty: "OKP", crv: "Ed25519", x: toBase64Url(notOnCurve) }, EdDSA)).toEqual([
+    "5.1.2: The public key referenced by the decoded CWT MUST be a valid Ed25519 public key, but it is not a point on the Ed25519 curve.",
+  ]);
+  // a P-256 key for an ES384 pass
+  expect(check(publicKeyJwk, ES384).map((v) => v.slice(0, 5))).toEqual(["5.1.2", "5.1.5"]);
+});
+
+test("The JWK must be a JWK as per RFC 7517 that allows verification", () => {
+  const prefix = "5.1.3: The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517], but";
+  expect(check({ ...publicKeyJwk, use: "enc" })).toEqual([`${prefix} \`use\` is \`enc\` instead of \`sig\`.`]);
+  expect(check({ ...publicKeyJwk, key_ops: ["sign"] })).toEqual([`${prefix} \`key_ops\` does not include \`verify\`.`]);
+  expect(check({ ...publicKeyJwk, key_ops: ["verify", "verify"] })).toEqual([
+    `${prefix} \`key_ops\` is not an array of unique strings.`,
+  ]);
+  expect(check({ ...publicKeyJwk, kid: 1 })).toEqual([`${prefix} \`kid\` is not a string.`]);
+  expect(check("not a JWK")).toEqual([
+    "5.1.2: The public key referenced by the decoded CWT MUST be a valid P-256 public key, but it is missing.",
+    `${prefix} it is not a JSON object.`,
+  ]);
+});
+
+test("The JWK must not publish private parameters", () => {
+  expect(check({ ...publicKeyJwk, d: "AAAA", dp: "AAAA" })).toEqual([
+    "5.1.4: This public key JWK expression MUST NOT publish any JSON Web Key Parameters that are classified as “Private”, but it publishes `d`, `dp`.",
+  ]);
+});
+
+test("JWK violations are reported in order of section when verifying", () => {
+  const uri = createPassURI(
+    {
+      jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+      nbf: 1641679750,
+      exp: 1956007750,
+      vc: {
+        "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+        version: "1.0.0",
+        type: ["VerifiableCredential", "PublicCovidPass"],
+        credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+      },
+    },
+    { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id }
+  );
+  // the issuer published its private key, under a verification method that is not a JsonWebKey2020
+  const didDocument: DIDDocument = {
+    ...mineDIDDocument,
+    verificationMethod: [{ ...mineDIDDocument.verificationMethod[0], type: "EcdsaSecp256r1VerificationKey2019", publicKeyJwk: minePrivateKey }],
+  };
+  const now = new Date("2023-01-01T00:00:00Z");
+  expect(verifyPassURIOffline(uri, { didDocument, now }).violates?.code).toBe("INVALID_KEY_FORMAT");
+  // its `key_ops` are the ones of a private key too
+  expect(verifyPassURIOffline(uri, { didDocument, now, allViolations: true }).violations?.map((v) => v.message)).toEqual([
+    "The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517], but `key_ops` does not include `verify`.",
+    "The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517].",
+    "This public key JWK expression MUST NOT publish any JSON Web Key Parameters that are classified as “Private”, but it publishes `d`.",
+  ]);
+  expect(verifyPassURIOffline(uri, { didDocument: mineDIDDocument as DIDDocument, now }).success).toBe(true);
+});
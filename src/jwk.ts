@@ -0,0 +1,179 @@
+import { isEdDSA, SignatureAlgorithm } from "./algorithms";
+import { isOnCurve } from "./crypto";
+import { decodeBase64Url, encodeBase64Url } from "./util";
+import { Violation } from "./violation";
+
+// Sections 5.1.2 to 5.1.5
+// https://nzcp.covid19.health.nz/#did-document
+// Checks of the public key JWK of the verification method a pass is signed with, before the key is imported
+
+const LINK = "https://nzcp.covid19.health.nz/#did-document";
+
+// JSON Web Key Parameters with the Parameter Information Class "Private"
+// https://www.iana.org/assignments/jose/jose.xhtml#web-key-parameters
+export const PRIVATE_JWK_PARAMETERS = ["d", "p", "q", "dp", "dq", "qi", "oth", "k"];
+
+// members that are strings when present
+// https://datatracker.ietf.org/doc/html/rfc7517#section-4
+const STRING_PARAMETERS = ["kty", "use", "alg", "kid", "crv", "x", "y"];
+
+// base64url without padding, decoding to the same string it was encoded from, or null
+// https://datatracker.ietf.org/doc/html/rfc7515#section-2
+const decodeStrictBase64Url = (value: string): Uint8Array | null => {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    return null;
+  }
+  const bytes = decodeBase64Url(value);
+  // trailing bits that are not zero are lost in decoding
+  return encodeBase64Url(bytes) === value ? bytes : null;
+};
+
+// Section 5.1.2
+// The public key referenced by the decoded CWT MUST be a valid P-256 public key
+// The curve and coordinate size are the ones of the algorithm, octet key pairs have no `y` coordinate
+const validatePublicKey = (
+  publicKeyJwk: Record<string, unknown>,
+  algorithm: SignatureAlgorithm
+): string | undefined => {
+  const coordinates = isEdDSA(algorithm) ? ["x"] : ["x", "y"];
+  const decoded: Uint8Array[] = [];
+  for (const name of coordinates) {
+    const value = publicKeyJwk[name];
+    if (typeof value !== "string" || !value) {
+      return `\`${name}\` is missing`;
+    }
+    const bytes = decodeStrictBase64Url(value);
+    if (!bytes) {
+      return `\`${name}\` is not base64url encoded`;
+    }
+    // coordinates are the full size of the curve, including leading zeros
+    // https://datatracker.ietf.org/doc/html/rfc7518#section-6.2.1.2
+    if (bytes.length !== algorithm.size) {
+      return `\`${name}\` is ${bytes.length} bytes instead of ${algorithm.size}`;
+    }
+    decoded.push(bytes);
+  }
+  if (!isOnCurve(algorithm, decoded[0], decoded[1])) {
+    return `it is not a point on the ${algorithm.crv} curve`;
+  }
+  return undefined;
+};
+
+// Section 5.1.3
+// The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517]
+// which includes `use` and `key_ops` allowing the key to verify signatures when they are present
+const validateKeyFormat = (
+  publicKeyJwk: Record<string, unknown>
+): string | undefined => {
+  const notString = STRING_PARAMETERS.find(
+    (name) =>
+      publicKeyJwk[name] !== undefined && typeof publicKeyJwk[name] !== "string"
+  );
+  if (notString) {
+    return `\`${notString}\` is not a string`;
+  }
+  // https://datatracker.ietf.org/doc/html/rfc7517#section-4.1
+  if (!publicKeyJwk.kty) {
+    return "`kty` is missing";
+  }
+  // https://datatracker.ietf.org/doc/html/rfc7517#section-4.2
+  if (publicKeyJwk.use !== undefined && publicKeyJwk.use !== "sig") {
+    return `\`use\` is \`${publicKeyJwk.use}\` instead of \`sig\``;
+  }
+  // https://datatracker.ietf.org/doc/html/rfc7517#section-4.3
+  const keyOps = publicKeyJwk.key_ops;
+  if (keyOps !== undefined) {
+    if (
+      !Array.isArray(keyOps) ||
+      !keyOps.every((op) => typeof op === "string") ||
+      new Set(keyOps).size !== keyOps.length
+    ) {
+      return "`key_ops` is not an array of unique strings";
+    }
+    if (!keyOps.includes("verify")) {
+      return "`key_ops` does not include `verify`";
+    }
+  }
+  return undefined;
+};
+
+/**
+ * checks the public key JWK of a verification method, every failed check is reported with its section
+ * @param publicKeyJwk the `publicKeyJwk` of the verification method
+ * @param algorithm the algorithm the pass is signed with, selecting the curve and coordinate size
+ * @returns {Violation[]} the violations, in order of section
+ */
+export const validatePublicKeyJwk = (
+  publicKeyJwk: unknown,
+  algorithm: SignatureAlgorithm
+): Violation[] => {
+  const publicKey = (detail: string) =>
+    new Violation({
+      code: "INVALID_PUBLIC_KEY",
+      message: `The public key referenced by the decoded CWT MUST be a valid ${algorithm.crv} public key, but ${detail}.`,
+      link: LINK,
+      section: "5.1.2",
+    });
+  const keyFormat = (detail: string) =>
+    new Violation({
+      code: "INVALID_KEY_FORMAT",
+      message: `The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517], but ${detail}.`,
+      link: LINK,
+      section: "5.1.3",
+    });
+
+  if (
+    typeof publicKeyJwk !== "object" ||
+    publicKeyJwk === null ||
+    Array.isArray(publicKeyJwk)
+  ) {
+    return [publicKey("it is missing"), keyFormat("it is not a JSON object")];
+  }
+  const jwk = publicKeyJwk as Record<string, unknown>;
+  const violations: Violation[] = [];
+
+  const invalidKey = validatePublicKey(jwk, algorithm);
+  if (invalidKey) {
+    violations.push(publicKey(invalidKey));
+  }
+
+  const invalidFormat = validateKeyFormat(jwk);
+  if (invalidFormat) {
+    violations.push(keyFormat(invalidFormat));
+  }
+
+  // Section 5.1.4
+  // This public key JWK expression MUST NOT publish any JSON Web Key Parameters that are classified as “Private”
+  // under the “Parameter Information Class” category of the JSON Web Key Parameters IANA registry.
+  const published = PRIVATE_JWK_PARAMETERS.filter(
+    (name) => jwk[name] !== undefined
+  );
+  if (published.length) {
+    violations.push(
+      new Violation({
+        code: "PRIVATE_KEY_PUBLISHED",
+        message: `This public key JWK expression MUST NOT publish any JSON Web Key Parameters that are classified as “Private”, but it publishes ${published
+          .map((name) => `\`${name}\``)
+          .join(", ")}.`,
+        link: LINK,
+        section: "5.1.4",
+      })
+    );
+  }
+
+  // Section 5.1.5
+  // This public key JWK expression MUST set a crv property which has a value of P-256. Additionally, the JWK MUST have a kty property set to EC.
+  // The crv and kty are the ones of the algorithm, so a key can only verify passes signed with its algorithm
+  if (jwk.crv !== algorithm.crv || jwk.kty !== algorithm.kty) {
+    violations.push(
+      new Violation({
+        code: "INVALID_KEY_TYPE",
+        message: `This public key JWK expression MUST set a crv property which has a value of ${algorithm.crv}. Additionally, the JWK MUST have a kty property set to ${algorithm.kty}.`,
+        link: LINK,
+        section: "5.1.5",
+      })
+    );
+  }
+
+  return violations;
+};
@@ -0,0 +1,137 @@
+import { DIDDocument } from "did-resolver";
+import { ES256 } from "./algorithms";
+import { AsyncCryptoProvider, CryptoProvider, ELLIPTIC_CRYPTO_PROVIDER } from "./crypto";
+import { createPassURI } from "./issue";
+import { KeyCache } from "./keyCache";
+import { verifyPassURI, verifyPassURIOffline, verifyPassURIs } from "./main";
+import exampleDIDDocument from "./exampleDIDDocument.json";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
+const now = new Date("2023-01-01T00:00:00Z");
+const reference = `${mineDIDDocument.id}#${minePrivateKey.kid}`;
+const publicKeyJwk = mineDIDDocument.verificationMethod[0].publicKeyJwk;
+
+const uri = createPassURI(
+  {
+    jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+    nbf: 1641679750,
+    exp: 1956007750,
+    vc: {
+      "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+      version: "1.0.0",
+      type: ["VerifiableCredential", "PublicCovidPass"],
+      credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+    },
+  },
+  { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id }
+);
+
+// the elliptic provider, counting the keys it imports
+const countingProvider = () => {
+  const cryptoProvider: CryptoProvider & { imports: number } = {
+    imports: 0,
+    importPublicKey: (jwk, algorithm) => {
+      cryptoProvider.imports++;
+      return ELLIPTIC_CRYPTO_PROVIDER.importPublicKey(jwk, algorithm);
+    },
+    verify: (publicKey, algorithm, data, signature) =>
+      ELLIPTIC_CRYPTO_PROVIDER.verify(publicKey as never, algorithm, data, signature),
+  };
+  return cryptoProvider;
+};
+
+test("Key cache imports a key once, shared by offline, online and batch verification", async () => {
+  const keyCache = new KeyCache();
+  const cryptoProvider = countingProvider();
+  const resolver = {
+    resolve: async () => ({ didResolutionMetadata: {}, didDocument: mineDIDDocument, didDocumentMetadata: {} }),
+  };
+
+  expect(verifyPassURIOffline(uri, { didDocument: mineDIDDocument, keyCache, cryptoProvider, now }).success).toBe(true);
+  expect((await verifyPassURI(uri, { resolver, trustedIssuer: mineDIDDocument.id, keyCache, cryptoProvider, now })).success).toBe(true);
+  const batch = await verifyPassURIs([uri, uri, uri], { didDocument: mineDIDDocument, keyCache, cryptoProvider, now });
+  expect(batch.counts.success).toBe(3);
+  expect(cryptoProvider.imports).toBe(1);
+  expect(Array.from(keyCache.entries.keys())).toEqual([reference]);
+});
+
+test("Key cache imports the keys again once the DID document changes", () => {
+  const keyCache = new KeyCache();
+  const cryptoProvider = countingProvider();
+  const options = { keyCache, cryptoProvider, now };
+
+  verifyPassURIOffline(uri, { ...options, didDocument: mineDIDDocument });
+  // an equal copy, e.g. read from a file again, keeps the key
+  verifyPassURIOffline(uri, { ...options, didDocument: JSON.parse(JSON.stringify(mineDIDDocument)) });
+  expect(cryptoProvider.imports).toBe(1);
+
+  // a rotated key under the same kid
+  const rotated: DIDDocument = {
+    ...mineDIDDocument,
+    verificationMethod: [{ ...mineDIDDocument.verificationMethod[0], publicKeyJwk: exampleDIDDocument.verificationMethod[0].publicKeyJwk }],
+  };
+  expect(verifyPassURIOffline(uri, { ...options, didDocument: rotated }).violates?.code).toBe("BAD_SIGNATURE");
+  expect(cryptoProvider.imports).toBe(2);
+  expect(verifyPassURIOffline(uri, { ...options, didDocument: mineDIDDocument }).success).toBe(true);
+  expect(cryptoProvider.imports).toBe(3);
+});
+
+test("Key cache notices DID documents edited in place", () => {
+  const keyCache = new KeyCache();
+  const cryptoProvider = countingProvider();
+  const didDocument: DIDDocument = JSON.parse(JSON.stringify(mineDIDDocument));
+  const options = { keyCache, cryptoProvider, now, didDocument };
+
+  expect(verifyPassURIOffline(uri, options).success).toBe(true);
+  didDocument.verificationMethod = [
+    { ...mineDIDDocument.verificationMethod[0], publicKeyJwk: exampleDIDDocument.verificationMethod[0].publicKeyJwk },
+  ];
+  expect(verifyPassURIOffline(uri, options).violates?.code).toBe("BAD_SIGNATURE");
+  expect(cryptoProvider.imports).toBe(2);
+});
+
+test("Key cache keeps keys per provider and drops the least recently used key", () => {
+  const keyCache = new KeyCache({ maxEntries: 1 });
+  const first = countingProvider();
+  const second = countingProvider();
+  const didDocument = mineDIDDocument as DIDDocument;
+
+  keyCache.getPublicKey(reference, didDocument, publicKeyJwk, ES256, first);
+  keyCache.getPublicKey(reference, didDocument, publicKeyJwk, ES256, second);
+  keyCache.getPublicKey(reference, didDocument, publicKeyJwk, ES256, second);
+  expect([first.imports, second.imports]).toEqual([1, 1]);
+
+  keyCache.getPublicKey(`${mineDIDDocument.id}#other`, didDocument, publicKeyJwk, ES256, second);
+  expect(Array.from(keyCache.entries.keys())).toEqual([`${mineDIDDocument.id}#other`]);
+
+  // the DID document is forgotten along with the last key of its issuer
+  keyCache.getPublicKey(`${exampleDIDDocument.id}#key-1`, exampleDIDDocument, publicKeyJwk, ES256, second);
+  expect(Array.from(keyCache.didDocuments.keys())).toEqual([exampleDIDDocument.id]);
+
+  keyCache.clear(exampleDIDDocument.id);
+  expect(keyCache.entries.size).toBe(0);
+});
+
+test("Key cache forgets failed asynchronous imports", async () => {
+  const keyCache = new KeyCache();
+  let imports = 0;
+  const failing: AsyncCryptoProvider = {
+    importPublicKey: async () => {
+      imports++;
+      throw new Error("HSM unavailable");
+    },
+    verify: async () => true,
+  };
+  const didDocument = mineDIDDocument as DIDDocument;
+  await expect(keyCache.getPublicKey(reference, didDocument, publicKeyJwk, ES256, failing)).rejects.toThrow("HSM unavailable");
+  await expect(keyCache.getPublicKey(reference, didDocument, publicKeyJwk, ES256, failing)).rejects.toThrow("HSM unavailable");
+  expect(imports).toBe(2);
+});
+
+test("Key cache can be turned off", () => {
+  const cryptoProvider = countingProvider();
+  verifyPassURIOffline(uri, { didDocument: mineDIDDocument, keyCache: false, cryptoProvider, now });
+  verifyPassURIOffline(uri, { didDocument: mineDIDDocument, keyCache: false, cryptoProvider, now });
+  expect(cryptoProvider.imports).toBe(2);
+});
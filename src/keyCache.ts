@@ -0,0 +1,132 @@
+import { DIDDocument } from "did-resolver";
+import { SignatureAlgorithm } from "./algorithms";
+import { AsyncCryptoProvider, CryptoProvider, importPublicKey } from "./crypto";
+
+// A cache of imported public keys by absolute key reference (`did#kid`), so that a key is decoded and
+// validated once rather than for every pass it verifies
+// https://nzcp.covid19.health.nz/#did-document
+
+export interface KeyCacheEntry {
+  // the imported key, a promise for asynchronous providers, null when the JWK is not a usable public key
+  publicKey: unknown;
+  // the key was imported by this provider for this algorithm
+  cryptoProvider: CryptoProvider | AsyncCryptoProvider;
+  algorithm: SignatureAlgorithm;
+}
+
+export type KeyCacheOptions = {
+  // how many keys are kept, the least recently used key is dropped first, defaults to 1000
+  maxEntries?: number;
+};
+
+export class KeyCache {
+  maxEntries: number;
+  // keys by absolute key reference, in order of use
+  entries = new Map<string, KeyCacheEntry>();
+  // the serialisation of the DID document the keys of every issuer with cached keys were imported from, to detect changes
+  didDocuments = new Map<string, string>();
+
+  constructor(options: KeyCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * gets an imported public key, importing it on a miss
+   * @param absoluteKeyReference `did#kid`
+   * @param didDocument the DID document of the issuer, when it changes every key of the issuer is imported again
+   * @param publicKeyJwk the public key JWK of the verification method
+   * @param algorithm the algorithm the key verifies
+   * @param cryptoProvider the provider importing the key
+   * @returns {unknown} the key imported by the provider, a promise for asynchronous providers
+   */
+  getPublicKey<K>(
+    absoluteKeyReference: string,
+    didDocument: DIDDocument,
+    publicKeyJwk: JsonWebKey,
+    algorithm: SignatureAlgorithm,
+    cryptoProvider: CryptoProvider<K> | AsyncCryptoProvider<K>
+  ): K | null | Promise<K | null> {
+    const did = absoluteKeyReference.slice(0, absoluteKeyReference.indexOf("#"));
+    this.checkDIDDocument(did, didDocument);
+
+    const entry = this.entries.get(absoluteKeyReference);
+    this.entries.delete(absoluteKeyReference);
+    if (
+      entry &&
+      entry.cryptoProvider === cryptoProvider &&
+      entry.algorithm === algorithm
+    ) {
+      this.entries.set(absoluteKeyReference, entry);
+      return entry.publicKey as K | null | Promise<K | null>;
+    }
+
+    let publicKey = importPublicKey(publicKeyJwk, algorithm, cryptoProvider);
+    if (publicKey && typeof (publicKey as Promise<K | null>).then === "function") {
+      // a failed import is not kept, so the next pass tries again
+      publicKey = (publicKey as Promise<K | null>).catch((err) => {
+        if (this.entries.get(absoluteKeyReference)?.publicKey === publicKey) {
+          this.evict(absoluteKeyReference);
+        }
+        throw err;
+      });
+    }
+    this.entries.set(absoluteKeyReference, {
+      publicKey,
+      cryptoProvider: cryptoProvider as CryptoProvider | AsyncCryptoProvider,
+      algorithm,
+    });
+    if (this.entries.size > this.maxEntries) {
+      this.evict(this.entries.keys().next().value);
+    }
+    return publicKey;
+  }
+
+  /**
+   * drops the keys of an issuer, or every key
+   * @param did the issuer DID, defaults to every issuer
+   */
+  clear(did?: string): void {
+    if (did === undefined) {
+      this.entries.clear();
+      this.didDocuments.clear();
+      return;
+    }
+    this.didDocuments.delete(did);
+    Array.from(this.entries.keys())
+      .filter((reference) => reference.startsWith(`${did}#`))
+      .forEach((reference) => this.entries.delete(reference));
+  }
+
+  /**
+   * drops the keys of the issuer when its DID document is not the one they were imported from
+   * @param did the issuer DID
+   * @param didDocument the current DID document of the issuer
+   */
+  checkDIDDocument(did: string, didDocument: DIDDocument): void {
+    // always compared by serialisation, as a DID document may have been edited in place
+    const json = JSON.stringify(didDocument);
+    if (this.didDocuments.get(did) !== json) {
+      this.clear(did);
+    }
+    this.didDocuments.set(did, json);
+  }
+
+  /**
+   * drops a key, and the DID document of its issuer once no other key of the issuer is cached
+   * @param absoluteKeyReference `did#kid`
+   */
+  evict(absoluteKeyReference: string): void {
+    this.entries.delete(absoluteKeyReference);
+    const did = absoluteKeyReference.slice(0, absoluteKeyReference.indexOf("#"));
+    if (
+      !Array.from(this.entries.keys()).some((reference) =>
+        reference.startsWith(`${did}#`)
+      )
+    ) {
+      this.didDocuments.delete(did);
+    }
+  }
+}
+
+// used by verifyPassURI, verifyPassURIOffline and the batch functions unless a cache is passed in the options
+export const defaultKeyCache = new KeyCache();
@@ -0,0 +1,35 @@
+import { getDescription, localiseViolates, registerCatalogue } from "./locale";
+import { Violation } from "./violation";
+
+test("Violations default to the English description for their code", () => {
+  const violation = new Violation({ code: "EXPIRED", message: "", section: "2.1.0.4.3", link: "" });
+  expect(violation.violates.description).toBe("The COVID Pass has expired.");
+  // a description given to the violation is kept
+  expect(new Violation({ code: "EXPIRED", message: "", section: "", link: "", description: "Old" }).violates.description).toBe("Old");
+});
+
+test("Te reo Māori descriptions are built in", () => {
+  expect(getDescription("EXPIRED", "mi")).toBe("Kua pau te wā o te Uruwhenua COVID.");
+  // region subtags fall back to the language
+  expect(getDescription("EXPIRED", "mi-NZ")).toBe("Kua pau te wā o te Uruwhenua COVID.");
+});
+
+test("Unknown locales and missing codes fall back to English", () => {
+  expect(getDescription("REVOKED_PASS", "xx")).toBe("The COVID Pass has been revoked.");
+  registerCatalogue("sm", { EXPIRED: "Ua uma le aoga o le COVID Pass." });
+  expect(getDescription("EXPIRED", "SM")).toBe("Ua uma le aoga o le COVID Pass.");
+  expect(getDescription("REVOKED_PASS", "sm")).toBe("The COVID Pass has been revoked.");
+});
+
+test("Registering a catalogue for a locale adds to it", () => {
+  registerCatalogue("to", { EXPIRED: "Kuo 'osi 'a e COVID Pass." });
+  registerCatalogue("to", { REVOKED_PASS: "Kuo fakata'e'aonga'i 'a e COVID Pass." });
+  expect(getDescription("EXPIRED", "to")).toBe("Kuo 'osi 'a e COVID Pass.");
+  expect(getDescription("REVOKED_PASS", "to")).toBe("Kuo fakata'e'aonga'i 'a e COVID Pass.");
+});
+
+test("Localising keeps everything but the description", () => {
+  const { violates } = new Violation({ code: "NOT_YET_ACTIVE", message: "nbf", section: "2.1.0.3.3", link: "https://" });
+  expect(localiseViolates(violates)).toBe(violates);
+  expect(localiseViolates(violates, "mi")).toStrictEqual({ ...violates, description: "Kāore anō kia whakahohea te Uruwhenua COVID." });
+});
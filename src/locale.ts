@@ -0,0 +1,155 @@
+import { ViolationCode, Violates } from "./generalTypes";
+
+// Descriptions of violations for pass holders and venue staff, keyed by violation code
+// A catalogue can leave codes out, those descriptions fall back to English
+export type Catalogue = Partial<Record<ViolationCode, string>>;
+
+export const DEFAULT_LOCALE = "en";
+
+const EN_MALFORMED = "The COVID Pass is malformed or has been modified.";
+const EN_NOT_A_PASS = "The QR code is not a valid NZ COVID Pass.";
+
+const en: Record<ViolationCode, string> = {
+  NO_QR_CODE: "No QR code was found in the image.",
+  NOT_NZCP_QR_CODE: EN_NOT_A_PASS,
+  PAYLOAD_NOT_STRING: EN_MALFORMED,
+  MALFORMED_PAYLOAD: EN_NOT_A_PASS,
+  INVALID_PREFIX: EN_NOT_A_PASS,
+  UNSUPPORTED_VERSION: EN_NOT_A_PASS,
+  MALFORMED_BASE32: EN_MALFORMED,
+  MALFORMED: EN_MALFORMED,
+  DECODE_LIMIT_EXCEEDED: EN_MALFORMED,
+  NON_CANONICAL_CBOR: EN_MALFORMED,
+  DUPLICATE_MAP_KEY: EN_MALFORMED,
+  TRAILING_BYTES: EN_MALFORMED,
+  MISSING_KID: EN_MALFORMED,
+  INVALID_ALG: EN_MALFORMED,
+  MISSING_JTI: EN_MALFORMED,
+  INVALID_CTI: EN_MALFORMED,
+  INVALID_JTI: EN_MALFORMED,
+  MISSING_ISS: EN_MALFORMED,
+  MISSING_NBF: EN_MALFORMED,
+  MISSING_EXP: EN_MALFORMED,
+  NOT_YET_ACTIVE: "The COVID Pass is not yet activated.",
+  EXPIRED: "The COVID Pass has expired.",
+  MISSING_VC: EN_MALFORMED,
+  INVALID_VC_CONTEXT: EN_MALFORMED,
+  INVALID_VC_TYPE: EN_MALFORMED,
+  INVALID_VC_VERSION: EN_NOT_A_PASS,
+  MISSING_CREDENTIAL_SUBJECT: EN_MALFORMED,
+  MISSING_CREDENTIAL_SUBJECT_PROPERTY: "A required detail is missing from the NZ COVID Pass.",
+  INVALID_CREDENTIAL_SUBJECT: "The details in the NZ COVID Pass are not valid.",
+  MISSING_GIVEN_NAME: '"Given Name" missing from NZ COVID Pass.',
+  MISSING_DOB: '"Date of Birth" missing from NZ COVID Pass.',
+  UNTRUSTED_ISSUER: "The COVID Pass was not issued by a trusted issuer.",
+  DID_RESOLUTION_FAILED: "Could not resolve trusted issuer.",
+  VERIFICATION_METHOD_NOT_FOUND: EN_MALFORMED,
+  KEY_NOT_AUTHORIZED: EN_MALFORMED,
+  INVALID_PUBLIC_KEY: EN_MALFORMED,
+  INVALID_KEY_FORMAT: EN_MALFORMED,
+  PRIVATE_KEY_PUBLISHED: EN_MALFORMED,
+  INVALID_KEY_TYPE: EN_MALFORMED,
+  BAD_SIGNATURE: EN_MALFORMED,
+  REVOKED_PASS: "The COVID Pass has been revoked.",
+  REVOKED_KEY: "The COVID Pass has been revoked.",
+  REPLAYED: "The COVID Pass has already been scanned recently.",
+  INTERNAL: "The COVID Pass could not be verified.",
+};
+
+// te reo Māori
+const MI_MALFORMED = "Kua hē te Uruwhenua COVID, kua whakarerekētia rānei.";
+const MI_NOT_A_PASS = "Ehara tēnei waehere QR i te Uruwhenua COVID o Aotearoa e whaimana ana.";
+
+const mi: Record<ViolationCode, string> = {
+  NO_QR_CODE: "Kāore he waehere QR i kitea i te whakaahua.",
+  NOT_NZCP_QR_CODE: MI_NOT_A_PASS,
+  PAYLOAD_NOT_STRING: MI_MALFORMED,
+  MALFORMED_PAYLOAD: MI_NOT_A_PASS,
+  INVALID_PREFIX: MI_NOT_A_PASS,
+  UNSUPPORTED_VERSION: MI_NOT_A_PASS,
+  MALFORMED_BASE32: MI_MALFORMED,
+  MALFORMED: MI_MALFORMED,
+  DECODE_LIMIT_EXCEEDED: MI_MALFORMED,
+  NON_CANONICAL_CBOR: MI_MALFORMED,
+  DUPLICATE_MAP_KEY: MI_MALFORMED,
+  TRAILING_BYTES: MI_MALFORMED,
+  MISSING_KID: MI_MALFORMED,
+  INVALID_ALG: MI_MALFORMED,
+  MISSING_JTI: MI_MALFORMED,
+  INVALID_CTI: MI_MALFORMED,
+  INVALID_JTI: MI_MALFORMED,
+  MISSING_ISS: MI_MALFORMED,
+  MISSING_NBF: MI_MALFORMED,
+  MISSING_EXP: MI_MALFORMED,
+  NOT_YET_ACTIVE: "Kāore anō kia whakahohea te Uruwhenua COVID.",
+  EXPIRED: "Kua pau te wā o te Uruwhenua COVID.",
+  MISSING_VC: MI_MALFORMED,
+  INVALID_VC_CONTEXT: MI_MALFORMED,
+  INVALID_VC_TYPE: MI_MALFORMED,
+  INVALID_VC_VERSION: MI_NOT_A_PASS,
+  MISSING_CREDENTIAL_SUBJECT: MI_MALFORMED,
+  MISSING_CREDENTIAL_SUBJECT_PROPERTY: "Kei te ngaro tētahi taipitopito e hiahiatia ana i te Uruwhenua COVID o Aotearoa.",
+  INVALID_CREDENTIAL_SUBJECT: "Kāore i te tika ngā taipitopito o te Uruwhenua COVID o Aotearoa.",
+  MISSING_GIVEN_NAME: 'Kei te ngaro te "Ingoa Tuatahi" i te Uruwhenua COVID o Aotearoa.',
+  MISSING_DOB: 'Kei te ngaro te "Rā Whānau" i te Uruwhenua COVID o Aotearoa.',
+  UNTRUSTED_ISSUER: "Kāore te Uruwhenua COVID i whakaputaina e tētahi kaiwhakaputa e whakawhirinakitia ana.",
+  DID_RESOLUTION_FAILED: "Kāore i kitea te kaiwhakaputa e whakawhirinakitia ana.",
+  VERIFICATION_METHOD_NOT_FOUND: MI_MALFORMED,
+  KEY_NOT_AUTHORIZED: MI_MALFORMED,
+  INVALID_PUBLIC_KEY: MI_MALFORMED,
+  INVALID_KEY_FORMAT: MI_MALFORMED,
+  PRIVATE_KEY_PUBLISHED: MI_MALFORMED,
+  INVALID_KEY_TYPE: MI_MALFORMED,
+  BAD_SIGNATURE: MI_MALFORMED,
+  REVOKED_PASS: "Kua whakakorehia te Uruwhenua COVID.",
+  REVOKED_KEY: "Kua whakakorehia te Uruwhenua COVID.",
+  REPLAYED: "Kua matawaihia kētia te Uruwhenua COVID i nā tata nei.",
+  INTERNAL: "Kāore i taea te manatoko i te Uruwhenua COVID.",
+};
+
+// registered catalogues by lowercase language tag
+const catalogues = new Map<string, Catalogue>([
+  ["en", en],
+  ["mi", mi],
+]);
+
+/**
+ * registers a catalogue of violation descriptions, merged into any catalogue already registered for the locale
+ * @param locale BCP 47 language tag, e.g. "sm" or "mi-NZ"
+ * @param catalogue descriptions keyed by violation code
+ */
+export const registerCatalogue = (
+  locale: string,
+  catalogue: Catalogue
+): void => {
+  const tag = locale.toLowerCase();
+  catalogues.set(tag, { ...catalogues.get(tag), ...catalogue });
+};
+
+/**
+ * gets the description of a violation, "mi-NZ" falls back to "mi" and then to English
+ * @param code the violation code
+ * @param locale BCP 47 language tag, defaults to English
+ * @returns {string} the description
+ */
+export const getDescription = (
+  code: ViolationCode,
+  locale: string = DEFAULT_LOCALE
+): string => {
+  const tag = locale.toLowerCase();
+  return (
+    catalogues.get(tag)?.[code] ??
+    catalogues.get(tag.split("-")[0])?.[code] ??
+    catalogues.get(DEFAULT_LOCALE)?.[code] ??
+    en[code]
+  );
+};
+
+// the violation with its description in the locale, violations keep the English description until a result is built
+export const localiseViolates = (
+  violates: Violates,
+  locale?: string
+): Violates =>
+  locale
+    ? { ...violates, description: getDescription(violates.code, locale) }
+    : violates;
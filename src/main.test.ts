@@ -1,5 +1,7 @@
-import { DID_DOCUMENTS, TRUSTED_ISSUERS, verifyPassURI, verifyPassURIOffline } from "./main";
+import { createPassURI, DenyList, MemorySeenStore, verifyPassURIs, verifyPassURIsIterator, DIDCache, DID_DOCUMENTS, KeyCache, TRUSTED_ISSUERS, verifyPassURI, verifyPassURIOffline } from "./main";
 import dotenv from "dotenv";
+import * as crypto from "./crypto";
+import { base32 } from "rfc4648";
 
 // DID document which works with the example passes specified in v1 of NZ COVID Pass - Technical Specification
 // https://nzcp.covid19.health.nz/.well-known/did.json
@@ -9,6 +11,10 @@ import exampleDIDDocument from "./exampleDIDDocument.json";
 // https://nzcp.identity.health.nz/.well-known/did.json
 import liveDIDDocument from "./liveDIDDocument.json";
 
+// DID document and private key for minting test passes
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
 dotenv.config();
 
 // This is the list of trusted issuers which works with the example passes specified in v1 of NZ COVID Pass - Technical Specification
@@ -254,3 +260,426 @@ test("offline usage, use hard coded DID document (same as the previous call). wi
   expect(result.success).toBe(false)
 })
 
+
+// Custom Test: strict decoding rejects data appended after the signature
+test("offline usage, strict mode rejects a pass with trailing bytes", () => {
+  const [, base32EncodedCWT] = EXAMPLE_PASS.split("NZCP:/1/");
+  const appended = base32.stringify(
+    new Uint8Array([...base32.parse(base32EncodedCWT), 0x00]),
+    { pad: false }
+  );
+  const uri = `NZCP:/1/${appended}`;
+  expect(
+    verifyPassURIOffline(uri, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE }).success
+  ).toBe(true);
+
+  const result = verifyPassURIOffline(uri, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, strict: true });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("RFC8949.F");
+});
+
+test("offline usage, strict mode accepts a well-formed pass", () => {
+  const result = verifyPassURIOffline(EXAMPLE_PASS, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, strict: true });
+  expect(result.success).toBe(true);
+});
+
+// Custom Test: report every violation instead of stopping at the first
+test("offline usage, allViolations lists every independent violation", () => {
+  const uri = createPassURI(
+    {
+      jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+      nbf: 1641679750,
+      exp: 1673215750,
+      vc: {
+        "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+        version: "2.0.0",
+        type: ["VerifiableCredential", "PublicCovidPass"],
+        credentialSubject: { givenName: "", familyName: "Star", dob: "1960-04-16" },
+      },
+    },
+    { privateKeyJwk: minePrivateKey, kid: "02", iss: mineDIDDocument.id }
+  );
+
+  const firstOnly = verifyPassURIOffline(uri, { didDocument: mineDIDDocument });
+  expect(firstOnly.success).toBe(false);
+  expect(firstOnly.violates?.section).toBe("5.1.1");
+  expect(firstOnly.violations).toBeUndefined();
+
+  const result = verifyPassURIOffline(uri, { didDocument: mineDIDDocument, allViolations: true });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("5.1.1");
+  expect(result.violations?.map((v) => v.section)).toStrictEqual(["5.1.1", "2.1.0.4.3", "2.3.8", "2.4.1.2.1"]);
+  expect(result.credentialSubject?.familyName).toBe("Star");
+  expect(result.raw).toBeTruthy();
+});
+
+test("offline usage, allViolations on a valid pass has no violations", () => {
+  const result = verifyPassURIOffline(EXAMPLE_PASS, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, allViolations: true });
+  expect(result.success).toBe(true);
+  expect(result.violations).toStrictEqual([]);
+});
+
+test("offline usage, allViolations still reports a malformed pass", () => {
+  const result = verifyPassURIOffline(notBase32, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, allViolations: true });
+  expect(result.success).toBe(false);
+  expect(result.violations?.map((v) => v.section)).toStrictEqual(["4.7"]);
+});
+
+test("offline usage, allViolations reports an untrusted issuer alongside the claims", () => {
+  const result = verifyPassURIOffline(expiredPass, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    trustedIssuer: TRUSTED_ISSUERS.MOH_LIVE,
+    allViolations: true,
+  });
+  expect(result.success).toBe(false);
+  expect(result.violations?.map((v) => v.section)).toStrictEqual(["6.3", "2.1.0.4.3"]);
+});
+
+test("offline usage, expired pass is successful when verified at an earlier time", () => {
+  const result = verifyPassURIOffline(expiredPass, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    now: new Date("2021-06-01T00:00:00.000Z"),
+  });
+  expect(result.success).toBe(true);
+  expect(result.credentialSubject?.givenName).toBe("Jack");
+});
+
+test("offline usage, now can be a function returning the verification time", () => {
+  const now = jest.fn(() => new Date("2021-06-01T00:00:00.000Z"));
+  const result = verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now });
+  expect(result.success).toBe(true);
+  expect(now).toHaveBeenCalledTimes(1);
+});
+
+test("offline usage, clock skew tolerates a pass that expired moments ago", () => {
+  // expiredPass expires at 2021-10-26T20:05:31.000Z
+  const now = new Date("2021-10-26T20:06:01.000Z");
+  const withoutSkew = verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now });
+  expect(withoutSkew.success).toBe(false);
+  expect(withoutSkew.violates?.section).toBe("2.1.0.4.3");
+
+  const withSkew = verifyPassURIOffline(expiredPass, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    now,
+    clockSkewSeconds: 60,
+  });
+  expect(withSkew.success).toBe(true);
+});
+
+test("offline usage, clock skew tolerates a pass that becomes active moments from now", () => {
+  // notActivePass becomes active at 2026-11-02T20:05:31.000Z
+  const now = new Date("2026-11-02T20:05:01.000Z");
+  const withoutSkew = verifyPassURIOffline(notActivePass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now });
+  expect(withoutSkew.success).toBe(false);
+  expect(withoutSkew.violates?.section).toBe("2.1.0.3.3");
+
+  const withSkew = verifyPassURIOffline(notActivePass, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    now,
+    clockSkewSeconds: 60,
+  });
+  expect(withSkew.success).toBe(true);
+});
+
+test("Standard usage, resolves DID document through the supplied DID cache", async () => {
+  const resolve = jest.fn(async () => ({
+    didResolutionMetadata: {},
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    didDocumentMetadata: {},
+  }));
+  const didCache = new DIDCache({ resolve });
+  const first = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, didCache });
+  const second = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, didCache });
+  expect(first.success).toBe(true);
+  expect(second.success).toBe(true);
+  expect(resolve).toHaveBeenCalledTimes(1);
+});
+
+test("Standard usage, unresolvable DID document through the DID cache is unsuccessful", async () => {
+  const didCache = new DIDCache({
+    resolve: async () => ({ didResolutionMetadata: { error: "notFound" }, didDocument: null, didDocumentMetadata: {} }),
+  });
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, didCache });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("DID-CORE.1");
+});
+
+const DID_KEY_ISSUER = "did:key:zDnaeQnP2RwfT4F6tnVFnxWLYJCLSfFgQGdyPhXbaRDVWP4Wp";
+const DID_JWK_ISSUER =
+  "did:jwk:eyJrdHkiOiJFQyIsImNydiI6IlAtMjU2IiwieCI6IkJUcTZ5blVfSmRJQlN0eHNSbUVES2tkTU9UMlg5NDVUQlRoV0RJY05PZTAiLCJ5IjoiRi00aG5kV2tNSHpBOXJpS2w5anFib2NCVVJFYW02elBWelBzVWlPeERZdyJ9";
+const issuedClaims = {
+  jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+  nbf: 1641679750,
+  exp: 1956007750,
+  vc: {
+    "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+    version: "1.0.0",
+    type: ["VerifiableCredential", "PublicCovidPass"],
+    credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+  },
+};
+
+test("Standard usage, resolves a did:key issuer", async () => {
+  const kid = DID_KEY_ISSUER.slice("did:key:".length);
+  const uri = createPassURI(issuedClaims, { privateKeyJwk: minePrivateKey, kid, iss: DID_KEY_ISSUER });
+  const result = await verifyPassURI(uri, { trustedIssuer: DID_KEY_ISSUER });
+  expect(result.success).toBe(true);
+  expect(result.credentialSubject?.givenName).toBe("Patrick");
+});
+
+test("Standard usage, resolves a did:jwk issuer", async () => {
+  const uri = createPassURI(issuedClaims, { privateKeyJwk: minePrivateKey, kid: "0", iss: DID_JWK_ISSUER });
+  const result = await verifyPassURI(uri, { trustedIssuer: DID_JWK_ISSUER });
+  expect(result.success).toBe(true);
+});
+
+test("Standard usage, the DID document from a custom resolver is checked", async () => {
+  const resolve = jest.fn(async () => ({
+    didResolutionMetadata: {},
+    didDocument: { ...DID_DOCUMENTS.MOH_EXAMPLE, assertionMethod: [] },
+    didDocumentMetadata: {},
+  }));
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, resolver: { resolve } });
+  expect(resolve).toHaveBeenCalledWith(TRUSTED_ISSUERS.MOH_EXAMPLE);
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("5.1.1");
+});
+
+test("Standard usage, resolves DID document with a custom fetch", async () => {
+  const fetch = jest.fn(async () => ({ status: 200, statusText: "OK", json: async () => DID_DOCUMENTS.MOH_EXAMPLE }));
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, fetch });
+  expect(fetch).toHaveBeenCalledTimes(1);
+  expect(result.success).toBe(true);
+});
+
+// jti and absolute key reference of EXAMPLE_PASS
+const EXAMPLE_PASS_JTI = "urn:uuid:60a4f54d-4e30-4332-be33-ad78b1eafa4b";
+const EXAMPLE_PASS_KEY = "did:web:nzcp.covid19.health.nz#key-1";
+
+test("offline usage, pass with a revoked jti is unsuccessful", () => {
+  const result = verifyPassURIOffline(EXAMPLE_PASS, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    revocationList: new DenyList([EXAMPLE_PASS_JTI]),
+  });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("REVOCATION.1");
+  expect(result.credentialSubject?.givenName).toBe("Jack");
+});
+
+test("offline usage, pass signed by a revoked key is unsuccessful", () => {
+  const result = verifyPassURIOffline(EXAMPLE_PASS, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    revocationList: new DenyList([EXAMPLE_PASS_KEY]),
+  });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("REVOCATION.2");
+});
+
+test("offline usage, pass not on the revocation list is successful", () => {
+  const result = verifyPassURIOffline(EXAMPLE_PASS, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    revocationList: new DenyList(["urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c"]),
+  });
+  expect(result.success).toBe(true);
+});
+
+test("offline usage, a forged pass on the revocation list has a bad signature", () => {
+  const result = verifyPassURIOffline(badPublicKeyPass, {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    revocationList: new DenyList([EXAMPLE_PASS_JTI, EXAMPLE_PASS_KEY]),
+  });
+  expect(result.success).toBe(false);
+  expect(result.violates?.code).toBe("BAD_SIGNATURE");
+});
+
+test("Standard usage, pass with a revoked jti is unsuccessful", async () => {
+  const didCache = new DIDCache({
+    resolve: async () => ({ didResolutionMetadata: {}, didDocument: DID_DOCUMENTS.MOH_EXAMPLE, didDocumentMetadata: {} }),
+  });
+  const result = await verifyPassURI(EXAMPLE_PASS, {
+    trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE,
+    didCache,
+    revocationList: new DenyList([EXAMPLE_PASS_JTI, EXAMPLE_PASS_KEY]),
+    allViolations: true,
+  });
+  expect(result.success).toBe(false);
+  expect(result.violations?.map((v) => v.section)).toStrictEqual(["REVOCATION.1", "REVOCATION.2"]);
+});
+
+test("offline usage, a pass scanned repeatedly within the window has a warning", () => {
+  const seenStore = new MemorySeenStore();
+  const options = { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, seenStore, now: new Date("2026-01-01T00:00:00.000Z") };
+  const first = verifyPassURIOffline(EXAMPLE_PASS, options);
+  expect(first.success).toBe(true);
+  expect(first.warnings).toBeUndefined();
+
+  const second = verifyPassURIOffline(EXAMPLE_PASS, options);
+  expect(second.success).toBe(true);
+  expect(second.warnings?.map((w) => w.section)).toStrictEqual(["REPLAY.1"]);
+
+  // outside of the default 5 minute window the earlier scans no longer count
+  const later = verifyPassURIOffline(EXAMPLE_PASS, { ...options, now: new Date("2026-01-01T00:10:00.000Z") });
+  expect(later.warnings).toBeUndefined();
+});
+
+test("offline usage, a replayed pass can be rejected", () => {
+  const seenStore = new MemorySeenStore();
+  const options = {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    seenStore,
+    replayPolicy: { maxScans: 2, windowSeconds: 60, reject: true },
+  };
+  expect(verifyPassURIOffline(EXAMPLE_PASS, options).success).toBe(true);
+  expect(verifyPassURIOffline(EXAMPLE_PASS, options).success).toBe(true);
+  const third = verifyPassURIOffline(EXAMPLE_PASS, options);
+  expect(third.success).toBe(false);
+  expect(third.violates?.section).toBe("REPLAY.1");
+  expect(third.credentialSubject?.givenName).toBe("Jack");
+});
+
+test("offline usage, passes that fail verification are not recorded", () => {
+  const seenStore = new MemorySeenStore();
+  const record = jest.spyOn(seenStore, "record");
+  const result = verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, seenStore });
+  expect(result.success).toBe(false);
+  expect(record).not.toHaveBeenCalled();
+});
+
+test("Standard usage, a pass is recorded in an async seen store", async () => {
+  const record = jest.fn(async () => 2);
+  const didCache = new DIDCache({
+    resolve: async () => ({ didResolutionMetadata: {}, didDocument: DID_DOCUMENTS.MOH_EXAMPLE, didDocumentMetadata: {} }),
+  });
+  const now = new Date("2026-01-01T00:00:00.000Z");
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, didCache, now, seenStore: { record } });
+  expect(record).toHaveBeenCalledWith(EXAMPLE_PASS_JTI, now.getTime() / 1000, 300);
+  expect(result.success).toBe(true);
+  expect(result.warnings?.[0].section).toBe("REPLAY.1");
+});
+
+test("Standard usage, a resolver returning no DID document is unsuccessful", async () => {
+  const resolve = async () => ({ didResolutionMetadata: {}, didDocument: null, didDocumentMetadata: {} });
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, resolver: { resolve } });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("DID-CORE.1");
+});
+
+test("Batch usage, verifies offline and counts failures by section", async () => {
+  const batch = await verifyPassURIs([EXAMPLE_PASS, expiredPass, notBase32, EXAMPLE_PASS], {
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+  });
+  expect(batch.results.map((r) => r.success)).toStrictEqual([true, false, false, true]);
+  expect(batch.counts).toStrictEqual({
+    total: 4,
+    success: 2,
+    failure: 2,
+    bySection: { "2.1.0.4.3": 1, "4.7": 1 },
+  });
+});
+
+test("Batch usage, resolves every issuer and imports every key once", async () => {
+  const resolve = jest.fn(async () => ({
+    didResolutionMetadata: {},
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    didDocumentMetadata: {},
+  }));
+  const importPublicKey = jest.spyOn(crypto, "importPublicKey");
+  try {
+    const batch = await verifyPassURIs([EXAMPLE_PASS, EXAMPLE_PASS, EXAMPLE_PASS], {
+      trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE,
+      resolver: { resolve },
+      concurrency: 2,
+      // a fresh cache, as the shared one may already hold the key
+      keyCache: new KeyCache(),
+    });
+    expect(batch.counts.success).toBe(3);
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(importPublicKey).toHaveBeenCalledTimes(1);
+  } finally {
+    importPublicKey.mockRestore();
+  }
+});
+
+test("Batch usage, iterates an async source in order", async () => {
+  async function* uris() {
+    yield notBase32;
+    yield EXAMPLE_PASS;
+    yield expiredPass;
+  }
+  const items = [];
+  const iterator = verifyPassURIsIterator(uris(), { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, concurrency: 1 });
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  expect(items.map((item) => item.index)).toStrictEqual([0, 1, 2]);
+  expect(items.map((item) => item.uri)).toStrictEqual([notBase32, EXAMPLE_PASS, expiredPass]);
+  expect(items.map((item) => item.result.violates?.section ?? null)).toStrictEqual(["4.7", null, "2.1.0.4.3"]);
+});
+
+// Custom Test: every violation has a stable code to branch on
+test("offline usage, violations carry stable codes", () => {
+  const now = new Date("2021-12-01T00:00:00Z");
+  const codeOf = (uri: string, options = {}) =>
+    verifyPassURIOffline(uri, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now, ...options }).violates?.code;
+  expect(codeOf(badPublicKeyPass)).toBe("BAD_SIGNATURE");
+  expect(codeOf(publicKeyNotFoundPass)).toBe("KEY_NOT_AUTHORIZED");
+  expect(codeOf(expiredPass)).toBe("EXPIRED");
+  expect(codeOf(notActivePass)).toBe("NOT_YET_ACTIVE");
+  expect(codeOf(notBase32)).toBe("MALFORMED_BASE32");
+  expect(codeOf("NZCP:/2/2KCEVIQEIVVWK6")).toBe("UNSUPPORTED_VERSION");
+  expect(codeOf(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_LIVE })).toBe("UNTRUSTED_ISSUER");
+  // the section and link are still reported alongside the code
+  expect(verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now }).violates).toMatchObject({
+    code: "EXPIRED",
+    section: "2.1.0.4.3",
+    link: "https://nzcp.covid19.health.nz/#cwt-claims",
+  });
+});
+
+// Custom Test: errors from decoding a truncated pass are reported as MALFORMED instead of an unknown section
+test("offline usage, a pass that does not decode is MALFORMED", () => {
+  const [, base32EncodedCWT] = EXAMPLE_PASS.split("NZCP:/1/");
+  const truncated = base32.stringify(base32.parse(base32EncodedCWT).subarray(0, 40), { pad: false });
+  const result = verifyPassURIOffline(`NZCP:/1/${truncated}`, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(false);
+  expect(result.violates?.code).toBe("MALFORMED");
+  expect(result.violates?.section).toBe("7.1");
+});
+
+// Custom Test: unexpected errors, e.g. from a custom resolver, are reported as INTERNAL
+test("Standard usage, an error thrown by the resolver is INTERNAL", async () => {
+  const resolve = () => Promise.reject(new Error("resolver is down"));
+  const result = await verifyPassURI(EXAMPLE_PASS, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, resolver: { resolve } });
+  expect(result.success).toBe(false);
+  expect(result.violates).toMatchObject({
+    code: "INTERNAL",
+    message: "resolver is down",
+    section: "INTERNAL.1",
+    link: "https://nzcp.covid19.health.nz/#steps-to-verify-a-new-zealand-covid-pass",
+  });
+});
+
+// Custom Test: any error that is not a violation is reported as INTERNAL
+test("offline usage, an error thrown by the seen store is INTERNAL", () => {
+  const seenStore = {
+    record: () => {
+      throw new TypeError("store is full");
+    },
+  };
+  const result = verifyPassURIOffline(EXAMPLE_PASS, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, seenStore });
+  expect(result.success).toBe(false);
+  expect(result.violates).toMatchObject({ code: "INTERNAL", message: "store is full", section: "INTERNAL.1" });
+  expect(result.violates?.description).toBe("The COVID Pass could not be verified.");
+});
+
+// Custom Test: descriptions in te reo Māori
+test("offline usage, violations are described in the locale requested", () => {
+  const now = new Date("2021-12-01T00:00:00Z");
+  const result = verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now, locale: "mi", allViolations: true });
+  expect(result.violates?.description).toBe("Kua pau te wā o te Uruwhenua COVID.");
+  expect(result.violations?.map((v) => v.description)).toStrictEqual(["Kua pau te wā o te Uruwhenua COVID."]);
+  // the message, for developers, stays in English
+  expect(result.violates?.message).toBe("The current datetime is before the value of the `exp` claim");
+  const english = verifyPassURIOffline(expiredPass, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE, now });
+  expect(english.violates?.description).toBe("The COVID Pass has expired.");
+});
@@ -1,16 +1,99 @@
-import { base32 } from "rfc4648";
-import did from "./did";
-import { addBase32Padding } from "./util";
-import { validateCOSESignature } from "./crypto";
-import { parseCWTClaims, parseCWTHeaders, validateCWTClaims } from "./cwt";
-import { VerificationResult, Violates } from "./generalTypes";
-import { decodeCBOR, decodeCOSE } from "./cbor";
-import { CredentialSubject, CWTClaims, CWTHeaders, UnvalidatedCWTClaims } from "./cwtTypes";
-import { DIDDocument } from "did-resolver";
+import did, { createDIDResolver, CreateDIDResolverOptions } from "./did";
+import { FetchLike } from "./didMethods";
+import {
+  DIDCache,
+  DIDCacheEntry,
+  DIDCacheOptions,
+  DIDCacheStorage,
+  defaultDIDCache,
+  MemoryDIDCacheStorage,
+} from "./didCache";
+import { defaultKeyCache, KeyCache, KeyCacheOptions } from "./keyCache";
+import {
+  DIDDocumentIssue,
+  loadDIDDocument,
+  LoadDIDDocumentResult,
+  validateDIDDocument,
+  ValidateDIDDocumentOptions,
+} from "./didDocument";
+import { validatePublicKeyJwk } from "./jwk";
+import { toJsonWebKey2020 } from "./verificationMethods";
+import { currentTimestamp } from "./util";
+import {
+  AsyncCryptoProvider,
+  CryptoProvider,
+  ELLIPTIC_CRYPTO_PROVIDER,
+  getDefaultAsyncCryptoProvider,
+  getDefaultCryptoProvider,
+  importPublicKey,
+  setDefaultAsyncCryptoProvider,
+  setDefaultCryptoProvider,
+  validateCOSESignature,
+} from "./crypto";
+import { parseCWTClaims, parseCWTHeaders } from "./cwt";
+import { VerificationResult, ViolationCode, Violates } from "./generalTypes";
+import { decodeCBOR, DEFAULT_DECODE_LIMITS } from "./cbor";
+import {
+  ClaimsValidationOptions,
+  CredentialSubject,
+  CWTClaims,
+  CWTHeaders,
+  UnvalidatedCWTClaims,
+} from "./cwtTypes";
+import { DIDDocument, DIDResolutionResult, Resolvable } from "did-resolver";
 import exampleDIDDocument from "./exampleDIDDocument.json";
 import liveDIDDocument from "./liveDIDDocument.json";
-import { Violation } from "./violation";
+import { getMalformedViolation, Violation, ViolationCollector } from "./violation";
 import { DecodedCOSEStructure } from "./coseTypes";
+import { DecodeCBORLimits, DecodeCBOROptions } from "./cborTypes";
+import { createPassURI, CreatePassURIOptions } from "./issue";
+import {
+  AsyncSeenStore,
+  DEFAULT_REPLAY_POLICY,
+  MemorySeenStore,
+  ReplayPolicy,
+  SeenStore,
+} from "./seenStore";
+import {
+  BloomFilter,
+  BloomFilterJSON,
+  DenyList,
+  loadRevocationList,
+  RevocationList,
+  RevocationListJSON,
+} from "./revocation";
+import { decodeQR, QRImage } from "./qrDecode";
+import {
+  encodeQR,
+  EncodeQROptions,
+  QRCode,
+  renderQRToPNG,
+  renderQRToSVG,
+  RenderQROptions,
+} from "./qrEncode";
+import { ErrorCorrectionLevel } from "./qr";
+import { Catalogue, localiseViolates, registerCatalogue } from "./locale";
+import {
+  CredentialSubjectProperty,
+  DEFAULT_PASS_TYPES,
+  PassType,
+  PUBLIC_COVID_PASS,
+  registerPassType,
+} from "./passTypes";
+import {
+  DEFAULT_ALGORITHMS,
+  ES256,
+  getAlgorithmByName,
+  registerAlgorithm,
+  SignatureAlgorithm,
+} from "./algorithms";
+import {
+  DEFAULT_PROTOCOL_VERSIONS,
+  getProtocolVersion,
+  PROTOCOL_VERSION_1,
+  ProtocolVersion,
+  registerProtocolVersion,
+} from "./protocolVersions";
 
 // https://nzcp.covid19.health.nz/#did-document
 // The following is the DID Documents for the NZCP DID.
@@ -29,18 +112,122 @@ const TRUSTED_ISSUERS = {
 // The function below implements v1 of NZ COVID Pass - Technical Specification
 // https://nzcp.covid19.health.nz/
 
-export { VerificationResult, CredentialSubject, Violates, DIDDocument };
+export { VerificationResult, CredentialSubject, ViolationCode, Violates, DIDDocument };
 export { DID_DOCUMENTS, TRUSTED_ISSUERS };
+export { DEFAULT_DECODE_LIMITS, DecodeCBORLimits };
+export { createPassURI, CreatePassURIOptions };
+export {
+  DIDCache,
+  DIDCacheEntry,
+  DIDCacheOptions,
+  DIDCacheStorage,
+  MemoryDIDCacheStorage,
+};
+export { KeyCache, KeyCacheOptions };
+export {
+  DIDDocumentIssue,
+  loadDIDDocument,
+  LoadDIDDocumentResult,
+  validateDIDDocument,
+  ValidateDIDDocumentOptions,
+};
+export { createDIDResolver, CreateDIDResolverOptions, FetchLike, Resolvable };
+export {
+  BloomFilter,
+  BloomFilterJSON,
+  DenyList,
+  loadRevocationList,
+  RevocationList,
+  RevocationListJSON,
+};
+export {
+  AsyncSeenStore,
+  DEFAULT_REPLAY_POLICY,
+  MemorySeenStore,
+  ReplayPolicy,
+  SeenStore,
+};
+export { decodeQR, QRImage };
+export { Catalogue, registerCatalogue };
+export {
+  CredentialSubjectProperty,
+  DEFAULT_PASS_TYPES,
+  PassType,
+  PUBLIC_COVID_PASS,
+  registerPassType,
+};
+export {
+  DEFAULT_PROTOCOL_VERSIONS,
+  PROTOCOL_VERSION_1,
+  ProtocolVersion,
+  registerProtocolVersion,
+};
+export {
+  DEFAULT_ALGORITHMS,
+  registerAlgorithm,
+  SignatureAlgorithm,
+};
+export {
+  AsyncCryptoProvider,
+  CryptoProvider,
+  ELLIPTIC_CRYPTO_PROVIDER,
+  setDefaultAsyncCryptoProvider,
+  setDefaultCryptoProvider,
+};
+export {
+  encodeQR,
+  EncodeQROptions,
+  ErrorCorrectionLevel,
+  QRCode,
+  renderQRToPNG,
+  renderQRToSVG,
+  RenderQROptions,
+};
 
-export type VerifyPassURIOfflineOptions = {
+// options shared by verifyPassURI and verifyPassURIOffline
+type VerifyOptions = {
   trustedIssuer?: string | string[];
+  // reject passes whose CBOR is malformed or ambiguous (trailing bytes, duplicate map keys, non-minimal encodings)
+  strict?: boolean;
+  // resource limits for decoding the pass, defaults to DEFAULT_DECODE_LIMITS
+  limits?: Partial<DecodeCBORLimits>;
+  // run every independent check and list all of the violations in `violations`
+  allViolations?: boolean;
+  // verify the pass as of this moment instead of the current time
+  now?: Date | (() => Date);
+  // tolerance in seconds applied to the `nbf` and `exp` checks, for devices whose clocks drift
+  clockSkewSeconds?: number;
+  // deny list of revoked jtis and absolute key references (`did#kid`)
+  revocationList?: RevocationList;
+  // when a pass recorded in the seen store is flagged as replayed, defaults to DEFAULT_REPLAY_POLICY
+  replayPolicy?: ReplayPolicy;
+  // language of the violation descriptions, e.g. "mi", see registerCatalogue for other languages
+  locale?: string;
+  // names of the registered pass types accepted, defaults to DEFAULT_PASS_TYPES
+  passTypes?: string[];
+  // version-identifiers of the registered protocol versions accepted, defaults to DEFAULT_PROTOCOL_VERSIONS
+  protocolVersions?: number[];
+  // names of the registered signature algorithms accepted, defaults to DEFAULT_ALGORITHMS (ES256 only, as the specification requires)
+  algorithms?: string[];
+  // cache for imported public keys, defaults to a shared in-memory cache, `false` imports the key on every call
+  keyCache?: KeyCache | false;
+  // also accept keys published as Multikey, JsonWebKey or EcdsaSecp256r1VerificationKey2019 verification methods,
+  // e.g. as `publicKeyMultibase`, which section 5.1.3 does not allow, defaults to false
+  compatibleKeyFormats?: boolean;
+};
+
+export type VerifyPassURIOfflineOptions = VerifyOptions & {
   didDocument?: DIDDocument | DIDDocument[];
+  // records the jti and scan time of every successfully verified pass to detect replays
+  seenStore?: SeenStore;
+  // verifies the signature, defaults to the default provider (native crypto in node builds, `elliptic` elsewhere)
+  cryptoProvider?: CryptoProvider;
 };
 
-export const verifyPassURIOffline = (
+export const verifyPassURIOffline = <T = CredentialSubject>(
   uri: string,
   options?: VerifyPassURIOfflineOptions
-): VerificationResult => {
+): VerificationResult<T> => {
   const didDocuments =
     options && options.didDocument
       ? Array.isArray(options.didDocument)
@@ -60,61 +247,92 @@ export const verifyPassURIOffline = (
         : [options.trustedIssuer]
       : defaultTrustedIssuers;
 
+  const collector = new ViolationCollector(options?.allViolations);
   try {
-    const decodedCOSEStructure = getCOSEStructure(uri);
-    const cwtHeaders = getCWTHeaders(decodedCOSEStructure);
-    const unvalidatedCWTClaims = getUnvalidatedCWTClaims(decodedCOSEStructure);
-    const iss = getIss(unvalidatedCWTClaims, trustedIssuers);
+    const decodeOptions = {
+      strict: options?.strict,
+      limits: { ...DEFAULT_DECODE_LIMITS, ...options?.limits },
+    };
+    const { protocolVersion, decodedCOSEStructure } = getCOSEStructure(
+      uri,
+      decodeOptions,
+      options?.protocolVersions
+    );
+    const cwtHeaders = getCWTHeaders(
+      decodedCOSEStructure,
+      decodeOptions,
+      collector,
+      options?.algorithms
+    );
+    const unvalidatedCWTClaims = getUnvalidatedCWTClaims(
+      decodedCOSEStructure,
+      decodeOptions
+    );
+    const iss = getIss(unvalidatedCWTClaims, trustedIssuers, collector);
     const didDocument = didDocuments.find((d) => d.id === iss) ?? null;
-    const cwtClaims = getCWTClaims(
+    // a synchronous provider validates the signature straight away
+    validateSignature(
       iss,
       cwtHeaders,
-      unvalidatedCWTClaims,
       didDocument,
-      decodedCOSEStructure
+      decodedCOSEStructure,
+      options?.cryptoProvider ?? getDefaultCryptoProvider(),
+      getKeyCache(options),
+      options?.compatibleKeyFormats ?? false,
+      collector
     );
-    return {
-      success: true,
-      violates: null,
-      expires: new Date(cwtClaims.exp * 1000),
-      validFrom: new Date(cwtClaims.nbf * 1000),
-      credentialSubject: cwtClaims.vc.credentialSubject,
-      raw: cwtClaims,
-    };
+    // after the signature, so that a forged pass is reported as such rather than as revoked
+    checkRevocation(
+      iss,
+      cwtHeaders,
+      unvalidatedCWTClaims,
+      options?.revocationList,
+      collector
+    );
+    const claimsValidationOptions = getClaimsValidationOptions(
+      options,
+      protocolVersion
+    );
+    const cwtClaims = getCWTClaims<T>(
+      unvalidatedCWTClaims,
+      protocolVersion,
+      claimsValidationOptions,
+      collector
+    );
+    // only passes that verified successfully are recorded
+    const replayPolicy = { ...DEFAULT_REPLAY_POLICY, ...options?.replayPolicy };
+    const scans =
+      options?.seenStore && collector.violations.length === 0
+        ? options.seenStore.record(
+            cwtClaims.jti,
+            claimsValidationOptions.timestamp,
+            replayPolicy.windowSeconds
+          )
+        : 0;
+    const warnings = checkReplay(scans, cwtClaims, replayPolicy, collector);
+    return getSuccessResult(cwtClaims, collector, warnings, options?.locale);
   } catch (err) {
-    const error = err as Error;
-    if ("violates" in error) {
-      const violation = error as Violation;
-      const cwtClaims = violation.cwtClaims;
-      return {
-        success: false,
-        violates: violation.violates,
-        expires: cwtClaims?.exp ? new Date(cwtClaims?.exp * 1000) : null,
-        validFrom: cwtClaims?.nbf ? new Date(cwtClaims?.nbf * 1000) : null,
-        credentialSubject: cwtClaims?.vc?.credentialSubject ?? null,
-        raw: cwtClaims,
-      };
-    } else {
-      return {
-        success: false,
-        violates: { message: err.message, section: "unknown", link: "" },
-        expires: null,
-        validFrom: null,
-        credentialSubject: null,
-        raw: null,
-      };
-    }
+    return getFailureResult(err, collector, options?.locale);
   }
 };
 
-export type VerifyPassURIOptions = {
-  trustedIssuer?: string | string[];
+export type VerifyPassURIOptions = VerifyOptions & {
+  // cache for resolved DID documents, defaults to a shared in-memory cache, `false` resolves on every call
+  didCache?: DIDCache | false;
+  // resolver for the issuer DID, e.g. a did-resolver `Resolver`, defaults to resolving did:web, did:key and did:jwk
+  resolver?: Resolvable;
+  // fetch implementation used to resolve did:web issuers, ignored when a resolver is supplied
+  fetch?: FetchLike;
+  // records the jti and scan time of every successfully verified pass to detect replays
+  seenStore?: SeenStore | AsyncSeenStore;
+  // verifies the signature, defaults to the default provider (native crypto in node builds, WebCrypto in browser builds)
+  cryptoProvider?: CryptoProvider | AsyncCryptoProvider;
 };
 
-export const verifyPassURI = async (
+export const verifyPassURI = async <T = CredentialSubject>(
   uri: string,
   options?: VerifyPassURIOptions
-): Promise<VerificationResult> => {
+): Promise<VerificationResult<T>> => {
   const trustedIssuers =
     options && options.trustedIssuer
       ? Array.isArray(options.trustedIssuer)
@@ -122,63 +340,426 @@ export const verifyPassURI = async (
         : [options.trustedIssuer]
       : [TRUSTED_ISSUERS.MOH_LIVE];
 
+  const collector = new ViolationCollector(options?.allViolations);
   try {
-    const decodedCOSEStructure = getCOSEStructure(uri);
-    const cwtHeaders = getCWTHeaders(decodedCOSEStructure);
-    const unvalidatedCWTClaims = getUnvalidatedCWTClaims(decodedCOSEStructure);
-    const iss = getIss(unvalidatedCWTClaims, trustedIssuers);
-
-    const didResult = await did.resolve(iss);
-    if (didResult.didResolutionMetadata.error) {
-      // an error came back from the offical DID reference implementation
-      // this handles a bunch of clauses in https://nzcp.covid19.health.nz/#issuer-identifier
-      throw new Violation({
-        message: didResult.didResolutionMetadata.error,
-        link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
-        section: "DID-CORE.1",
-        description: "Could not resolve trusted issuer.",
-      });
+    const decodeOptions = {
+      strict: options?.strict,
+      limits: { ...DEFAULT_DECODE_LIMITS, ...options?.limits },
+    };
+    const { protocolVersion, decodedCOSEStructure } = getCOSEStructure(
+      uri,
+      decodeOptions,
+      options?.protocolVersions
+    );
+    const cwtHeaders = getCWTHeaders(
+      decodedCOSEStructure,
+      decodeOptions,
+      collector,
+      options?.algorithms
+    );
+    const unvalidatedCWTClaims = getUnvalidatedCWTClaims(
+      decodedCOSEStructure,
+      decodeOptions
+    );
+    const iss = getIss(unvalidatedCWTClaims, trustedIssuers, collector);
+
+    let didDocument: DIDDocument | null = null;
+    if (iss) {
+      const didResult = await resolveDID(iss, options);
+      if (didResult.didResolutionMetadata.error || !didResult.didDocument) {
+        // an error came back from the offical DID reference implementation
+        // this handles a bunch of clauses in https://nzcp.covid19.health.nz/#issuer-identifier
+        collector.report(
+          new Violation({
+            code: "DID_RESOLUTION_FAILED",
+            message: didResult.didResolutionMetadata.error ?? "notFound",
+            link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
+            section: "DID-CORE.1",
+          })
+        );
+      } else {
+        didDocument = didResult.didDocument;
+      }
     }
 
-    const cwtClaims = getCWTClaims(
+    // the key checks are skipped when the DID document could not be resolved
+    await validateSignature(
+      didDocument ? iss : undefined,
+      cwtHeaders,
+      didDocument,
+      decodedCOSEStructure,
+      options?.cryptoProvider ?? getDefaultAsyncCryptoProvider(),
+      getKeyCache(options),
+      options?.compatibleKeyFormats ?? false,
+      collector
+    );
+    // after the signature, so that a forged pass is reported as such rather than as revoked
+    checkRevocation(
       iss,
       cwtHeaders,
       unvalidatedCWTClaims,
-      didResult.didDocument,
-      decodedCOSEStructure
+      options?.revocationList,
+      collector
     );
-    return {
-      success: true,
-      violates: null,
-      expires: new Date(cwtClaims.exp * 1000),
-      validFrom: new Date(cwtClaims.nbf * 1000),
-      credentialSubject: cwtClaims.vc.credentialSubject,
-      raw: cwtClaims,
-    };
+    const claimsValidationOptions = getClaimsValidationOptions(
+      options,
+      protocolVersion
+    );
+    const cwtClaims = getCWTClaims<T>(
+      unvalidatedCWTClaims,
+      protocolVersion,
+      claimsValidationOptions,
+      collector
+    );
+    // only passes that verified successfully are recorded
+    const replayPolicy = { ...DEFAULT_REPLAY_POLICY, ...options?.replayPolicy };
+    const scans =
+      options?.seenStore && collector.violations.length === 0
+        ? await options.seenStore.record(
+            cwtClaims.jti,
+            claimsValidationOptions.timestamp,
+            replayPolicy.windowSeconds
+          )
+        : 0;
+    const warnings = checkReplay(scans, cwtClaims, replayPolicy, collector);
+    return getSuccessResult(cwtClaims, collector, warnings, options?.locale);
+  } catch (err) {
+    return getFailureResult(err, collector, options?.locale);
+  }
+};
+
+const resolveDID = (
+  iss: string,
+  options?: VerifyPassURIOptions
+): Promise<DIDResolutionResult> => {
+  const resolver = options?.resolver
+    ? options.resolver
+    : options?.fetch
+    ? createDIDResolver({ fetch: options.fetch })
+    : undefined;
+  // a custom resolver skips the shared cache, it is only cached in a DID cache passed alongside it
+  const didCache =
+    options?.didCache ?? (resolver ? false : defaultDIDCache);
+  if (didCache) {
+    return resolver
+      ? didCache.resolve(iss, (d) => resolver.resolve(d))
+      : didCache.resolve(iss);
+  }
+  return resolver ? resolver.resolve(iss) : did.resolve(iss);
+};
+
+export type VerifyPassURIsOptions = VerifyPassURIOptions & {
+  // verify against these DID documents instead of resolving the issuers, as verifyPassURIOffline does
+  didDocument?: DIDDocument | DIDDocument[];
+  // how many passes are verified at the same time, defaults to 8
+  concurrency?: number;
+};
+
+export type BatchVerificationItem<T = CredentialSubject> = {
+  index: number;
+  uri: string;
+  result: VerificationResult<T>;
+};
+
+export type BatchVerificationResult<T = CredentialSubject> = {
+  // in the same order as the URIs
+  results: VerificationResult<T>[];
+  counts: {
+    total: number;
+    success: number;
+    failure: number;
+    // failed passes by the section of `violates`
+    bySection: Record<string, number>;
+  };
+};
+
+// Every issuer DID document of a batch is resolved once, from the supplied DID documents or the resolver
+const getBatchOptions = (
+  options?: VerifyPassURIsOptions
+): VerifyPassURIOptions => {
+  const didDocuments = options?.didDocument
+    ? Array.isArray(options.didDocument)
+      ? options.didDocument
+      : [options.didDocument]
+    : null;
+  const resolutions = new Map<string, Promise<DIDResolutionResult>>();
+  const resolve = (iss: string): Promise<DIDResolutionResult> => {
+    let resolution = resolutions.get(iss);
+    if (!resolution) {
+      const didDocument = didDocuments?.find((d) => d.id === iss);
+      resolution = didDocuments
+        ? Promise.resolve({
+            didResolutionMetadata: didDocument ? {} : { error: "notFound" },
+            didDocument: didDocument ?? null,
+            didDocumentMetadata: {},
+          })
+        : resolveDID(iss, options);
+      resolutions.set(iss, resolution);
+    }
+    return resolution;
+  };
+  return {
+    ...options,
+    // like verifyPassURIOffline, trust whatever issuers you specify in didDocuments by default
+    trustedIssuer:
+      options?.trustedIssuer ?? didDocuments?.map((d) => d.id),
+    resolver: { resolve },
+    didCache: false,
+  };
+};
+
+/**
+ * verifies the pass in a QR code image
+ * @param image PNG bytes, or RGBA or greyscale pixels such as canvas ImageData
+ * @param options the options of verifyPassURI
+ * @returns {VerificationResult} the result of verifying the pass
+ */
+export const verifyPassImage = async <T = CredentialSubject>(
+  image: QRImage,
+  options?: VerifyPassURIOptions
+): Promise<VerificationResult<T>> => {
+  try {
+    return await verifyPassURI<T>(getPassURIFromImage(image), options);
   } catch (err) {
-    const error = err as Error;
-    if ("violates" in error) {
-      const violation = error as Violation;
-      const cwtClaims = violation.cwtClaims;
-      return {
-        success: false,
-        violates: violation.violates,
-        expires: cwtClaims?.exp ? new Date(cwtClaims?.exp * 1000) : null,
-        validFrom: cwtClaims?.nbf ? new Date(cwtClaims?.nbf * 1000) : null,
-        credentialSubject: cwtClaims?.vc?.credentialSubject ?? null,
-        raw: cwtClaims,
-      };
+    return getFailureResult(
+      err,
+      new ViolationCollector(options?.allViolations),
+      options?.locale
+    );
+  }
+};
+
+/**
+ * verifies the pass in a QR code image against prefetched DID documents
+ * @param image PNG bytes, or RGBA or greyscale pixels such as canvas ImageData
+ * @param options the options of verifyPassURIOffline
+ * @returns {VerificationResult} the result of verifying the pass
+ */
+export const verifyPassImageOffline = <T = CredentialSubject>(
+  image: QRImage,
+  options?: VerifyPassURIOfflineOptions
+): VerificationResult<T> => {
+  try {
+    return verifyPassURIOffline<T>(getPassURIFromImage(image), options);
+  } catch (err) {
+    return getFailureResult(
+      err,
+      new ViolationCollector(options?.allViolations),
+      options?.locale
+    );
+  }
+};
+
+/**
+ * verifies passes with bounded concurrency, sharing DID documents and public keys between them
+ * @param uris the COVID-19 Pass URIs, e.g. read line by line from a file
+ * @param options the options of verifyPassURI, plus `didDocument` to verify offline and `concurrency`
+ * @returns {AsyncIterableIterator<BatchVerificationItem>} the results, in the same order as the URIs
+ */
+export const verifyPassURIsIterator = <T = CredentialSubject>(
+  uris: Iterable<string> | AsyncIterable<string>,
+  options?: VerifyPassURIsOptions
+): AsyncIterableIterator<BatchVerificationItem<T>> => {
+  const batchOptions = getBatchOptions(options);
+  const concurrency = Math.max(1, options?.concurrency ?? 8);
+  const source =
+    Symbol.asyncIterator in uris
+      ? (uris as AsyncIterable<string>)[Symbol.asyncIterator]()
+      : (uris as Iterable<string>)[Symbol.iterator]();
+  const inFlight: Promise<BatchVerificationItem<T>>[] = [];
+  let index = 0;
+  let exhausted = false;
+
+  // keep up to `concurrency` passes in flight, handing the results out in order
+  const fill = async () => {
+    while (!exhausted && inFlight.length < concurrency) {
+      const next = await source.next();
+      if (next.done) {
+        exhausted = true;
+        return;
+      }
+      const item = { index: index++, uri: next.value };
+      inFlight.push(
+        verifyPassURI<T>(item.uri, batchOptions).then(
+          (result) => ({ ...item, result })
+        )
+      );
+    }
+  };
+
+  // written out by hand, as async generators can not be compiled to es6
+  const iterator: AsyncIterableIterator<BatchVerificationItem<T>> = {
+    async next() {
+      await fill();
+      const item = inFlight.shift();
+      return item
+        ? { done: false, value: await item }
+        : { done: true, value: undefined };
+    },
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+  return iterator;
+};
+
+/**
+ * verifies passes with bounded concurrency, sharing DID documents and public keys between them
+ * @param uris the COVID-19 Pass URIs
+ * @param options the options of verifyPassURI, plus `didDocument` to verify offline and `concurrency`
+ * @returns {BatchVerificationResult} the result of every pass and the counts of successes and failures
+ */
+export const verifyPassURIs = async <T = CredentialSubject>(
+  uris: Iterable<string> | AsyncIterable<string>,
+  options?: VerifyPassURIsOptions
+): Promise<BatchVerificationResult<T>> => {
+  const batch: BatchVerificationResult<T> = {
+    results: [],
+    counts: { total: 0, success: 0, failure: 0, bySection: {} },
+  };
+  const iterator = verifyPassURIsIterator<T>(uris, options);
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    const { result } = next.value;
+    batch.results.push(result);
+    batch.counts.total += 1;
+    if (result.success) {
+      batch.counts.success += 1;
     } else {
-      return {
-        success: false,
-        violates: { message: err.message, section: "unknown", link: "" },
-        expires: null,
-        validFrom: null,
-        credentialSubject: null,
-        raw: null,
-      };
+      const section = result.violates.section;
+      batch.counts.failure += 1;
+      batch.counts.bySection[section] = (batch.counts.bySection[section] ?? 0) + 1;
     }
   }
+  return batch;
+};
+
+const getClaimsValidationOptions = (
+  options: VerifyOptions | undefined,
+  protocolVersion: ProtocolVersion
+): ClaimsValidationOptions => ({
+  timestamp: currentTimestamp(options?.now),
+  clockSkewSeconds: options?.clockSkewSeconds ?? 0,
+  passTypes: options?.passTypes,
+  vcVersions: protocolVersion.vcVersions,
+});
+
+// Not in NZCP spec. The same pass scanned too often in a short window is likely shared between people
+const checkReplay = (
+  scans: number,
+  cwtClaims: CWTClaims<unknown>,
+  replayPolicy: Required<ReplayPolicy>,
+  collector: ViolationCollector
+): Violates[] => {
+  if (scans <= replayPolicy.maxScans) {
+    return [];
+  }
+  const violation = new Violation(
+    {
+      code: "REPLAYED",
+      message: `The pass was scanned ${scans} times within ${replayPolicy.windowSeconds} seconds, more than the ${replayPolicy.maxScans} allowed`,
+      section: "REPLAY.1",
+      link: "https://nzcp.covid19.health.nz/#mapping-jti-cti",
+    },
+    cwtClaims
+  );
+  if (replayPolicy.reject) {
+    collector.report(violation);
+    return [];
+  }
+  return [violation.violates];
+};
+
+const getSuccessResult = <T>(
+  cwtClaims: CWTClaims<T>,
+  collector: ViolationCollector,
+  warnings: Violates[] = [],
+  locale?: string
+): VerificationResult<T> => {
+  // with allViolations nothing has been thrown yet, fail with the first violation found
+  if (collector.violations.length > 0) {
+    throw collector.violations[0];
+  }
+  return {
+    success: true,
+    violates: null,
+    ...(collector.allViolations ? { violations: [] } : {}),
+    ...(warnings.length > 0
+      ? { warnings: warnings.map((w) => localiseViolates(w, locale)) }
+      : {}),
+    expires: new Date(cwtClaims.exp * 1000),
+    validFrom: new Date(cwtClaims.nbf * 1000),
+    credentialSubject: cwtClaims.vc.credentialSubject,
+    raw: cwtClaims,
+  };
+};
+
+const getFailureResult = <T>(
+  err: Error,
+  collector: ViolationCollector,
+  locale?: string
+): VerificationResult<T> => {
+  // Not in NZCP spec. An unexpected error, e.g. from a custom resolver or store, fails verification
+  const violation =
+    "violates" in err
+      ? (err as Violation)
+      : new Violation({
+          code: "INTERNAL",
+          message: err.message,
+          section: "INTERNAL.1",
+          link: "https://nzcp.covid19.health.nz/#steps-to-verify-a-new-zealand-covid-pass",
+        });
+  const violations = collector.violations.includes(violation)
+    ? collector.violations
+    : [...collector.violations, violation];
+  // the raw claims are attached to violations found once the claims were parsed
+  const cwtClaims =
+    violations.find((v) => v.cwtClaims)?.cwtClaims ?? violation.cwtClaims;
+  return {
+    success: false,
+    violates: localiseViolates(violation.violates, locale),
+    ...(collector.allViolations
+      ? { violations: violations.map((v) => localiseViolates(v.violates, locale)) }
+      : {}),
+    expires: cwtClaims?.exp ? new Date(cwtClaims?.exp * 1000) : null,
+    validFrom: cwtClaims?.nbf ? new Date(cwtClaims?.nbf * 1000) : null,
+    credentialSubject: (cwtClaims?.vc?.credentialSubject as T) ?? null,
+    raw: cwtClaims as UnvalidatedCWTClaims<T> | null,
+  };
+};
+
+/**
+ * reads the payload of the QR code in an image
+ * @param image PNG bytes, or RGBA or greyscale pixels
+ * @returns {string} the payload, to be verified as a COVID-19 Pass URI
+ */
+const getPassURIFromImage = (image: QRImage): string => {
+  // Section 4.3
+  // The COVID Pass is encoded as a QR code, the image MUST contain one
+  let payload: string | undefined;
+  try {
+    payload = decodeQR(image);
+  } catch (err) {
+    payload = undefined;
+  }
+  if (payload === undefined) {
+    throw new Violation({
+      code: "NO_QR_CODE",
+      message: "The image MUST contain a readable QR Code",
+      section: "4.3",
+      link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
+    });
+  }
+  // Section 4.4
+  // QR codes other than COVID Passes are told apart before the payload is parsed
+  if (!/^NZCP:\//i.test(payload)) {
+    throw new Violation({
+      code: "NOT_NZCP_QR_CODE",
+      message: "The payload of the QR Code MUST be a COVID Pass beginning with `NZCP:/`",
+      section: "4.4",
+      link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
+    });
+  }
+  return payload;
 };
 
 // TODO: add tests for every error path
@@ -186,9 +767,15 @@ export const verifyPassURI = async (
 /**
  * gets COSE Structure from URI
  * @param uri the COVID-19 Passport URI to be verified
- * @returns {DecodedCOSEStructure} the COSE structure
+ * @param decodeOptions options for the CBOR decoder
+ * @param protocolVersions the version-identifiers accepted, defaults to DEFAULT_PROTOCOL_VERSIONS
+ * @returns the COSE structure and the handler of the protocol version that decoded it
  */
-const getCOSEStructure = (uri: string): DecodedCOSEStructure => {
+const getCOSEStructure = (
+  uri: string,
+  decodeOptions: DecodeCBOROptions,
+  protocolVersions?: number[]
+): { protocolVersion: ProtocolVersion; decodedCOSEStructure: DecodedCOSEStructure } => {
   // Section 4: 2D Barcode Encoding
   // Decoding the payload of the QR Code
   // https://nzcp.covid19.health.nz/#2d-barcode-encoding
@@ -197,10 +784,10 @@ const getCOSEStructure = (uri: string): DecodedCOSEStructure => {
   // QR code payload MUST be a string
   if (typeof uri !== "string") {
     throw new Violation({
+      code: "PAYLOAD_NOT_STRING",
       message: "The payload of the QR Code MUST be a string",
       section: "4.3",
       link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
-      description: "The COVID Pass is malformed or has been modified.",
     });
   }
   // Section 4.4
@@ -209,11 +796,11 @@ const getCOSEStructure = (uri: string): DecodedCOSEStructure => {
   const payloadMatch = uri.match(payloadRegex);
   if (!payloadMatch) {
     throw new Violation({
+      code: "MALFORMED_PAYLOAD",
       message:
         "The payload of the QR Code MUST be in the form `NZCP:/<version-identifier>/<base32-encoded-CWT>`",
       section: "4.4",
       link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
-      description: "The QR code is not a valid NZ COVID Pass.",
     });
   }
 
@@ -223,11 +810,11 @@ const getCOSEStructure = (uri: string): DecodedCOSEStructure => {
   // Check if the payload received from the QR Code begins with the prefix NZCP:/, if it does not then fail.
   if (payloadPrefix !== "NZCP:/") {
     throw new Violation({
+      code: "INVALID_PREFIX",
       message:
         "The payload of the QR Code MUST begin with the prefix of `NZCP:/`",
       section: "4.5",
       link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
-      description: "The QR code is not a valid NZ COVID Pass.",
     });
   }
 
@@ -236,57 +823,37 @@ const getCOSEStructure = (uri: string): DecodedCOSEStructure => {
   // suffix and before the next slash character (/) encountered. If this errors then fail.
   // If the value returned is un-recognized as a major protocol version supported by the verifying software then fail.
   // NOTE - for instance in this version of the specification this value MUST be 1.
-  if (versionIdentifier !== "1") {
+  // Other versions are recognized when they are registered and accepted by the verify options
+  // Only the canonical form of the integer is accepted, e.g. not 01
+  const version = /^[1-9]\d*$/.test(versionIdentifier)
+    ? Number(versionIdentifier)
+    : NaN;
+  const acceptedVersions = protocolVersions ?? DEFAULT_PROTOCOL_VERSIONS;
+  const protocolVersion = acceptedVersions.includes(version)
+    ? getProtocolVersion(version)
+    : undefined;
+  if (!protocolVersion) {
     throw new Violation({
-      message:
-        "The version-identifier portion of the payload for the specification MUST be 1",
+      code: "UNSUPPORTED_VERSION",
+      message: `The version-identifier portion of the payload for the specification MUST be ${acceptedVersions.join(" or ")}`,
       section: "4.6",
       link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
-      description: "The QR code is not a valid NZ COVID Pass.",
     });
   }
 
   // Section 4.7
-  // With the remainder of the payload following the / after the version-identifier, attempt to decode it using base32 as defined by
-  // [RFC4648] NOTE add back in padding if required, if an error is encountered during decoding then fail.
-  let uint8array: Uint8Array;
-  try {
-    uint8array = base32.parse(
-      // from https://nzcp.covid19.health.nz/#2d-barcode-encoding
-      // Some base32 decoding implementations may fail to decode a base32 string that is missing the required padding as defined by [RFC4648].
-      // [addBase32Padding] is a simple javascript snippet designed to show how an implementor can add the required padding to a base32 string.
-      addBase32Padding(base32EncodedCWT)
-    );
-  } catch (error) {
-    throw new Violation({
-      message: "The payload of the QR Code MUST be base32 encoded",
-      section: "4.7",
-      link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
-  }
-
-  // With the decoded payload attempt to decode it as COSE_Sign1 CBOR structure, if an error is encountered during decoding then fail.
-
-  // Decoding this byte string as a CBOR structure and rendering it via the expanded form shown throughout [RFC7049] yields the following.
-  // Let this result be known as the Decoded COSE structure.
-  // d2                -- Tag #18
-  // 84              -- Array, 4 items
-  //   4a            -- Bytes, length: 10
-  //     a204456b65792d310126 -- [0], a204456b65792d310126
-  //   a0            -- [1], {}
-  //   59            -- Bytes, length next 2 bytes
-  //     011f        -- Bytes, length: 287
-  //       a501781e6469643a7765623a6e7a63702e636f76696431392e6865616c74682e6e7a051a61819a0a041a7450400a627663a46840636f6e7465787482782668747470733a2f2f7777772e77332e6f72672f323031382f63726564656e7469616c732f7631782a68747470733a2f2f6e7a63702e636f76696431392e6865616c74682e6e7a2f636f6e74657874732f76316776657273696f6e65312e302e306474797065827456657269666961626c6543726564656e7469616c6f5075626c6963436f766964506173737163726564656e7469616c5375626a656374a369676976656e4e616d65644a61636b6a66616d696c794e616d656753706172726f7763646f626a313936302d30342d3136075060a4f54d4e304332be33ad78b1eafa4b -- [2], a501781e6469643a7765623a6e7a63702e636f76696431392e6865616c74682e6e7a051a61819a0a041a7450400a627663a46840636f6e7465787482782668747470733a2f2f7777772e77332e6f72672f323031382f63726564656e7469616c732f7631782a68747470733a2f2f6e7a63702e636f76696431392e6865616c74682e6e7a2f636f6e74657874732f76316776657273696f6e65312e302e306474797065827456657269666961626c6543726564656e7469616c6f5075626c6963436f766964506173737163726564656e7469616c5375626a656374a369676976656e4e616d65644a61636b6a66616d696c794e616d656753706172726f7763646f626a313936302d30342d3136075060a4f54d4e304332be33ad78b1eafa4b
-  //   58            -- Bytes, length next 1 byte
-  //     40          -- Bytes, length: 64
-  const decodedCOSEStructure = decodeCOSE(uint8array);
-
-  return decodedCOSEStructure;
+  // The remainder of the payload is decoded by the handler of the protocol version
+  return {
+    protocolVersion,
+    decodedCOSEStructure: protocolVersion.decode(base32EncodedCWT, decodeOptions),
+  };
 };
 
 const getCWTHeaders = (
-  decodedCOSEStructure: DecodedCOSEStructure
+  decodedCOSEStructure: DecodedCOSEStructure,
+  decodeOptions: DecodeCBOROptions,
+  collector: ViolationCollector,
+  algorithms: string[] = DEFAULT_ALGORITHMS
 ): Partial<CWTHeaders> => {
   // Decoding the byte string present in the first element of the Decoded COSE structure, as a CBOR structure and rendering it via the expanded form yields the following.
   // Let this result be known as the Decoded CWT protected headers.
@@ -296,11 +863,16 @@ const getCWTHeaders = (
   //   6b65792d31    -- {Val:0}, 6b65792d31
   // 01              -- {Key:1}, 1
   // 26              -- {Val:1}, -7
-  const decodedCWTProtectedHeaders = decodeCBOR(
-    decodedCOSEStructure.value[0] as Uint8Array
-  ) as Map<number, Uint8Array | number>;
-
-  const cwtHeaders = parseCWTHeaders(decodedCWTProtectedHeaders);
+  let cwtHeaders: Partial<CWTHeaders>;
+  try {
+    const decodedCWTProtectedHeaders = decodeCBOR(
+      decodedCOSEStructure.value[0] as Uint8Array,
+      decodeOptions
+    ) as Map<number, Uint8Array | number>;
+    cwtHeaders = parseCWTHeaders(decodedCWTProtectedHeaders);
+  } catch (err) {
+    throw getMalformedViolation(err);
+  }
 
   // Section 7.1
   // https://nzcp.covid19.health.nz/#steps-to-verify-a-new-zealand-covid-pass
@@ -309,199 +881,323 @@ const getCWTHeaders = (
   if (cwtHeaders.kid) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "`kid` header MUST be present in the protected header section of the `COSE_Sign1` structure",
-      section: "2.2.1.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-headers",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_KID",
+        message:
+          "`kid` header MUST be present in the protected header section of the `COSE_Sign1` structure",
+        section: "2.2.1.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-headers",
+      })
+    );
   }
-  if (cwtHeaders.alg === "ES256") {
+  // algorithms other than ES256 are only accepted when the verify options choose them
+  if (cwtHeaders.alg && algorithms.includes(cwtHeaders.alg)) {
     // pass
   } else {
-    throw new Violation({
-      message:
-        "`alg` claim value MUST be present in the protected header section of the `COSE_Sign1` structure and MUST be set to the value corresponding to `ES256` algorithm registration",
-      section: "2.2.2.2",
-      link: "https://nzcp.covid19.health.nz/#cwt-headers",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "INVALID_ALG",
+        message: `\`alg\` claim value MUST be present in the protected header section of the \`COSE_Sign1\` structure and MUST be set to the value corresponding to ${algorithms
+          .map((algorithm) => `\`${algorithm}\``)
+          .join(" or ")} algorithm registration`,
+        section: "2.2.2.2",
+        link: "https://nzcp.covid19.health.nz/#cwt-headers",
+      })
+    );
   }
   return cwtHeaders;
 };
 const getUnvalidatedCWTClaims = (
-  decodedCOSEStructure: DecodedCOSEStructure
-): UnvalidatedCWTClaims => {
-  const rawCWTClaims = decodeCBOR(
-    decodedCOSEStructure.value[2] as Uint8Array
-  ) as Map<number | string, string | number | Uint8Array | unknown>;
-
-  const cwtClaims = parseCWTClaims(rawCWTClaims);
-  return cwtClaims;
+  decodedCOSEStructure: DecodedCOSEStructure,
+  decodeOptions: DecodeCBOROptions
+): UnvalidatedCWTClaims<unknown> => {
+  try {
+    const rawCWTClaims = decodeCBOR(
+      decodedCOSEStructure.value[2] as Uint8Array,
+      decodeOptions
+    ) as Map<number | string, string | number | Uint8Array | unknown>;
+    return parseCWTClaims(rawCWTClaims);
+  } catch (err) {
+    throw getMalformedViolation(err);
+  }
 };
 
 const getIss = (
-  unvalidatedCWTClaims: UnvalidatedCWTClaims,
-  trustedIssuers: string[]
-): string => {
+  unvalidatedCWTClaims: UnvalidatedCWTClaims<unknown>,
+  trustedIssuers: string[],
+  collector: ViolationCollector
+): string | undefined => {
   const iss = unvalidatedCWTClaims.iss;
 
   // Section 2.1.0.2.1
   // Issuer claim MUST be present
   if (!iss) {
-    throw new Violation({
-      message: "Issuer claim MUST be present",
-      section: "2.1.0.2.1",
-      link: "https://nzcp.covid19.health.nz/#cwt-claims",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "MISSING_ISS",
+        message: "Issuer claim MUST be present",
+        section: "2.1.0.2.1",
+        link: "https://nzcp.covid19.health.nz/#cwt-claims",
+      })
+    );
+    return undefined;
   }
 
   // TODO: section number?
   // // Validate that the iss claim in the decoded CWT payload is an issuer you trust refer to the trusted issuers section for a trusted list, if not then fail.
   // are we supporting other issuers?
   if (!trustedIssuers.includes(iss)) {
-    throw new Violation({
-      message:
-        "`iss` value reported in the pass does not match one listed in the trusted issuers",
-      link: "https://nzcp.covid19.health.nz/#trusted-issuers",
-      section: "6.3",
-      description: "The COVID Pass was not issued by a trusted issuer.",
-    });
+    collector.report(
+      new Violation({
+        code: "UNTRUSTED_ISSUER",
+        message:
+          "`iss` value reported in the pass does not match one listed in the trusted issuers",
+        link: "https://nzcp.covid19.health.nz/#trusted-issuers",
+        section: "6.3",
+      })
+    );
+    return undefined;
   }
   return iss;
 };
 
-const getCWTClaims = (
-  iss: string,
+const checkRevocation = (
+  iss: string | undefined,
+  cwtHeaders: Partial<CWTHeaders>,
+  unvalidatedCWTClaims: UnvalidatedCWTClaims<unknown>,
+  revocationList: RevocationList | undefined,
+  collector: ViolationCollector
+): void => {
+  if (!revocationList) {
+    return;
+  }
+
+  // Not in NZCP spec. A pass can be revoked by its jti, which uniquely identifies it
+  // https://nzcp.covid19.health.nz/#mapping-jti-cti
+  if (unvalidatedCWTClaims.jti && revocationList.has(unvalidatedCWTClaims.jti)) {
+    collector.report(
+      new Violation(
+        {
+          code: "REVOKED_PASS",
+          message: "The `jti` of the pass is on the revocation list",
+          section: "REVOCATION.1",
+          link: "https://nzcp.covid19.health.nz/#mapping-jti-cti",
+        },
+        unvalidatedCWTClaims
+      )
+    );
+  }
+
+  // Not in NZCP spec. Every pass signed by a compromised key can be revoked by its absolute key reference
+  // https://nzcp.covid19.health.nz/#did-document
+  if (iss && cwtHeaders.kid && revocationList.has(`${iss}#${cwtHeaders.kid}`)) {
+    collector.report(
+      new Violation(
+        {
+          code: "REVOKED_KEY",
+          message:
+            "The public key referenced by the decoded CWT is on the revocation list",
+          section: "REVOCATION.2",
+          link: "https://nzcp.covid19.health.nz/#did-document",
+        },
+        unvalidatedCWTClaims
+      )
+    );
+  }
+};
+
+const getKeyCache = (options?: VerifyOptions): KeyCache | undefined =>
+  options?.keyCache === false ? undefined : options?.keyCache ?? defaultKeyCache;
+
+const getCWTClaims = <T>(
+  unvalidatedCWTClaims: UnvalidatedCWTClaims<unknown>,
+  protocolVersion: ProtocolVersion,
+  claimsValidationOptions: ClaimsValidationOptions,
+  collector: ViolationCollector
+): CWTClaims<T> => {
+  // TODO: section number?
+  // With the payload returned from the COSE_Sign1 decoding, check if it is a valid CWT containing the claims defined in the data model section, if these conditions are not meet then fail.
+  const validatedCwtClaims = protocolVersion.validateClaims(
+    unvalidatedCWTClaims,
+    claimsValidationOptions,
+    collector
+  ) as CWTClaims<T>;
+  return validatedCwtClaims;
+};
+
+// runs `fn` on the value straight away, or once the promise resolves, so that synchronous providers verify synchronously
+const whenResolved = <V, R>(
+  value: V | Promise<V>,
+  fn: (value: V) => R | Promise<R>
+): R | Promise<R> =>
+  value && typeof (value as Promise<V>).then === "function"
+    ? (value as Promise<V>).then(fn)
+    : fn(value as V);
+
+const validateSignature = (
+  iss: string | undefined,
   cwtHeaders: Partial<CWTHeaders>,
-  unvalidatedCWTClaims: UnvalidatedCWTClaims,
   didDocument: DIDDocument | null,
-  decodedCOSEStructure: DecodedCOSEStructure
-): CWTClaims => {
+  decodedCOSEStructure: DecodedCOSEStructure,
+  cryptoProvider: CryptoProvider | AsyncCryptoProvider,
+  keyCache: KeyCache | undefined,
+  compatibleKeyFormats: boolean,
+  collector: ViolationCollector
+): void | Promise<void> => {
+  // the key can only be looked up with a trusted issuer and a key id
+  if (!iss || !cwtHeaders.kid) {
+    return;
+  }
   const absoluteKeyReference = `${iss}#${cwtHeaders.kid}`;
+  const reported = collector.violations.length;
+  // an unknown `alg` has already been reported, the key is then checked as the specification requires
+  const algorithm =
+    (cwtHeaders.alg && getAlgorithmByName(cwtHeaders.alg)) || ES256;
 
   // 5.1.1
   // The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship in the resolved DID document.
   if (!didDocument?.assertionMethod) {
-    throw new Violation({
-      message:
-        "The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship in the resolved DID document.",
-      link: "https://nzcp.covid19.health.nz/#did-document",
-      section: "5.1.1",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "KEY_NOT_AUTHORIZED",
+        message:
+          "The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship in the resolved DID document.",
+        link: "https://nzcp.covid19.health.nz/#did-document",
+        section: "5.1.1",
+      })
+    );
+    return;
   }
   let assertionMethod = didDocument.assertionMethod;
   if (typeof assertionMethod === "string") {
     assertionMethod = [assertionMethod];
   }
   if (!assertionMethod.includes(absoluteKeyReference)) {
-    throw new Violation({
-      message:
-        "The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship in the resolved DID document.",
-      link: "https://nzcp.covid19.health.nz/#did-document",
-      section: "5.1.1",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "KEY_NOT_AUTHORIZED",
+        message:
+          "The public key referenced by the decoded CWT MUST be listed/authorized under the assertionMethod verification relationship in the resolved DID document.",
+        link: "https://nzcp.covid19.health.nz/#did-document",
+        section: "5.1.1",
+      })
+    );
+    return;
   }
   // Not in NZCP spec but implied.. If theres an assertionMethod there should be a matching verification method
   if (!didDocument.verificationMethod) {
-    throw new Violation({
-      message: "No matching verificationMethod method for the assertionMethod",
-      link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
-      section: "DID-CORE.2",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+    collector.report(
+      new Violation({
+        code: "VERIFICATION_METHOD_NOT_FOUND",
+        message: "No matching verificationMethod method for the assertionMethod",
+        link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
+        section: "DID-CORE.2",
+      })
+    );
+    return;
   }
-  const verificationMethod = didDocument.verificationMethod.find(
+  const publishedVerificationMethod = didDocument.verificationMethod.find(
     (v) => v.id === absoluteKeyReference
   );
-  if (!verificationMethod) {
-    throw new Violation({
-      message: "No matching verificationMethod for the assertionMethod",
-      link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
-      section: "DID-CORE.2",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+  if (!publishedVerificationMethod) {
+    collector.report(
+      new Violation({
+        code: "VERIFICATION_METHOD_NOT_FOUND",
+        message: "No matching verificationMethod for the assertionMethod",
+        link: "https://nzcp.covid19.health.nz/#ref:DID-CORE",
+        section: "DID-CORE.2",
+      })
+    );
+    return;
   }
 
-  const publicKeyJwk = verificationMethod?.publicKeyJwk;
+  // newer encodings of the key are converted to a JsonWebKey2020, whose key is then checked as usual
+  let verificationMethod = publishedVerificationMethod;
+  if (compatibleKeyFormats) {
+    try {
+      verificationMethod = toJsonWebKey2020(publishedVerificationMethod);
+    } catch (err) {
+      collector.report(
+        new Violation({
+          code: "INVALID_PUBLIC_KEY",
+          message: `The public key referenced by the decoded CWT MUST be a valid ${algorithm.crv} public key, but ${(err as Error).message}.`,
+          link: "https://nzcp.covid19.health.nz/#did-document",
+          section: "5.1.2",
+        })
+      );
+      return;
+    }
+  }
 
-  // 5.1.2 (Note: Spec is written pretty hard to code against here... trying todo by best, could probably build the PK here?)
-  // The public key referenced by the decoded CWT MUST be a valid P-256 public key suitable for usage with the
-  // Elliptic Curve Digital Signature Algorithm (ECDSA) as defined in (ISO/IEC 14888–3:2006) section 2.3.
+  const publicKeyJwk = verificationMethod.publicKeyJwk;
 
-  if (!publicKeyJwk || !publicKeyJwk?.x || !publicKeyJwk?.y) {
-    throw new Violation({
-      message:
-        "The public key referenced by the decoded CWT MUST be a valid P-256 public key",
-      link: "https://nzcp.covid19.health.nz/#did-document",
-      section: "5.1.2",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
-  }
+  // 5.1.2 to 5.1.5, the checks of the public key JWK itself
+  const violations = validatePublicKeyJwk(publicKeyJwk, algorithm);
 
-  // 5.1.3 TODO: check that publicKeyJwt is a valid JWK
+  // 5.1.3
   // The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517].
-  if (verificationMethod?.type !== "JsonWebKey2020") {
-    throw new Violation({
-      message:
-        "The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517].",
-      link: "https://nzcp.covid19.health.nz/#did-document",
-      section: "5.1.3",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+  if (verificationMethod.type !== "JsonWebKey2020") {
+    violations.push(
+      new Violation({
+        code: "INVALID_KEY_FORMAT",
+        message:
+          "The expression of the public key referenced by the decoded CWT MUST be in the form of a JWK as per [RFC7517].",
+        link: "https://nzcp.covid19.health.nz/#did-document",
+        section: "5.1.3",
+      })
+    );
   }
+  violations
+    .sort((a, b) => a.violates.section.localeCompare(b.violates.section))
+    .forEach((violation) => collector.report(violation));
 
-  // TODO: 5.1.4 (Note: Seems more of a spec for a signer rather than a verifier... will do later)
-  // This public key JWK expression MUST NOT publish any JSON Web Key Parameters that are classified as “Private” under the “Parameter Information Class” category of the JSON Web Key Parameters IANA registry.
-
-  // 5.1.5
-  // This public key JWK expression MUST set a crv property which has a value of P-256. Additionally, the JWK MUST have a kty property set to EC.
-
-  if (publicKeyJwk.crv !== "P-256" || publicKeyJwk.kty !== "EC") {
-    throw new Violation({
-      message:
-        "This public key JWK expression MUST set a crv property which has a value of P-256. Additionally, the JWK MUST have a kty property set to EC.",
-      link: "https://nzcp.covid19.health.nz/#did-document",
-      section: "5.1.5",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
+  // the signature can only be checked with a usable key
+  if (!publicKeyJwk || collector.violations.length > reported) {
+    return;
   }
 
   // From section 3 "New Zealand COVID Passes MUST use Elliptic Curve Digital Signature Algorithm"
-  // this is hardcoded in validateCOSESignature
+  // the curve and hash are selected by the algorithm in validateCOSESignature
 
   // From section 3 "all New Zealand COVID Passes MUST use the COSE_Sign1 structure"
   // this structure is hardcoded in validateCOSESignature
 
-  const result = validateCOSESignature(decodedCOSEStructure, publicKeyJwk);
+  const publicKey = keyCache
+    ? keyCache.getPublicKey(
+        absoluteKeyReference,
+        didDocument,
+        publicKeyJwk,
+        algorithm,
+        cryptoProvider
+      )
+    : importPublicKey(publicKeyJwk, algorithm, cryptoProvider);
+  const result = whenResolved(publicKey, (key) =>
+    key
+      ? validateCOSESignature(
+          decodedCOSEStructure,
+          key,
+          algorithm,
+          cryptoProvider
+        )
+      : false
+  );
+  return whenResolved(result, (valid) => reportSignature(valid, collector));
+};
 
-  if (!result) {
+const reportSignature = (
+  valid: boolean,
+  collector: ViolationCollector
+): void => {
+  if (!valid) {
     // exact wording is: "Verifying parties MUST validate the digital signature on a New Zealand COVID Pass and MUST reject passes that fail this check as being invalid."
-    throw new Violation({
-      message: "Retrieved public key does not validate `COSE_Sign1` structure",
-      link: "https://nzcp.covid19.health.nz/#cryptographic-digital-signature-algorithm-selection",
-      section: "3",
-      description: "The COVID Pass is malformed or has been modified.",
-    });
-  }
-
-  // TODO: section number?
-  // With the payload returned from the COSE_Sign1 decoding, check if it is a valid CWT containing the claims defined in the data model section, if these conditions are not meet then fail.
-  try {
-    const validatedCwtClaims = validateCWTClaims(unvalidatedCWTClaims);
-    return validatedCwtClaims;
-  } catch (e) {
-    if ("violates" in e) {
-      throw new Violation(
-        (e as Violation).violates,
-        unvalidatedCWTClaims
-      );
-    } else {
-      throw e;
-    }
+    collector.report(
+      new Violation({
+        code: "BAD_SIGNATURE",
+        message: "Retrieved public key does not validate `COSE_Sign1` structure",
+        link: "https://nzcp.covid19.health.nz/#cryptographic-digital-signature-algorithm-selection",
+        section: "3",
+      })
+    );
   }
 };
@@ -2,5 +2,11 @@
  * This file is the entrypoint of node builds.
  * The code executes when loaded in a node.
  */
-import { verifyPassURI, verifyPassURIOffline, DID_DOCUMENTS, TRUSTED_ISSUERS } from "./main";
-export { verifyPassURI, verifyPassURIOffline, DID_DOCUMENTS, TRUSTED_ISSUERS };
+import { verifyPassURI, verifyPassURIOffline, verifyPassURIs, verifyPassURIsIterator, verifyPassImage, verifyPassImageOffline, decodeQR, encodeQR, renderQRToSVG, renderQRToPNG, registerCatalogue, registerPassType, PUBLIC_COVID_PASS, DEFAULT_PASS_TYPES, registerProtocolVersion, PROTOCOL_VERSION_1, DEFAULT_PROTOCOL_VERSIONS, registerAlgorithm, DEFAULT_ALGORITHMS, ELLIPTIC_CRYPTO_PROVIDER, setDefaultCryptoProvider, setDefaultAsyncCryptoProvider, createPassURI, DID_DOCUMENTS, TRUSTED_ISSUERS, DEFAULT_DECODE_LIMITS, DIDCache, MemoryDIDCacheStorage, KeyCache, validateDIDDocument, loadDIDDocument, createDIDResolver, loadRevocationList, BloomFilter, DenyList, MemorySeenStore, DEFAULT_REPLAY_POLICY } from "./main";
+import { FileDIDCacheStorage } from "./didCacheFile";
+import { FileSeenStore } from "./seenStoreFile";
+import { NODE_CRYPTO_PROVIDER } from "./cryptoNode";
+export { verifyPassURI, verifyPassURIOffline, verifyPassURIs, verifyPassURIsIterator, verifyPassImage, verifyPassImageOffline, decodeQR, encodeQR, renderQRToSVG, renderQRToPNG, registerCatalogue, registerPassType, PUBLIC_COVID_PASS, DEFAULT_PASS_TYPES, registerProtocolVersion, PROTOCOL_VERSION_1, DEFAULT_PROTOCOL_VERSIONS, registerAlgorithm, DEFAULT_ALGORITHMS, ELLIPTIC_CRYPTO_PROVIDER, setDefaultCryptoProvider, setDefaultAsyncCryptoProvider, createPassURI, DID_DOCUMENTS, TRUSTED_ISSUERS, DEFAULT_DECODE_LIMITS, DIDCache, MemoryDIDCacheStorage, KeyCache, validateDIDDocument, loadDIDDocument, FileDIDCacheStorage, createDIDResolver, loadRevocationList, BloomFilter, DenyList, MemorySeenStore, DEFAULT_REPLAY_POLICY, FileSeenStore, NODE_CRYPTO_PROVIDER };
+
+// verify with the native crypto module, which is many times faster than `elliptic`
+setDefaultCryptoProvider(NODE_CRYPTO_PROVIDER);
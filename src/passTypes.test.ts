@@ -0,0 +1,97 @@
+import { validateCWTClaims } from "./cwt";
+import { UnvalidatedCWTClaims } from "./cwtTypes";
+import { createPassURI } from "./issue";
+import { verifyPassURIOffline } from "./main";
+import { PassType, registerPassType } from "./passTypes";
+import { ViolationCollector } from "./violation";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
+// a made up pass type issued on the NZCP framework
+type VaccinatorSubject = { givenName: string; familyName: string; registrationNumber: number };
+const VACCINATOR_PASS: PassType<VaccinatorSubject> = {
+  name: "VaccinatorPass",
+  link: "https://example.com/#vaccinatorpass",
+  credentialSubject: {
+    givenName: { required: true, type: "string" },
+    familyName: { required: false, type: "string" },
+    registrationNumber: { required: true, type: "number" },
+  },
+  validate: (credentialSubject) =>
+    credentialSubject.registrationNumber > 0 ? [] : ["'registrationNumber' MUST be positive"],
+};
+registerPassType(VACCINATOR_PASS);
+
+const claimsOf = <T>(type: string, credentialSubject: T) => ({
+  jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+  nbf: 1641679750,
+  exp: 1956007750,
+  vc: {
+    "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+    version: "1.0.0",
+    type: ["VerifiableCredential", type],
+    credentialSubject,
+  },
+});
+
+const validate = (claims: UnvalidatedCWTClaims<unknown>, passTypes?: string[]) => {
+  const collector = new ViolationCollector(true);
+  validateCWTClaims({ iss: mineDIDDocument.id, ...claims }, { timestamp: 1700000000, clockSkewSeconds: 0, passTypes }, collector);
+  return collector.violations.map((v) => v.violates);
+};
+
+test("PublicCovidPass is the only pass type accepted by default", () => {
+  expect(validate(claimsOf("PublicCovidPass", { givenName: "Jack", dob: "1960-04-16" }))).toStrictEqual([]);
+  const violations = validate(claimsOf("VaccinatorPass", { givenName: "Jack", registrationNumber: 7 }));
+  expect(violations.map((v) => v.code)).toStrictEqual(["INVALID_VC_TYPE"]);
+});
+
+test("PublicCovidPass credential subject requires givenName and dob", () => {
+  const violations = validate(claimsOf("PublicCovidPass", { givenName: "", familyName: 3 }));
+  expect(violations.map((v) => [v.code, v.section])).toStrictEqual([
+    ["MISSING_GIVEN_NAME", "2.4.1.2.1"],
+    ["INVALID_CREDENTIAL_SUBJECT", "2.3.9"],
+    ["MISSING_DOB", "2.4.1.2.2"],
+  ]);
+});
+
+test("Pass types chosen in the options are checked against their declaration", () => {
+  const passTypes = ["PublicCovidPass", "VaccinatorPass"];
+  expect(validate(claimsOf("VaccinatorPass", { givenName: "Jack", registrationNumber: 7 }), passTypes)).toStrictEqual([]);
+  expect(validate(claimsOf("PublicCovidPass", { givenName: "Jack", dob: "1960-04-16" }), passTypes)).toStrictEqual([]);
+
+  const wrongType = validate(claimsOf("VaccinatorPass", { givenName: 1, registrationNumber: 7 }), passTypes);
+  expect(wrongType.map((v) => [v.code, v.message])).toStrictEqual([
+    ["INVALID_CREDENTIAL_SUBJECT", "'givenName' in credentialSubject property MUST be a string"],
+  ]);
+  const failedCheck = validate(claimsOf("VaccinatorPass", { givenName: "Jack", registrationNumber: -1 }), passTypes);
+  expect(failedCheck).toMatchObject([
+    { code: "INVALID_CREDENTIAL_SUBJECT", message: "'registrationNumber' MUST be positive", link: VACCINATOR_PASS.link },
+  ]);
+
+  // the further checks only run once the declared properties are valid
+
+  const missing = validate(claimsOf("VaccinatorPass", { givenName: "Jack" }), passTypes);
+  expect(missing.map((v) => [v.code, v.message])).toStrictEqual([
+    ["MISSING_CREDENTIAL_SUBJECT_PROPERTY", "Missing REQUIRED 'registrationNumber' in credentialSubject property"],
+  ]);
+});
+
+test("Unregistered pass types are not accepted", () => {
+  const violations = validate(claimsOf("UnknownPass", { givenName: "Jack" }), ["UnknownPass"]);
+  expect(violations.map((v) => v.code)).toStrictEqual(["INVALID_VC_TYPE"]);
+});
+
+test("Passes of a registered pass type verify with a typed credential subject", () => {
+  const uri = createPassURI(claimsOf("VaccinatorPass", { givenName: "Jack", familyName: "Sparrow", registrationNumber: 7 }), {
+    privateKeyJwk: minePrivateKey,
+    kid: minePrivateKey.kid,
+    iss: mineDIDDocument.id,
+  });
+  const now = new Date("2023-01-01T00:00:00Z");
+  expect(verifyPassURIOffline(uri, { didDocument: mineDIDDocument, now }).violates?.code).toBe("INVALID_VC_TYPE");
+
+  const result = verifyPassURIOffline<VaccinatorSubject>(uri, { didDocument: mineDIDDocument, now, passTypes: ["VaccinatorPass"] });
+  expect(result.success).toBe(true);
+  expect(result.credentialSubject?.registrationNumber).toBe(7);
+});
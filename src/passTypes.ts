@@ -0,0 +1,82 @@
+import { CredentialSubject } from "./cwtTypes";
+import { ViolationCode } from "./generalTypes";
+
+// Section 2.4
+// https://nzcp.covid19.health.nz/#pass-types
+// The second element of the Verifiable Credential type property is the pass type,
+// which determines the properties of the credential subject
+
+export interface CredentialSubjectProperty {
+  // the property MUST be present, an empty string counts as missing
+  required: boolean;
+  // the JSON type of the value, checked when the property is present
+  type: "string" | "number" | "boolean" | "object";
+  // section of the specification defining the property, defaults to 2.3.9
+  section?: string;
+  // reported when a required property is missing, defaults to MISSING_CREDENTIAL_SUBJECT_PROPERTY
+  code?: ViolationCode;
+}
+
+export interface PassType<T = Record<string, unknown>> {
+  // e.g. "PublicCovidPass"
+  name: string;
+  // the specification of the pass type, reported with violations of its credential subject
+  link: string;
+  // the properties of the credential subject
+  credentialSubject: { [K in keyof T]-?: CredentialSubjectProperty };
+  // further checks of the credential subject, returns a message for every check that failed
+  validate?(credentialSubject: T): string[];
+}
+
+// Section 2.4.1
+// https://nzcp.covid19.health.nz/#publiccovidpass
+export const PUBLIC_COVID_PASS: PassType<CredentialSubject> = {
+  name: "PublicCovidPass",
+  link: "https://nzcp.covid19.health.nz/#publiccovidpass",
+  credentialSubject: {
+    // Section 2.4.1.2.1
+    // Given name MUST be present and MUST be a string
+    givenName: {
+      required: true,
+      type: "string",
+      section: "2.4.1.2.1",
+      code: "MISSING_GIVEN_NAME",
+    },
+    // Family name is OPTIONAL
+    familyName: { required: false, type: "string" },
+    // Section 2.4.1.2.2
+    // Date of birth MUST be present and MUST be a string in the ISO 8601 date format
+    dob: {
+      required: true,
+      type: "string",
+      section: "2.4.1.2.2",
+      code: "MISSING_DOB",
+    },
+  },
+};
+
+// the pass types accepted when verify options don't choose any
+export const DEFAULT_PASS_TYPES = [PUBLIC_COVID_PASS.name];
+
+// registered pass types by name
+const passTypes = new Map<string, PassType>([
+  [PUBLIC_COVID_PASS.name, PUBLIC_COVID_PASS as PassType],
+]);
+
+/**
+ * registers a pass type so verify options can accept it, replacing any pass type registered with the same name
+ * @param passType the name, credential subject properties and checks of the pass type
+ */
+export const registerPassType = <T>(
+  passType: PassType<T>
+): void => {
+  passTypes.set(passType.name, passType as PassType);
+};
+
+/**
+ * gets a registered pass type
+ * @param name e.g. "PublicCovidPass"
+ * @returns {PassType | undefined} the pass type, or undefined if none is registered with the name
+ */
+export const getPassType = (name: string): PassType | undefined =>
+  passTypes.get(name);
@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { inflate } from "./inflate";
+import { decodePNG, encodePNG } from "./png";
+
+const TEXT = new TextEncoder().encode(
+  "NZCP:/1/2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUYMBTIFAIGTUKBAAUYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RP".repeat(20)
+);
+
+// builds a PNG file, the decoder does not check CRCs so they are left as zero
+const createPNG = (
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  scanlines: number[],
+  chunks: [string, number[]][] = []
+): Uint8Array => {
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = Buffer.alloc(12 + data.length);
+    out.writeUInt32BE(data.length, 0);
+    out.write(type, 4, "ascii");
+    out.set(data, 8);
+    return out;
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([bitDepth, colorType, 0, 0, 0], 8);
+  return new Uint8Array(
+    Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", header),
+      ...chunks.map(([type, data]) => chunk(type, new Uint8Array(data))),
+      chunk("IDAT", zlib.deflateSync(Buffer.from(scanlines))),
+      chunk("IEND", new Uint8Array(0)),
+    ])
+  );
+};
+
+test("Inflate matches zlib for stored, fixed and dynamic Huffman blocks", () => {
+  [
+    zlib.deflateSync(TEXT, { level: 0 }),
+    zlib.deflateSync(TEXT, { strategy: zlib.constants.Z_FIXED }),
+    zlib.deflateSync(TEXT, { level: 9 }),
+    zlib.deflateSync(new Uint8Array(0)),
+  ].forEach((compressed, i) => {
+    expect(Buffer.from(inflate(new Uint8Array(compressed)))).toEqual(
+      Buffer.from(i === 3 ? new Uint8Array(0) : TEXT)
+    );
+  });
+});
+
+test("Inflate rejects invalid and oversized streams", () => {
+  expect(() => inflate(new Uint8Array([1, 2, 3, 4, 5, 6]))).toThrowError("Invalid zlib header");
+  const compressed = new Uint8Array(zlib.deflateSync(TEXT));
+  expect(() => inflate(compressed.subarray(0, 20))).toThrowError();
+  expect(() => inflate(compressed, 100)).toThrowError("Inflated data exceeds the maximum length");
+});
+
+test("PNG with every filter type decodes", () => {
+  // 2x5 truecolour with alpha, one row per filter type
+  const row = [10, 20, 30, 255, 40, 50, 60, 128];
+  const scanlines = [0, 1, 2, 3, 4].flatMap((filter) => [filter, ...row]);
+  const image = decodePNG(createPNG(2, 5, 8, 6, scanlines));
+  expect(image.width).toBe(2);
+  expect(image.height).toBe(5);
+  // undoing the filters of unfiltered bytes gives predictable values, check the first two rows
+  expect(Array.from(image.data.subarray(0, 8))).toEqual(row);
+  expect(Array.from(image.data.subarray(8, 16))).toEqual([10, 20, 30, 255, 50, 70, 90, 127]);
+});
+
+test("PNG greyscale, palette and 16 bit images decode to RGBA", () => {
+  const grey = decodePNG(createPNG(8, 1, 1, 0, [0, 0b10100000]));
+  expect(Array.from(grey.data.subarray(0, 12))).toEqual([255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255]);
+
+  const palette = decodePNG(
+    createPNG(2, 1, 2, 3, [0, 0b01000000], [
+      ["PLTE", [1, 2, 3, 4, 5, 6]],
+      ["tRNS", [7]],
+    ])
+  );
+  expect(Array.from(palette.data)).toEqual([4, 5, 6, 255, 1, 2, 3, 7]);
+
+  const deep = decodePNG(createPNG(1, 1, 16, 2, [0, 0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc]));
+  expect(Array.from(deep.data)).toEqual([0x12, 0x56, 0x9a, 255]);
+});
+
+test("PNG fixture decodes", () => {
+  const image = decodePNG(new Uint8Array(fs.readFileSync(path.join(__dirname, "examplePassQR.png"))));
+  expect(image.data.length).toBe(image.width * image.height * 4);
+});
+
+test("Black and white PNG round trips and inflates with zlib", () => {
+  const data = new Uint8Array(13 * 3).map((_, i) => (i % 3 === 0 ? 1 : 0));
+  const png = encodePNG({ width: 13, height: 3, data });
+  const image = decodePNG(png);
+  expect(Array.from(image.data.filter((_, i) => i % 4 === 0))).toEqual(Array.from(data, (dark) => (dark ? 0 : 255)));
+  // the image data is a valid zlib stream
+  const idat = png.subarray(8 + 25 + 8, png.length - 12 - 4);
+  expect(zlib.inflateSync(idat).length).toBe((2 + 1) * 3);
+});
+
+test("Interlaced and malformed PNG images throw", () => {
+  const interlaced = createPNG(1, 1, 8, 0, [0, 0]);
+  interlaced[8 + 8 + 12] = 1;
+  expect(() => decodePNG(interlaced)).toThrowError("Interlaced PNG images are not supported");
+  expect(() => decodePNG(new Uint8Array([1, 2, 3]))).toThrowError("Not a PNG image");
+  expect(() => decodePNG(createPNG(1, 1, 8, 5, [0, 0]))).toThrowError("Unsupported PNG colour type or bit depth");
+});
@@ -0,0 +1,288 @@
+import { inflate } from "./inflate";
+
+// A PNG decoder and encoder, enough to read screenshots and photos of COVID Passes and to print them
+// https://www.w3.org/TR/png/
+
+export type RGBAImage = {
+  width: number;
+  height: number;
+  // 4 bytes per pixel, row by row
+  data: Uint8Array;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// images larger than this are rejected rather than decoded
+const MAX_PIXELS = 64 * 1024 * 1024;
+
+// samples per pixel for each colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export const isPNG = (bytes: Uint8Array): boolean =>
+  bytes.length >= PNG_SIGNATURE.length &&
+  PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/**
+ * decodes a non-interlaced PNG image
+ * @param bytes the PNG file
+ * @returns {RGBAImage} the image with 8 bits per channel
+ */
+export const decodePNG = (bytes: Uint8Array): RGBAImage => {
+  if (!isPNG(bytes)) {
+    throw new Error("Not a PNG image");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+
+  for (let pos = PNG_SIGNATURE.length; pos + 8 <= bytes.length; ) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const chunk = bytes.subarray(pos + 8, pos + 8 + length);
+    if (chunk.length !== length) {
+      throw new Error("Truncated PNG chunk");
+    }
+    pos += 12 + length;
+    if (type === "IHDR") {
+      width = view.getUint32(chunk.byteOffset - bytes.byteOffset);
+      height = view.getUint32(chunk.byteOffset - bytes.byteOffset + 4);
+      [bitDepth, colorType] = [chunk[8], chunk[9]];
+      if (chunk[12] !== 0) {
+        throw new Error("Interlaced PNG images are not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error("Unsupported PNG colour type or bit depth");
+  }
+  if (width < 1 || height < 1 || width * height > MAX_PIXELS) {
+    throw new Error("Unsupported PNG dimensions");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("PNG palette is missing");
+  }
+
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.length, 0));
+  idat.reduce((offset, c) => {
+    compressed.set(c, offset);
+    return offset + c.length;
+  }, 0);
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  // bytes between a byte and the corresponding byte of the previous pixel, used by the filters
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const raw = inflate(compressed, (stride + 1) * height);
+  if (raw.length < (stride + 1) * height) {
+    throw new Error("Truncated PNG image data");
+  }
+
+  // undo the filters in place, each row starts with its filter type
+  const scanlines = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const input = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? scanlines[row + x - bpp] : 0;
+      const b = y > 0 ? scanlines[row - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? scanlines[row - stride + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = a;
+          break;
+        case 2:
+          predictor = b;
+          break;
+        case 3:
+          predictor = (a + b) >> 1;
+          break;
+        case 4:
+          predictor = paeth(a, b, c);
+          break;
+        default:
+          throw new Error("Invalid PNG filter type");
+      }
+      scanlines[row + x] = (input[x] + predictor) & 0xff;
+    }
+  }
+
+  // samples scaled to 8 bits
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (y: number, index: number): number => {
+    if (bitDepth === 16) {
+      return scanlines[y * stride + index * 2];
+    }
+    if (bitDepth === 8) {
+      return scanlines[y * stride + index];
+    }
+    const bit = index * bitDepth;
+    const byte = scanlines[y * stride + (bit >> 3)];
+    const value = (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+  // the tRNS colour key of greyscale and truecolour images, compared as 16 bit samples
+  const rawSample = (y: number, index: number): number =>
+    bitDepth === 16
+      ? (scanlines[y * stride + index * 2] << 8) | scanlines[y * stride + index * 2 + 1]
+      : bitDepth === 8
+      ? scanlines[y * stride + index]
+      : (scanlines[y * stride + ((index * bitDepth) >> 3)] >>
+          (8 - bitDepth - ((index * bitDepth) & 7))) &
+        maxSample;
+  const key =
+    transparency && (colorType === 0 || colorType === 2)
+      ? Array.from({ length: channels }, (_, i) =>
+          (transparency as Uint8Array)[i * 2] * 256 + (transparency as Uint8Array)[i * 2 + 1]
+        )
+      : undefined;
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, first);
+        const p = palette as Uint8Array;
+        data.set([p[index * 3] ?? 0, p[index * 3 + 1] ?? 0, p[index * 3 + 2] ?? 0], out);
+        data[out + 3] = transparency?.[index] ?? 255;
+        continue;
+      }
+      if (colorType === 0 || colorType === 4) {
+        const grey = sample(y, first);
+        data.set([grey, grey, grey], out);
+      } else {
+        data.set([sample(y, first), sample(y, first + 1), sample(y, first + 2)], out);
+      }
+      if (colorType === 4 || colorType === 6) {
+        data[out + 3] = sample(y, first + channels - 1);
+      } else {
+        const transparent =
+          key !== undefined && key.every((k, i) => rawSample(y, first + i) === k);
+        data[out + 3] = transparent ? 0 : 255;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+// a black and white image, 1 byte per pixel that is 1 for dark pixels, row by row
+export type BitmapImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// a zlib stream of stored blocks, QR codes are small enough that compressing them is not worth the code
+const zlibStored = (data: Uint8Array): Uint8Array => {
+  const MAX_BLOCK = 0xffff;
+  const blocks = Math.max(1, Math.ceil(data.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + blocks * 5 + data.length + 4);
+  const view = new DataView(out.buffer);
+  out.set([0x78, 0x01]);
+  let pos = 2;
+  for (let i = 0; i < blocks; i++) {
+    const block = data.subarray(i * MAX_BLOCK, (i + 1) * MAX_BLOCK);
+    out[pos] = i === blocks - 1 ? 1 : 0;
+    view.setUint16(pos + 1, block.length, true);
+    view.setUint16(pos + 3, block.length ^ 0xffff, true);
+    out.set(block, pos + 5);
+    pos += 5 + block.length;
+  }
+  // Adler-32 of the uncompressed data
+  let a = 1;
+  let b = 0;
+  data.forEach((byte) => {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  });
+  view.setUint32(pos, ((b << 16) | a) >>> 0);
+  return out;
+};
+
+/**
+ * encodes a black and white image as a 1 bit greyscale PNG
+ * @param image the image, 1 for dark pixels
+ * @returns {Uint8Array} the PNG file
+ */
+export const encodePNG = (image: BitmapImage): Uint8Array => {
+  const { width, height, data } = image;
+  const stride = Math.ceil(width / 8);
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    // filter type 0, light pixels are 1 in greyscale
+    for (let x = 0; x < width; x++) {
+      if (!data[y * width + x]) {
+        raw[y * (stride + 1) + 1 + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  const header = new Uint8Array(13);
+  new DataView(header.buffer).setUint32(0, width);
+  new DataView(header.buffer).setUint32(4, height);
+  header.set([1, 0, 0, 0, 0], 8);
+  const chunks: [string, Uint8Array][] = [
+    ["IHDR", header],
+    ["IDAT", zlibStored(raw)],
+    ["IEND", new Uint8Array(0)],
+  ];
+  const out = new Uint8Array(
+    PNG_SIGNATURE.length + chunks.reduce((total, [, c]) => total + 12 + c.length, 0)
+  );
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE);
+  let pos = PNG_SIGNATURE.length;
+  chunks.forEach(([type, chunk]) => {
+    view.setUint32(pos, chunk.length);
+    const typed = new Uint8Array(4 + chunk.length);
+    typed.set(Array.from(type, (c) => c.charCodeAt(0)));
+    typed.set(chunk, 4);
+    out.set(typed, pos + 4);
+    view.setUint32(pos + 8 + chunk.length, crc32(typed));
+    pos += 12 + chunk.length;
+  });
+  return out;
+};
@@ -0,0 +1,106 @@
+import { createPassURI } from "./issue";
+import { verifyPassURIOffline } from "./main";
+import { PROTOCOL_VERSION_1, registerProtocolVersion } from "./protocolVersions";
+import { satisfiesVersion } from "./util";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+
+const now = new Date("2023-01-01T00:00:00Z");
+
+const mint = (version: string, vcVersion: string) =>
+  createPassURI(
+    {
+      jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+      nbf: 1641679750,
+      exp: 1956007750,
+      vc: {
+        "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+        version: vcVersion,
+        type: ["VerifiableCredential", "PublicCovidPass"],
+        credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+      },
+    },
+    { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id }
+  ).replace("NZCP:/1/", `NZCP:/${version}/`);
+
+// a made up revision of the specification, with the payload reversed
+registerProtocolVersion({
+  ...PROTOCOL_VERSION_1,
+  version: 2,
+  vcVersions: ["2.x"],
+  decode: (payload, decodeOptions) => PROTOCOL_VERSION_1.decode(payload.split("").reverse().join(""), decodeOptions),
+  encode: (cose) => PROTOCOL_VERSION_1.encode(cose).split("").reverse().join(""),
+});
+// version 1 accepting minor revisions of the Verifiable Credential
+registerProtocolVersion({ ...PROTOCOL_VERSION_1, version: 3, vcVersions: ["1.x"] });
+
+test("Version ranges match exact versions and x-ranges", () => {
+  expect(satisfiesVersion("1.0.0", "1.0.0")).toBe(true);
+  expect(satisfiesVersion("1.2.0", "1.0.0")).toBe(false);
+  expect(satisfiesVersion("1.2.0", "1.x")).toBe(true);
+  expect(satisfiesVersion("1.2.3", "1.2.x")).toBe(true);
+  expect(satisfiesVersion("2.0.0", "1.x")).toBe(false);
+  expect(satisfiesVersion("1.0", "1.x")).toBe(false);
+});
+
+test("Only version 1 is accepted by default", () => {
+  const v1 = verifyPassURIOffline(mint("1", "1.0.0"), { didDocument: mineDIDDocument, now });
+  expect(v1.success).toBe(true);
+
+  const [, payload] = mint("1", "2.0.0").split("NZCP:/1/");
+  const v2 = `NZCP:/2/${payload.split("").reverse().join("")}`;
+  const result = verifyPassURIOffline(v2, { didDocument: mineDIDDocument, now });
+  expect(result.violates).toMatchObject({
+    code: "UNSUPPORTED_VERSION",
+    message: "The version-identifier portion of the payload for the specification MUST be 1",
+  });
+});
+
+test("Version identifiers must be written without leading zeros", () => {
+  const options = { didDocument: mineDIDDocument, now };
+  expect(verifyPassURIOffline(mint("01", "1.0.0"), options).violates?.code).toBe("UNSUPPORTED_VERSION");
+});
+
+test("Registered versions are decoded and validated by their handler once accepted", () => {
+  const [, payload] = mint("1", "2.1.0").split("NZCP:/1/");
+  const v2 = `NZCP:/2/${payload.split("").reverse().join("")}`;
+  const options = { didDocument: mineDIDDocument, now, protocolVersions: [1, 2] };
+  expect(verifyPassURIOffline(v2, options).success).toBe(true);
+  expect(verifyPassURIOffline(mint("1", "1.0.0"), options).success).toBe(true);
+
+  // the Verifiable Credential version is checked against the handler of the payload version
+  const result = verifyPassURIOffline(mint("1", "2.1.0"), options);
+  expect(result.violates).toMatchObject({
+    code: "INVALID_VC_VERSION",
+    message: "Verifiable Credential Version property MUST be 1.0.0",
+  });
+});
+
+test("Versions accept Verifiable Credential versions by range", () => {
+  const options = { didDocument: mineDIDDocument, now, protocolVersions: [3] };
+  expect(verifyPassURIOffline(mint("3", "1.4.0"), options).success).toBe(true);
+  expect(verifyPassURIOffline(mint("3", "2.0.0"), options).violates?.code).toBe("INVALID_VC_VERSION");
+  expect(verifyPassURIOffline(mint("1", "1.0.0"), options).violates?.code).toBe("UNSUPPORTED_VERSION");
+});
+
+test("Passes are issued in a registered version", () => {
+  const claims = {
+    jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+    nbf: 1641679750,
+    exp: 1956007750,
+    vc: {
+      "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+      version: "2.1.0",
+      type: ["VerifiableCredential", "PublicCovidPass"],
+      credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+    },
+  };
+  const issueOptions = { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id };
+  const uri = createPassURI(claims, { ...issueOptions, version: 2 });
+  expect(uri.startsWith("NZCP:/2/")).toBe(true);
+  const [, payload] = mint("1", "2.1.0").split("NZCP:/1/");
+  expect(uri).toBe(`NZCP:/2/${payload.split("").reverse().join("")}`);
+  expect(verifyPassURIOffline(uri, { didDocument: mineDIDDocument, now, protocolVersions: [2] }).success).toBe(true);
+
+  expect(() => createPassURI(claims, { ...issueOptions, version: 4 })).toThrowError("Unknown protocol version 4");
+});
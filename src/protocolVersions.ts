@@ -0,0 +1,113 @@
+import { base32 } from "rfc4648";
+import { decodeCOSE } from "./cbor";
+import { DecodeCBOROptions } from "./cborTypes";
+import { DecodedCOSEStructure } from "./coseTypes";
+import { validateCWTClaims } from "./cwt";
+import { ClaimsValidationOptions, CWTClaims, UnvalidatedCWTClaims } from "./cwtTypes";
+import { addBase32Padding } from "./util";
+import { getMalformedViolation, Violation, ViolationCollector } from "./violation";
+
+// Section 4.6
+// https://nzcp.covid19.health.nz/#2d-barcode-encoding
+// The version-identifier of `NZCP:/<version-identifier>/` payloads is the major protocol version,
+// a handler decodes the payloads and validates the claims of its version
+
+export interface ProtocolVersion {
+  // the version-identifier, e.g. 1
+  version: number;
+  // Verifiable Credential versions accepted, exact versions or x-ranges such as "1.x"
+  vcVersions: string[];
+  // decodes the payload following `NZCP:/<version-identifier>/` into a COSE_Sign1 structure
+  decode(payload: string, decodeOptions: DecodeCBOROptions): DecodedCOSEStructure;
+  // encodes a signed COSE_Sign1 structure into the payload following `NZCP:/<version-identifier>/`, used by createPassURI
+  encode(cose: Uint8Array): string;
+  // validates the claims, reporting violations to the collector
+  validateClaims(
+    cwtClaims: UnvalidatedCWTClaims<unknown>,
+    options: ClaimsValidationOptions,
+    collector: ViolationCollector
+  ): CWTClaims<unknown>;
+}
+
+// Version 1 of the NZ COVID Pass - Technical Specification
+export const PROTOCOL_VERSION_1: ProtocolVersion = {
+  version: 1,
+  // Section 2.3.8
+  // Verifiable Credential Version property MUST be 1.0.0
+  vcVersions: ["1.0.0"],
+  decode: (payload, decodeOptions) => {
+    // Section 4.7
+    // With the remainder of the payload following the / after the version-identifier, attempt to decode it using base32 as defined by
+    // [RFC4648] NOTE add back in padding if required, if an error is encountered during decoding then fail.
+    let uint8array: Uint8Array;
+    try {
+      uint8array = base32.parse(
+        // from https://nzcp.covid19.health.nz/#2d-barcode-encoding
+        // Some base32 decoding implementations may fail to decode a base32 string that is missing the required padding as defined by [RFC4648].
+        // [addBase32Padding] is a simple javascript snippet designed to show how an implementor can add the required padding to a base32 string.
+        addBase32Padding(payload)
+      );
+    } catch (error) {
+      throw new Violation({
+        code: "MALFORMED_BASE32",
+        message: "The payload of the QR Code MUST be base32 encoded",
+        section: "4.7",
+        link: "https://nzcp.covid19.health.nz/#2d-barcode-encoding",
+      });
+    }
+
+    // With the decoded payload attempt to decode it as COSE_Sign1 CBOR structure, if an error is encountered during decoding then fail.
+
+    // Decoding this byte string as a CBOR structure and rendering it via the expanded form shown throughout [RFC7049] yields the following.
+    // Let this result be known as the Decoded COSE structure.
+    // d2                -- Tag #18
+    // 84              -- Array, 4 items
+    //   4a            -- Bytes, length: 10
+    //     a204456b65792d310126 -- [0], a204456b65792d310126
+    //   a0            -- [1], {}
+    //   59            -- Bytes, length next 2 bytes
+    //     011f        -- Bytes, length: 287
+    //       a501781e6469643a7765623a6e7a63702e636f76696431392e6865616c74682e6e7a051a61819a0a041a7450400a627663a46840636f6e7465787482782668747470733a2f2f7777772e77332e6f72672f323031382f63726564656e7469616c732f7631782a68747470733a2f2f6e7a63702e636f76696431392e6865616c74682e6e7a2f636f6e74657874732f76316776657273696f6e65312e302e306474797065827456657269666961626c6543726564656e7469616c6f5075626c6963436f766964506173737163726564656e7469616c5375626a656374a369676976656e4e616d65644a61636b6a66616d696c794e616d656753706172726f7763646f626a313936302d30342d3136075060a4f54d4e304332be33ad78b1eafa4b -- [2], a501781e6469643a7765623a6e7a63702e636f76696431392e6865616c74682e6e7a051a61819a0a041a7450400a627663a46840636f6e7465787482782668747470733a2f2f7777772e77332e6f72672f323031382f63726564656e7469616c732f7631782a68747470733a2f2f6e7a63702e636f76696431392e6865616c74682e6e7a2f636f6e74657874732f76316776657273696f6e65312e302e306474797065827456657269666961626c6543726564656e7469616c6f5075626c6963436f766964506173737163726564656e7469616c5375626a656374a369676976656e4e616d65644a61636b6a66616d696c794e616d656753706172726f7763646f626a313936302d30342d3136075060a4f54d4e304332be33ad78b1eafa4b
+    //   58            -- Bytes, length next 1 byte
+    //     40          -- Bytes, length: 64
+    const decodedCOSEStructure = decodeCOSE(uint8array, decodeOptions);
+    if (decodedCOSEStructure.err) {
+      throw getMalformedViolation(decodedCOSEStructure.err);
+    }
+
+    return decodedCOSEStructure;
+  },
+  // Section 4
+  // https://nzcp.covid19.health.nz/#2d-barcode-encoding
+  // The base32 encoded CWT MUST NOT include padding
+  encode: (cose) => base32.stringify(cose, { pad: false }),
+  validateClaims: (cwtClaims, options, collector) =>
+    validateCWTClaims(cwtClaims, options, collector),
+};
+
+// the protocol versions accepted when verify options don't choose any
+export const DEFAULT_PROTOCOL_VERSIONS = [PROTOCOL_VERSION_1.version];
+
+// registered protocol versions by version-identifier
+const protocolVersions = new Map<number, ProtocolVersion>([
+  [PROTOCOL_VERSION_1.version, PROTOCOL_VERSION_1],
+]);
+
+/**
+ * registers a protocol version so verify options can accept it, replacing any handler registered for the same version
+ * @param protocolVersion the version-identifier, Verifiable Credential versions, decoder and validator of the version
+ */
+export const registerProtocolVersion = (
+  protocolVersion: ProtocolVersion
+): void => {
+  protocolVersions.set(protocolVersion.version, protocolVersion);
+};
+
+/**
+ * gets a registered protocol version
+ * @param version the version-identifier, e.g. 1
+ * @returns {ProtocolVersion | undefined} the handler, or undefined if none is registered for the version
+ */
+export const getProtocolVersion = (
+  version: number
+): ProtocolVersion | undefined => protocolVersions.get(version);
@@ -0,0 +1,72 @@
+import {
+  computeReedSolomon,
+  correctReedSolomon,
+  encodeFormatInfo,
+  encodeVersionInfo,
+  getAlignmentPatternPositions,
+  getBlockLayout,
+  getDataCapacity,
+  getDataModulePositions,
+  getTotalCodewords,
+} from "./qr";
+
+// ISO/IEC 18004 annex I, "01234567" as a version 1-M symbol
+const DATA = [0x10, 0x20, 0x0c, 0x56, 0x61, 0x80, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11];
+const EC = [0xa5, 0x24, 0xd4, 0xc1, 0xed, 0x36, 0xc7, 0x87, 0x2c, 0x55];
+
+test("Capacities match ISO/IEC 18004 table 7", () => {
+  expect(getTotalCodewords(1)).toBe(26);
+  expect(getTotalCodewords(40)).toBe(3706);
+  expect(getDataCapacity(1, "M")).toBe(16);
+  expect(getDataCapacity(10, "Q")).toBe(154);
+  expect(getDataCapacity(40, "L")).toBe(2956);
+  expect(getBlockLayout(5, "Q")).toEqual({ dataCodewords: [15, 15, 16, 16], ecCodewordsPerBlock: 18 });
+});
+
+test("Every codeword has 8 data modules", () => {
+  for (let version = 1; version <= 40; version++) {
+    expect(Math.floor(getDataModulePositions(version).length / 8)).toBe(getTotalCodewords(version));
+  }
+});
+
+test("Alignment pattern positions match ISO/IEC 18004 annex E", () => {
+  expect(getAlignmentPatternPositions(1)).toEqual([]);
+  expect(getAlignmentPatternPositions(2)).toEqual([6, 18]);
+  expect(getAlignmentPatternPositions(7)).toEqual([6, 22, 38]);
+  expect(getAlignmentPatternPositions(32)).toEqual([6, 34, 60, 86, 112, 138]);
+  expect(getAlignmentPatternPositions(40)).toEqual([6, 30, 58, 86, 114, 142, 170]);
+});
+
+test("Format and version information match ISO/IEC 18004 annexes C and D", () => {
+  expect(encodeFormatInfo("M", 5)).toBe(0b100000011001110);
+  expect(encodeFormatInfo("L", 0)).toBe(0b111011111000100);
+  expect(encodeVersionInfo(7)).toBe(0x07c94);
+  expect(encodeVersionInfo(40)).toBe(0x28c69);
+});
+
+test("Reed-Solomon error correction codewords match ISO/IEC 18004 annex I", () => {
+  expect(Array.from(computeReedSolomon(new Uint8Array(DATA), EC.length))).toEqual(EC);
+});
+
+test("Reed-Solomon leaves a valid block unchanged", () => {
+  const block = new Uint8Array([...DATA, ...EC]);
+  expect(correctReedSolomon(block, EC.length)).toBe(true);
+  expect(Array.from(block)).toEqual([...DATA, ...EC]);
+});
+
+test("Reed-Solomon corrects up to half as many errors as error correction codewords", () => {
+  const block = new Uint8Array([...DATA, ...EC]);
+  [0, 3, 9, 17, 25].forEach((i) => {
+    block[i] ^= 0x5a;
+  });
+  expect(correctReedSolomon(block, EC.length)).toBe(true);
+  expect(Array.from(block)).toEqual([...DATA, ...EC]);
+});
+
+test("Reed-Solomon reports blocks with too many errors", () => {
+  const block = new Uint8Array([...DATA, ...EC]);
+  [0, 1, 2, 3, 4, 5, 6, 7].forEach((i) => {
+    block[i] ^= 0xff;
+  });
+  expect(correctReedSolomon(block, EC.length)).toBe(false);
+});
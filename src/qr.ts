@@ -0,0 +1,466 @@
+// QR code primitives shared by the QR decoder and encoder, as defined by ISO/IEC 18004:2015
+// https://nzcp.covid19.health.nz/#2d-barcode-encoding
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+// the two bits identifying the error correction level in the format information
+export const FORMAT_LEVEL_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// ISO/IEC 18004 table 9, error correction blocks per version, for L, M, Q and H
+const EC_BLOCKS = [
+  1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2, 2, 1, 2, 2, 4, 1, 2, 4, 4, 2, 4, 4, 4, 2, 4, 6, 5, 2, 4, 6, 6, 2, 5, 8, 8,
+  4, 5, 8, 8, 4, 5, 8, 11, 4, 8, 10, 11, 4, 9, 12, 16, 4, 9, 16, 16, 6, 10, 12, 18, 6, 10, 17, 16, 6, 11, 16, 19,
+  6, 13, 18, 21, 7, 14, 21, 25, 8, 16, 20, 25, 8, 17, 23, 25, 9, 17, 23, 34, 9, 18, 25, 30, 10, 20, 27, 32,
+  12, 21, 29, 35, 12, 23, 34, 37, 12, 25, 34, 40, 13, 26, 35, 42, 14, 28, 38, 45, 15, 29, 40, 48, 16, 31, 43, 51,
+  17, 33, 45, 54, 18, 35, 48, 57, 19, 37, 51, 60, 19, 38, 53, 63, 20, 40, 56, 66, 21, 43, 59, 70, 22, 45, 62, 74,
+  24, 47, 65, 77, 25, 49, 68, 81,
+];
+
+// ISO/IEC 18004 table 9, error correction codewords per block, for L, M, Q and H
+const EC_CODEWORDS_PER_BLOCK = [
+  7, 10, 13, 17, 10, 16, 22, 28, 15, 26, 18, 22, 20, 18, 26, 16, 26, 24, 18, 22, 18, 16, 24, 28, 20, 18, 18, 26,
+  24, 22, 22, 26, 30, 22, 20, 24, 18, 26, 24, 28, 20, 30, 28, 24, 24, 22, 26, 28, 26, 22, 24, 22, 30, 24, 20, 24,
+  22, 24, 30, 24, 24, 28, 24, 30, 28, 28, 28, 28, 30, 26, 28, 28, 28, 26, 26, 26, 28, 26, 30, 28, 28, 26, 28, 30,
+  28, 28, 30, 24, 30, 28, 30, 30, 30, 28, 30, 30, 26, 28, 30, 30, 28, 28, 28, 30, 30, 28, 30, 30, 30, 28, 30, 30,
+  30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30,
+  30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30, 30, 28, 30, 30,
+];
+
+export const getSize = (version: number): number => 17 + 4 * version;
+
+// the number of codewords (data and error correction) a version holds, leaving out the remainder bits
+export const getTotalCodewords = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    modules -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return Math.floor(modules / 8);
+};
+
+export type BlockLayout = {
+  // data codewords of every block, shorter blocks come first
+  dataCodewords: number[];
+  ecCodewordsPerBlock: number;
+};
+
+export const getBlockLayout = (
+  version: number,
+  level: ErrorCorrectionLevel
+): BlockLayout => {
+  const index = (version - 1) * 4 + ERROR_CORRECTION_LEVELS.indexOf(level);
+  const blocks = EC_BLOCKS[index];
+  const ecCodewordsPerBlock = EC_CODEWORDS_PER_BLOCK[index];
+  const dataTotal = getTotalCodewords(version) - blocks * ecCodewordsPerBlock;
+  const shortBlocks = blocks - (dataTotal % blocks);
+  const shortLength = Math.floor(dataTotal / blocks);
+  const dataCodewords = [];
+  for (let i = 0; i < blocks; i++) {
+    dataCodewords.push(i < shortBlocks ? shortLength : shortLength + 1);
+  }
+  return { dataCodewords, ecCodewordsPerBlock };
+};
+
+export const getDataCapacity = (
+  version: number,
+  level: ErrorCorrectionLevel
+): number =>
+  getBlockLayout(version, level).dataCodewords.reduce((a, b) => a + b, 0);
+
+// centres of the alignment patterns along either axis
+export const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = getSize(version) - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+/**
+ * marks the modules used by finder, timing and alignment patterns and by format and version information
+ * @param version the QR code version
+ * @returns {boolean[][]} true for function modules, indexed by row then column
+ */
+export const getFunctionModules = (version: number): boolean[][] => {
+  const size = getSize(version);
+  const isFunction = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const mark = (row: number, col: number) => {
+    if (row >= 0 && row < size && col >= 0 && col < size) {
+      isFunction[row][col] = true;
+    }
+  };
+  for (let i = 0; i < size; i++) {
+    // timing patterns
+    mark(6, i);
+    mark(i, 6);
+  }
+  // finder patterns with their separators and the format information next to them
+  for (let i = 0; i < 9; i++) {
+    for (let j = 0; j < 9; j++) {
+      mark(i, j);
+      if (i < 8 && j < 8) {
+        mark(i, size - 1 - j);
+        mark(size - 1 - j, i);
+      }
+    }
+  }
+  for (let i = 0; i < 8; i++) {
+    mark(8, size - 1 - i);
+    mark(size - 1 - i, 8);
+  }
+  const positions = getAlignmentPatternPositions(version);
+  positions.forEach((row, i) =>
+    positions.forEach((col, j) => {
+      const last = positions.length - 1;
+      // the corners taken by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          mark(row + dy, col + dx);
+        }
+      }
+    })
+  );
+  if (version >= 7) {
+    for (let i = 0; i < 6; i++) {
+      for (let j = 0; j < 3; j++) {
+        mark(i, size - 11 + j);
+        mark(size - 11 + j, i);
+      }
+    }
+  }
+  return isFunction;
+};
+
+/**
+ * the positions of the codeword bits in placement order, two columns at a time zig-zagging up and down from the right
+ * @param version the QR code version
+ * @returns {[number, number][]} row and column of every data module
+ */
+export const getDataModulePositions = (version: number): [number, number][] => {
+  const size = getSize(version);
+  const isFunction = getFunctionModules(version);
+  const positions: [number, number][] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // skip the vertical timing pattern
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const row = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        if (!isFunction[row][col]) {
+          positions.push([row, col]);
+        }
+      }
+    }
+  }
+  return positions;
+};
+
+// ISO/IEC 18004 table 10, the data mask patterns
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (row, col) => (row + col) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_row, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0,
+];
+
+export const MASK_COUNT = MASKS.length;
+
+// whether the data mask pattern inverts the module
+export const isMasked = (mask: number, row: number, col: number): boolean =>
+  MASKS[mask](row, col);
+
+/**
+ * the 15 bit format information, BCH encoded and masked
+ * @param level the error correction level
+ * @param mask the data mask pattern
+ */
+export const encodeFormatInfo = (
+  level: ErrorCorrectionLevel,
+  mask: number
+): number => {
+  const data = (FORMAT_LEVEL_BITS[level] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+// positions of the format information bits, from the least significant bit, as [row, col]
+export const getFormatInfoPositions = (
+  version: number
+): [[number, number][], [number, number][]] => {
+  const size = getSize(version);
+  const first: [number, number][] = [];
+  const second: [number, number][] = [];
+  for (let i = 0; i <= 5; i++) {
+    first.push([i, 8]);
+  }
+  first.push([7, 8], [8, 8], [8, 7]);
+  for (let i = 9; i < 15; i++) {
+    first.push([8, 14 - i]);
+  }
+  for (let i = 0; i < 8; i++) {
+    second.push([8, size - 1 - i]);
+  }
+  for (let i = 8; i < 15; i++) {
+    second.push([size - 15 + i, 8]);
+  }
+  return [first, second];
+};
+
+/**
+ * the 18 bit version information, BCH encoded, for versions 7 and up
+ * @param version the QR code version
+ */
+export const encodeVersionInfo = (version: number): number => {
+  let rem = version;
+  for (let i = 0; i < 12; i++) {
+    rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  }
+  return (version << 12) | rem;
+};
+
+// positions of the version information bits, from the least significant bit, as [row, col]
+export const getVersionInfoPositions = (
+  version: number
+): [[number, number][], [number, number][]] => {
+  const size = getSize(version);
+  const first: [number, number][] = [];
+  const second: [number, number][] = [];
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    // bottom left, then top right
+    first.push([a, b]);
+    second.push([b, a]);
+  }
+  return [first, second];
+};
+
+export const countBits = (a: number, b: number): number => {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff) {
+    count += diff & 1;
+    diff >>>= 1;
+  }
+  return count;
+};
+
+// The characters of the alphanumeric mode, which covers `NZCP:/` and uppercase base32
+export const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+export const MODE_NUMERIC = 0x1;
+export const MODE_ALPHANUMERIC = 0x2;
+export const MODE_STRUCTURED_APPEND = 0x3;
+export const MODE_BYTE = 0x4;
+export const MODE_FNC1_FIRST = 0x5;
+export const MODE_ECI = 0x7;
+export const MODE_KANJI = 0x8;
+export const MODE_FNC1_SECOND = 0x9;
+
+// length of the character count indicator, ISO/IEC 18004 table 3
+export const getCharacterCountBits = (mode: number, version: number): number => {
+  const range = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case MODE_NUMERIC:
+      return [10, 12, 14][range];
+    case MODE_ALPHANUMERIC:
+      return [9, 11, 13][range];
+    case MODE_BYTE:
+      return [8, 16, 16][range];
+    case MODE_KANJI:
+      return [8, 10, 12][range];
+    default:
+      return 0;
+  }
+};
+
+// GF(256) with the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) {
+    x ^= 0x11d;
+  }
+}
+for (let i = 255; i < 512; i++) {
+  GF_EXP[i] = GF_EXP[i - 255];
+}
+
+export const gfMultiply = (a: number, b: number): number =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+
+const gfDivide = (a: number, b: number): number => {
+  if (b === 0) {
+    throw new Error("Division by zero in GF(256)");
+  }
+  return a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+};
+
+export const gfPow = (power: number): number => GF_EXP[((power % 255) + 255) % 255];
+
+// evaluates a polynomial with its coefficients from the lowest degree
+const evaluate = (poly: number[], x: number): number => {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMultiply(result, x) ^ poly[i];
+  }
+  return result;
+};
+
+/**
+ * computes the error correction codewords of a block
+ * @param data the data codewords
+ * @param ecCodewords the number of error correction codewords
+ * @returns {Uint8Array} the remainder of the data divided by the generator polynomial
+ */
+export const computeReedSolomon = (
+  data: Uint8Array,
+  ecCodewords: number
+): Uint8Array => {
+  // the generator polynomial (x - a^0)(x - a^1)...(x - a^(ecCodewords - 1)), highest degree first without its leading 1
+  const generator = new Uint8Array(ecCodewords);
+  generator[ecCodewords - 1] = 1;
+  for (let i = 0, root = 1; i < ecCodewords; i++) {
+    for (let j = 0; j < ecCodewords; j++) {
+      generator[j] = gfMultiply(generator[j], root);
+      if (j + 1 < ecCodewords) {
+        generator[j] ^= generator[j + 1];
+      }
+    }
+    root = gfMultiply(root, 2);
+  }
+  const remainder = new Uint8Array(ecCodewords);
+  data.forEach((byte) => {
+    const factor = byte ^ remainder[0];
+    remainder.copyWithin(0, 1);
+    remainder[ecCodewords - 1] = 0;
+    for (let i = 0; i < ecCodewords; i++) {
+      remainder[i] ^= gfMultiply(generator[i], factor);
+    }
+  });
+  return remainder;
+};
+
+/**
+ * corrects a Reed-Solomon block in place, using Berlekamp-Massey and Forney
+ * @param codewords data codewords followed by `ecCodewords` error correction codewords
+ * @param ecCodewords the number of error correction codewords
+ * @returns {boolean} whether the block is (now) free of errors
+ */
+export const correctReedSolomon = (
+  codewords: Uint8Array,
+  ecCodewords: number
+): boolean => {
+  const n = codewords.length;
+  // the codeword at index k is the coefficient of x^(n - 1 - k)
+  const syndromes: number[] = [];
+  for (let i = 0; i < ecCodewords; i++) {
+    let s = 0;
+    for (let k = 0; k < n; k++) {
+      s = gfMultiply(s, gfPow(i)) ^ codewords[k];
+    }
+    syndromes.push(s);
+  }
+  if (syndromes.every((s) => s === 0)) {
+    return true;
+  }
+
+  // Berlekamp-Massey, finds the error locator polynomial
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let i = 0; i < ecCodewords; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= errors; j++) {
+      discrepancy ^= gfMultiply(locator[j] ?? 0, syndromes[i - j]);
+    }
+    if (discrepancy === 0) {
+      shift += 1;
+      continue;
+    }
+    const coefficient = gfDivide(discrepancy, previousDiscrepancy);
+    const next = locator.slice();
+    for (let j = 0; j < previous.length; j++) {
+      next[j + shift] = (next[j + shift] ?? 0) ^ gfMultiply(coefficient, previous[j]);
+    }
+    if (2 * errors <= i) {
+      previous = locator;
+      errors = i + 1 - errors;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift += 1;
+    }
+    locator = next;
+  }
+  if (2 * errors > ecCodewords) {
+    return false;
+  }
+
+  // Chien search, the error at index k has locator X = a^(n - 1 - k) and Λ(X^-1) = 0
+  const positions: number[] = [];
+  for (let k = 0; k < n; k++) {
+    if (evaluate(locator, gfPow(-(n - 1 - k))) === 0) {
+      positions.push(k);
+    }
+  }
+  if (positions.length !== errors) {
+    return false;
+  }
+
+  // Forney, the error evaluator is Ω(x) = S(x)Λ(x) mod x^ecCodewords
+  const evaluator = new Array<number>(ecCodewords).fill(0);
+  for (let i = 0; i < ecCodewords; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      evaluator[i] ^= gfMultiply(syndromes[i - j], locator[j]);
+    }
+  }
+  // the formal derivative only keeps the odd powers in GF(2^8)
+  const derivative = locator.map((c, i) => (i % 2 === 1 ? c : 0)).slice(1);
+  for (const k of positions) {
+    const x = gfPow(n - 1 - k);
+    const xInverse = gfPow(-(n - 1 - k));
+    const denominator = evaluate(derivative, xInverse);
+    if (denominator === 0) {
+      return false;
+    }
+    codewords[k] ^= gfMultiply(x, gfDivide(evaluate(evaluator, xInverse), denominator));
+  }
+  return true;
+};
@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import { decodePNG } from "./png";
+import { decodeQR } from "./qrDecode";
+import { DID_DOCUMENTS, TRUSTED_ISSUERS, verifyPassImage, verifyPassImageOffline } from "./main";
+
+// https://nzcp.covid19.health.nz/#valid-worked-example
+const EXAMPLE_PASS =
+  "NZCP:/1/2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUYMBTIFAIGTUKBAAUYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RPMNXW45DFPB2HGL3WGFTXMZLSONUW63TFGEXDALRQMR2HS4DFQJ2FMZLSNFTGSYLCNRSUG4TFMRSW45DJMFWG6UDVMJWGSY2DN53GSZCQMFZXG4LDOJSWIZLOORUWC3CTOVRGUZLDOSRWSZ3JOZSW4TTBNVSWISTBMNVWUZTBNVUWY6KOMFWWKZ2TOBQXE4TPO5RWI33CNIYTSNRQFUYDILJRGYDVAYFE6VGU4MCDGK7DHLLYWHVPUS2YIDJOA6Y524TD3AZRM263WTY2BE4DPKIF27WKF3UDNNVSVWRDYIYVJ65IRJJJ6Z25M2DO4YZLBHWFQGVQR5ZLIWEQJOZTS3IQ7JTNCFDX";
+
+const readFixture = (name: string) => new Uint8Array(fs.readFileSync(path.join(__dirname, name)));
+
+// the example pass QR code, and the same code photographed at an angle in uneven light
+const EXAMPLE_PASS_QR = readFixture("examplePassQR.png");
+const EXAMPLE_PASS_QR_PHOTO = readFixture("examplePassQRPhoto.png");
+const NON_NZCP_QR = readFixture("nonNZCPQR.png");
+
+const BLANK_IMAGE = { width: 100, height: 100, data: new Uint8Array(100 * 100).fill(255) };
+
+test("QR code in a PNG image decodes", () => {
+  expect(decodeQR(EXAMPLE_PASS_QR)).toBe(EXAMPLE_PASS);
+});
+
+test("QR code in a distorted, unevenly lit photo decodes", () => {
+  expect(decodeQR(EXAMPLE_PASS_QR_PHOTO)).toBe(EXAMPLE_PASS);
+});
+
+test("QR code in RGBA and greyscale pixels decodes", () => {
+  const { width, height, data } = decodePNG(EXAMPLE_PASS_QR);
+  expect(decodeQR({ width, height, data: new Uint8ClampedArray(data) })).toBe(EXAMPLE_PASS);
+  const grey = data.filter((_, i) => i % 4 === 0);
+  expect(decodeQR({ width, height, data: grey })).toBe(EXAMPLE_PASS);
+});
+
+test("QR code rotated by 90 degrees decodes", () => {
+  const { width, height, data } = decodePNG(EXAMPLE_PASS_QR);
+  const rotated = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rotated[x * height + (height - 1 - y)] = data[(y * width + x) * 4];
+    }
+  }
+  expect(decodeQR({ width: height, height: width, data: rotated })).toBe(EXAMPLE_PASS);
+});
+
+test("QR code with damaged modules decodes", () => {
+  const { width, height, data } = decodePNG(EXAMPLE_PASS_QR);
+  // a smudge over the middle of the code, within what error correction level M recovers
+  for (let y = Math.floor(height * 0.45); y < height * 0.5; y++) {
+    for (let x = Math.floor(width * 0.45); x < width * 0.5; x++) {
+      data.set([0, 0, 0, 255], (y * width + x) * 4);
+    }
+  }
+  expect(decodeQR({ width, height, data })).toBe(EXAMPLE_PASS);
+});
+
+test("Image without a QR code decodes to undefined", () => {
+  expect(decodeQR(BLANK_IMAGE)).toBeUndefined();
+});
+
+test("Image data of the wrong size throws", () => {
+  expect(() => decodeQR({ width: 10, height: 10, data: new Uint8Array(3) })).toThrowError();
+  expect(() => decodeQR(new Uint8Array([1, 2, 3]))).toThrowError("Image bytes MUST be a PNG image");
+});
+
+test("Offline image usage, valid pass is successful", () => {
+  const result = verifyPassImageOffline(EXAMPLE_PASS_QR_PHOTO, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(true);
+  expect(result.credentialSubject?.givenName).toBe("Jack");
+});
+
+test("Offline image usage, image without a QR code fails with section 4.3", () => {
+  const result = verifyPassImageOffline(BLANK_IMAGE, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("4.3");
+});
+
+test("Offline image usage, unreadable image fails with section 4.3", () => {
+  const result = verifyPassImageOffline(new Uint8Array([1, 2, 3]), { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("4.3");
+});
+
+test("Offline image usage, QR code that is not a pass fails with section 4.4", () => {
+  const result = verifyPassImageOffline(NON_NZCP_QR, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("4.4");
+  expect(result.violates?.message).toContain("NZCP:/");
+});
+
+test("Image usage, resolves the issuer of the pass", async () => {
+  const resolve = jest.fn(async () => ({
+    didResolutionMetadata: {},
+    didDocument: DID_DOCUMENTS.MOH_EXAMPLE,
+    didDocumentMetadata: {},
+  }));
+  const result = await verifyPassImage(EXAMPLE_PASS_QR, { trustedIssuer: TRUSTED_ISSUERS.MOH_EXAMPLE, resolver: { resolve } });
+  expect(resolve).toHaveBeenCalledWith(TRUSTED_ISSUERS.MOH_EXAMPLE);
+  expect(result.success).toBe(true);
+});
+
+test("Image usage, image without a QR code fails with section 4.3", async () => {
+  const result = await verifyPassImage(BLANK_IMAGE);
+  expect(result.success).toBe(false);
+  expect(result.violates?.section).toBe("4.3");
+});
@@ -0,0 +1,732 @@
+import { decodePNG, isPNG } from "./png";
+import {
+  ALPHANUMERIC_CHARSET,
+  correctReedSolomon,
+  countBits,
+  encodeFormatInfo,
+  encodeVersionInfo,
+  ERROR_CORRECTION_LEVELS,
+  ErrorCorrectionLevel,
+  getBlockLayout,
+  getCharacterCountBits,
+  getDataModulePositions,
+  getFormatInfoPositions,
+  getSize,
+  getTotalCodewords,
+  getVersionInfoPositions,
+  isMasked,
+  MASK_COUNT,
+  MODE_ALPHANUMERIC,
+  MODE_BYTE,
+  MODE_ECI,
+  MODE_FNC1_FIRST,
+  MODE_FNC1_SECOND,
+  MODE_KANJI,
+  MODE_NUMERIC,
+  MODE_STRUCTURED_APPEND,
+} from "./qr";
+
+// Reads the payload of a QR code from an image, so passes can be verified from photos and screenshots
+// https://nzcp.covid19.health.nz/#2d-barcode-encoding
+
+// PNG file bytes, or raw pixels with either 4 (RGBA) or 1 (greyscale) bytes per pixel, e.g. canvas ImageData
+export type QRImage =
+  | Uint8Array
+  | {
+      width: number;
+      height: number;
+      data: Uint8Array | Uint8ClampedArray;
+    };
+
+type Point = { x: number; y: number };
+
+type FinderPattern = Point & {
+  moduleSize: number;
+  // how many scan lines found the pattern
+  count: number;
+};
+
+// a binarized image, 1 for dark pixels
+type BitImage = {
+  width: number;
+  height: number;
+  bits: Uint8Array;
+};
+
+const getLuminance = (image: QRImage): { width: number; height: number; luminance: Uint8Array } => {
+  const { width, height, data } = image instanceof Uint8Array ? decodePNG(image) : image;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error("Invalid image dimensions");
+  }
+  const pixels = width * height;
+  if (data.length === pixels) {
+    return { width, height, luminance: Uint8Array.from(data) };
+  }
+  if (data.length !== pixels * 4) {
+    throw new Error("Image data MUST have 1 (greyscale) or 4 (RGBA) bytes per pixel");
+  }
+  const luminance = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const [r, g, b, a] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]];
+    const grey = (r * 299 + g * 587 + b * 114) / 1000;
+    // transparent pixels are composited over white
+    luminance[i] = Math.round((grey * a + 255 * (255 - a)) / 255);
+  }
+  return { width, height, luminance };
+};
+
+// Local thresholding in 8x8 blocks, so uneven lighting in photos does not hide modules (as in ZXing's HybridBinarizer)
+const binarize = (width: number, height: number, luminance: Uint8Array): BitImage => {
+  const bits = new Uint8Array(width * height);
+  const BLOCK = 8;
+  if (width < BLOCK * 5 || height < BLOCK * 5) {
+    let min = 255;
+    let max = 0;
+    luminance.forEach((l) => {
+      min = Math.min(min, l);
+      max = Math.max(max, l);
+    });
+    const threshold = (min + max) / 2;
+    luminance.forEach((l, i) => {
+      bits[i] = l <= threshold ? 1 : 0;
+    });
+    return { width, height, bits };
+  }
+  const blocksX = Math.ceil(width / BLOCK);
+  const blocksY = Math.ceil(height / BLOCK);
+  const blackPoints = new Float64Array(blocksX * blocksY);
+  for (let by = 0; by < blocksY; by++) {
+    const top = Math.min(by * BLOCK, height - BLOCK);
+    for (let bx = 0; bx < blocksX; bx++) {
+      const left = Math.min(bx * BLOCK, width - BLOCK);
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = top; y < top + BLOCK; y++) {
+        for (let x = left; x < left + BLOCK; x++) {
+          const l = luminance[y * width + x];
+          sum += l;
+          min = Math.min(min, l);
+          max = Math.max(max, l);
+        }
+      }
+      let blackPoint = sum / (BLOCK * BLOCK);
+      if (max - min <= 24) {
+        // a flat block is assumed to be light, unless its neighbours say it is darker than their threshold
+        blackPoint = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours =
+            (blackPoints[(by - 1) * blocksX + bx] +
+              2 * blackPoints[by * blocksX + bx - 1] +
+              blackPoints[(by - 1) * blocksX + bx - 1]) /
+            4;
+          if (min < neighbours) {
+            blackPoint = neighbours;
+          }
+        }
+      }
+      blackPoints[by * blocksX + bx] = blackPoint;
+    }
+  }
+  for (let by = 0; by < blocksY; by++) {
+    const top = Math.min(by * BLOCK, height - BLOCK);
+    const cy = Math.min(Math.max(by, 2), blocksY - 3);
+    for (let bx = 0; bx < blocksX; bx++) {
+      const left = Math.min(bx * BLOCK, width - BLOCK);
+      const cx = Math.min(Math.max(bx, 2), blocksX - 3);
+      let sum = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          sum += blackPoints[(cy + dy) * blocksX + cx + dx];
+        }
+      }
+      const threshold = sum / 25;
+      for (let y = top; y < top + BLOCK; y++) {
+        for (let x = left; x < left + BLOCK; x++) {
+          bits[y * width + x] = luminance[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return { width, height, bits };
+};
+
+const isDark = (image: BitImage, x: number, y: number): boolean =>
+  image.bits[y * image.width + x] === 1;
+
+const inside = (image: BitImage, x: number, y: number): boolean =>
+  x >= 0 && y >= 0 && x < image.width && y < image.height;
+
+// whether runs of dark, light, dark, light and dark pixels are in the 1:1:3:1:1 ratio of a finder pattern
+const isFinderRatio = (counts: number[]): boolean => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total < 7 || counts.some((c) => c === 0)) {
+    return false;
+  }
+  const moduleSize = total / 7;
+  const variance = moduleSize / 2;
+  return counts.every((c, i) =>
+    i === 2
+      ? Math.abs(c - 3 * moduleSize) < 3 * variance
+      : Math.abs(c - moduleSize) < variance
+  );
+};
+
+/**
+ * measures the runs of a finder pattern through a dark pixel, in both directions along (dx, dy)
+ * @returns the five run lengths and the centre of the middle run, or undefined if there is no finder pattern
+ */
+const crossCheck = (
+  image: BitImage,
+  start: Point,
+  dx: number,
+  dy: number,
+  maxCount: number
+): { counts: number[]; center: Point } | undefined => {
+  const at = (t: number): Point => ({
+    x: Math.round(start.x + dx * t),
+    y: Math.round(start.y + dy * t),
+  });
+  const dark = (t: number) => {
+    const p = at(t);
+    return inside(image, p.x, p.y) ? isDark(image, p.x, p.y) : undefined;
+  };
+  if (!dark(0)) {
+    return undefined;
+  }
+  const counts = [0, 0, 0, 0, 0];
+  // walks from `t` in `step` direction while the pixels have the colour, returning where it stopped
+  const run = (t: number, step: number, colour: boolean, index: number, limit: number): number => {
+    while (dark(t) === colour && counts[index] <= limit) {
+      counts[index] += 1;
+      t += step;
+    }
+    return t;
+  };
+  let t = run(0, -1, true, 2, Infinity);
+  const first = t + 1;
+  t = run(t, -1, false, 1, maxCount);
+  if (dark(t) === undefined || counts[1] > maxCount) {
+    return undefined;
+  }
+  run(t, -1, true, 0, maxCount);
+  t = run(1, 1, true, 2, Infinity);
+  const last = t - 1;
+  t = run(t, 1, false, 3, maxCount);
+  if (dark(t) === undefined || counts[3] > maxCount) {
+    return undefined;
+  }
+  run(t, 1, true, 4, maxCount);
+  if (counts[0] > maxCount || counts[4] > maxCount || !isFinderRatio(counts)) {
+    return undefined;
+  }
+  const middle = (first + last) / 2;
+  return {
+    counts,
+    center: { x: start.x + dx * middle, y: start.y + dy * middle },
+  };
+};
+
+const sum = (counts: number[]): number => counts.reduce((a, b) => a + b, 0);
+
+// scans every row for 1:1:3:1:1 runs, confirming them vertically and horizontally through their centre
+const findFinderPatterns = (image: BitImage): FinderPattern[] => {
+  const patterns: FinderPattern[] = [];
+  for (let y = 0; y < image.height; y++) {
+    // run lengths of the row, starting with a light run
+    const runs: number[] = [];
+    let colour = false;
+    let length = 0;
+    for (let x = 0; x < image.width; x++) {
+      if (isDark(image, x, y) !== colour) {
+        runs.push(length);
+        colour = !colour;
+        length = 0;
+      }
+      length += 1;
+    }
+    runs.push(length);
+    let x = runs[0];
+    // odd indexes are dark runs
+    for (let i = 1; i + 4 < runs.length; i += 2) {
+      const counts = runs.slice(i, i + 5);
+      if (isFinderRatio(counts)) {
+        const total = sum(counts);
+        const centerX = x + counts[0] + counts[1] + counts[2] / 2;
+        const vertical = crossCheck(image, { x: Math.floor(centerX), y }, 0, 1, counts[2]);
+        if (vertical && 5 * Math.abs(sum(vertical.counts) - total) < 2 * total) {
+          const horizontal = crossCheck(
+            image,
+            { x: Math.floor(centerX), y: Math.round(vertical.center.y) },
+            1,
+            0,
+            vertical.counts[2]
+          );
+          if (horizontal) {
+            const moduleSize = (sum(vertical.counts) + sum(horizontal.counts)) / 14;
+            addFinderPattern(patterns, {
+              x: horizontal.center.x + 0.5,
+              y: vertical.center.y + 0.5,
+              moduleSize,
+              count: 1,
+            });
+          }
+        }
+      }
+      x += runs[i] + runs[i + 1];
+    }
+  }
+  return patterns;
+};
+
+// merges a finder pattern into one found by an earlier scan line
+const addFinderPattern = (patterns: FinderPattern[], found: FinderPattern) => {
+  const existing = patterns.find(
+    (p) =>
+      Math.abs(p.x - found.x) <= p.moduleSize &&
+      Math.abs(p.y - found.y) <= p.moduleSize &&
+      Math.abs(p.moduleSize - found.moduleSize) <= Math.max(1, p.moduleSize / 2)
+  );
+  if (!existing) {
+    patterns.push(found);
+    return;
+  }
+  const count = existing.count + 1;
+  existing.x = (existing.x * existing.count + found.x) / count;
+  existing.y = (existing.y * existing.count + found.y) / count;
+  existing.moduleSize = (existing.moduleSize * existing.count + found.moduleSize) / count;
+  existing.count = count;
+};
+
+const distanceSquared = (a: Point, b: Point): number =>
+  (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+/**
+ * finds the triples of finder patterns that could be the corners of a QR code, best first
+ * @returns {FinderPattern[][]} top left, top right and bottom left finder patterns
+ */
+const selectFinderPatterns = (patterns: FinderPattern[]): FinderPattern[][] => {
+  const confirmed = patterns.filter((p) => p.count >= 2);
+  const candidates = (confirmed.length >= 3 ? confirmed : patterns)
+    .slice()
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10);
+  const triples: { score: number; patterns: FinderPattern[] }[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      for (let k = j + 1; k < candidates.length; k++) {
+        const triple = [candidates[i], candidates[j], candidates[k]];
+        const sizes = triple.map((p) => p.moduleSize);
+        if (Math.max(...sizes) > 1.5 * Math.min(...sizes)) {
+          continue;
+        }
+        // the top left finder pattern is the one opposite the longest side
+        const sides = [
+          distanceSquared(triple[1], triple[2]),
+          distanceSquared(triple[0], triple[2]),
+          distanceSquared(triple[0], triple[1]),
+        ];
+        const corner = sides.indexOf(Math.max(...sides));
+        const topLeft = triple[corner];
+        let [a, b] = triple.filter((_, n) => n !== corner);
+        const [c2, a2, b2] = [sides[corner], ...sides.filter((_, n) => n !== corner)];
+        // a code is at least 21 modules wide, so the finder patterns are at least 14 modules apart
+        const moduleSize = (sizes[0] + sizes[1] + sizes[2]) / 3;
+        if (Math.min(a2, b2) < (14 * moduleSize) ** 2 * 0.5) {
+          continue;
+        }
+        const score = Math.abs(a2 + b2 - c2) / c2 + Math.abs(a2 - b2) / c2;
+        if (score > 0.5) {
+          continue;
+        }
+        // top right is clockwise from bottom left, around the top left
+        const cross = (a.x - topLeft.x) * (b.y - topLeft.y) - (a.y - topLeft.y) * (b.x - topLeft.x);
+        if (cross < 0) {
+          [a, b] = [b, a];
+        }
+        triples.push({ score, patterns: [topLeft, a, b] });
+      }
+    }
+  }
+  return triples.sort((x, y) => x.score - y.score).map((t) => t.patterns);
+};
+
+// a 3x3 projective transform, [a11, a21, a31, a12, a22, a32, a13, a23, a33]
+type Transform = number[];
+
+const squareToQuadrilateral = (p: Point[]): Transform => {
+  const [p0, p1, p2, p3] = p;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0, 1];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + a13 * p1.x,
+    p3.x - p0.x + a23 * p3.x,
+    p0.x,
+    p1.y - p0.y + a13 * p1.y,
+    p3.y - p0.y + a23 * p3.y,
+    p0.y,
+    a13,
+    a23,
+    1,
+  ];
+};
+
+const adjoint = ([a11, a21, a31, a12, a22, a32, a13, a23, a33]: Transform): Transform => [
+  a22 * a33 - a23 * a32,
+  a23 * a31 - a21 * a33,
+  a21 * a32 - a22 * a31,
+  a13 * a32 - a12 * a33,
+  a11 * a33 - a13 * a31,
+  a12 * a31 - a11 * a32,
+  a12 * a23 - a13 * a22,
+  a13 * a21 - a11 * a23,
+  a11 * a22 - a12 * a21,
+];
+
+const multiply = (m: Transform, o: Transform): Transform => {
+  const [a11, a21, a31, a12, a22, a32, a13, a23, a33] = m;
+  const [b11, b21, b31, b12, b22, b32, b13, b23, b33] = o;
+  return [
+    a11 * b11 + a21 * b12 + a31 * b13,
+    a11 * b21 + a21 * b22 + a31 * b23,
+    a11 * b31 + a21 * b32 + a31 * b33,
+    a12 * b11 + a22 * b12 + a32 * b13,
+    a12 * b21 + a22 * b22 + a32 * b23,
+    a12 * b31 + a22 * b32 + a32 * b33,
+    a13 * b11 + a23 * b12 + a33 * b13,
+    a13 * b21 + a23 * b22 + a33 * b23,
+    a13 * b31 + a23 * b32 + a33 * b33,
+  ];
+};
+
+// maps the points `from` onto the points `to`
+const getTransform = (from: Point[], to: Point[]): Transform =>
+  multiply(squareToQuadrilateral(to), adjoint(squareToQuadrilateral(from)));
+
+const transformPoint = (m: Transform, x: number, y: number): Point => {
+  const denominator = m[6] * x + m[7] * y + m[8];
+  return {
+    x: (m[0] * x + m[1] * y + m[2]) / denominator,
+    y: (m[3] * x + m[4] * y + m[5]) / denominator,
+  };
+};
+
+/**
+ * finds the bottom right alignment pattern near where the finder patterns place it
+ * @param estimate where the alignment pattern would be if the code was not distorted
+ * @param u the vector of one module along a row
+ * @param v the vector of one module along a column
+ * @returns {Point | undefined} the centre of the alignment pattern
+ */
+const findAlignmentPattern = (
+  image: BitImage,
+  estimate: Point,
+  u: Point,
+  v: Point
+): Point | undefined => {
+  const moduleSize = Math.sqrt(Math.max(u.x ** 2 + u.y ** 2, v.x ** 2 + v.y ** 2));
+  const radius = Math.ceil(moduleSize * 4);
+  let best = 0;
+  let found: Point[] = [];
+  for (let y = Math.round(estimate.y) - radius; y <= estimate.y + radius; y++) {
+    for (let x = Math.round(estimate.x) - radius; x <= estimate.x + radius; x++) {
+      // a dark centre in a light ring in a dark ring
+      let score = 0;
+      for (let j = -2; j <= 2; j++) {
+        for (let i = -2; i <= 2; i++) {
+          const px = Math.floor(x + 0.5 + i * u.x + j * v.x);
+          const py = Math.floor(y + 0.5 + i * u.y + j * v.y);
+          const expected = Math.max(Math.abs(i), Math.abs(j)) !== 1;
+          if (inside(image, px, py) && isDark(image, px, py) === expected) {
+            score += 1;
+          }
+        }
+      }
+      if (score > best) {
+        best = score;
+        found = [];
+      }
+      if (score === best) {
+        found.push({ x, y });
+      }
+    }
+  }
+  if (best < 23) {
+    return undefined;
+  }
+  return {
+    x: found.reduce((a, p) => a + p.x, 0) / found.length + 0.5,
+    y: found.reduce((a, p) => a + p.y, 0) / found.length + 0.5,
+  };
+};
+
+// samples the modules of a code of the given version, `undefined` if the code does not fit the image
+const sampleGrid = (
+  image: BitImage,
+  [topLeft, topRight, bottomLeft]: FinderPattern[],
+  version: number
+): boolean[][] | undefined => {
+  const size = getSize(version);
+  const span = size - 7;
+  const u = { x: (topRight.x - topLeft.x) / span, y: (topRight.y - topLeft.y) / span };
+  const v = { x: (bottomLeft.x - topLeft.x) / span, y: (bottomLeft.y - topLeft.y) / span };
+  // without an alignment pattern, the bottom right corner completes the parallelogram
+  let bottomRight = {
+    x: topRight.x + bottomLeft.x - topLeft.x,
+    y: topRight.y + bottomLeft.y - topLeft.y,
+  };
+  let bottomRightModule = size - 3.5;
+  if (version >= 2) {
+    const offset = span - 3;
+    const alignment = findAlignmentPattern(
+      image,
+      {
+        x: topLeft.x + offset * (u.x + v.x),
+        y: topLeft.y + offset * (u.y + v.y),
+      },
+      u,
+      v
+    );
+    if (alignment) {
+      bottomRight = alignment;
+      bottomRightModule = size - 6.5;
+    }
+  }
+  const transform = getTransform(
+    [
+      { x: 3.5, y: 3.5 },
+      { x: size - 3.5, y: 3.5 },
+      { x: bottomRightModule, y: bottomRightModule },
+      { x: 3.5, y: size - 3.5 },
+    ],
+    [topLeft, topRight, bottomRight, bottomLeft]
+  );
+  const matrix: boolean[][] = [];
+  for (let row = 0; row < size; row++) {
+    const line: boolean[] = [];
+    for (let col = 0; col < size; col++) {
+      const p = transformPoint(transform, col + 0.5, row + 0.5);
+      const x = Math.floor(p.x);
+      const y = Math.floor(p.y);
+      if (!inside(image, x, y)) {
+        return undefined;
+      }
+      line.push(isDark(image, x, y));
+    }
+    matrix.push(line);
+  }
+  return matrix;
+};
+
+const readBits = (matrix: boolean[][], positions: [number, number][]): number =>
+  positions.reduce((value, [row, col], i) => value | ((matrix[row][col] ? 1 : 0) << i), 0);
+
+// the format information with the fewest bit errors in either copy, tolerating up to 3
+const readFormatInfo = (
+  matrix: boolean[][],
+  version: number
+): { level: ErrorCorrectionLevel; mask: number } | undefined => {
+  const copies = getFormatInfoPositions(version).map((p) => readBits(matrix, p));
+  let best: { level: ErrorCorrectionLevel; mask: number } | undefined;
+  let bestDistance = 4;
+  ERROR_CORRECTION_LEVELS.forEach((level) => {
+    for (let mask = 0; mask < MASK_COUNT; mask++) {
+      const format = encodeFormatInfo(level, mask);
+      const distance = Math.min(...copies.map((copy) => countBits(copy, format)));
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { level, mask };
+      }
+    }
+  });
+  return best;
+};
+
+const readVersionInfo = (matrix: boolean[][], version: number): number | undefined => {
+  const copies = getVersionInfoPositions(version).map((p) => readBits(matrix, p));
+  let best: number | undefined;
+  let bestDistance = 4;
+  for (let candidate = 7; candidate <= 40; candidate++) {
+    const info = encodeVersionInfo(candidate);
+    const distance = Math.min(...copies.map((copy) => countBits(copy, info)));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+// unmasks the data modules, separates the interleaved blocks and corrects errors in each
+const readCodewords = (
+  matrix: boolean[][],
+  version: number,
+  level: ErrorCorrectionLevel,
+  mask: number
+): Uint8Array | undefined => {
+  const codewords = new Uint8Array(getTotalCodewords(version));
+  getDataModulePositions(version)
+    .slice(0, codewords.length * 8)
+    .forEach(([row, col], i) => {
+      if (matrix[row][col] !== isMasked(mask, row, col)) {
+        codewords[i >> 3] |= 0x80 >> (i & 7);
+      }
+    });
+  const { dataCodewords, ecCodewordsPerBlock } = getBlockLayout(version, level);
+  const blocks = dataCodewords.map((length) => new Uint8Array(length + ecCodewordsPerBlock));
+  const longest = Math.max(...dataCodewords);
+  let k = 0;
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block, b) => {
+      if (i < dataCodewords[b]) {
+        block[i] = codewords[k++];
+      }
+    });
+  }
+  for (let i = 0; i < ecCodewordsPerBlock; i++) {
+    blocks.forEach((block, b) => {
+      block[dataCodewords[b] + i] = codewords[k++];
+    });
+  }
+  if (!blocks.every((block) => correctReedSolomon(block, ecCodewordsPerBlock))) {
+    return undefined;
+  }
+  const data = new Uint8Array(dataCodewords.reduce((a, b) => a + b, 0));
+  blocks.reduce((offset, block, b) => {
+    data.set(block.subarray(0, dataCodewords[b]), offset);
+    return offset + dataCodewords[b];
+  }, 0);
+  return data;
+};
+
+/**
+ * decodes the segments of the data codewords into text
+ * ECI designators are skipped, byte segments are read as UTF-8 and kanji as replacement characters
+ * @returns {string | undefined} the payload, or undefined if the segments are malformed
+ */
+const decodeSegments = (data: Uint8Array, version: number): string | undefined => {
+  let pos = 0;
+  const remaining = () => data.length * 8 - pos;
+  const read = (count: number): number => {
+    if (count > remaining()) {
+      throw new Error("Segment exceeds the data codewords");
+    }
+    let value = 0;
+    for (let i = 0; i < count; i++, pos++) {
+      value = (value << 1) | ((data[pos >> 3] >> (7 - (pos & 7))) & 1);
+    }
+    return value;
+  };
+  let text = "";
+  try {
+    while (remaining() >= 4) {
+      const mode = read(4);
+      if (mode === 0) {
+        break;
+      }
+      // 0 bits for the modes without a character count
+      const count = read(getCharacterCountBits(mode, version));
+      if (mode === MODE_NUMERIC) {
+        for (let left = count; left > 0; left -= 3) {
+          const digits = Math.min(left, 3);
+          const value = read([0, 4, 7, 10][digits]);
+          text += value.toString().padStart(digits, "0");
+        }
+      } else if (mode === MODE_ALPHANUMERIC) {
+        for (let left = count; left > 0; left -= 2) {
+          if (left >= 2) {
+            const value = read(11);
+            text += ALPHANUMERIC_CHARSET[Math.floor(value / 45)] + ALPHANUMERIC_CHARSET[value % 45];
+          } else {
+            text += ALPHANUMERIC_CHARSET[read(6)];
+          }
+        }
+      } else if (mode === MODE_BYTE) {
+        const bytes = new Uint8Array(count);
+        for (let i = 0; i < count; i++) {
+          bytes[i] = read(8);
+        }
+        text += new TextDecoder().decode(bytes);
+      } else if (mode === MODE_KANJI) {
+        read(13 * count);
+        text += "�".repeat(count);
+      } else if (mode === MODE_ECI) {
+        // the designator is 1, 2 or 3 bytes long depending on its leading bits
+        const first = read(8);
+        if ((first & 0x80) !== 0) {
+          read((first & 0x40) === 0 ? 8 : 16);
+        }
+      } else if (mode === MODE_STRUCTURED_APPEND) {
+        read(16);
+      } else if (mode === MODE_FNC1_SECOND) {
+        read(8);
+      } else if (mode !== MODE_FNC1_FIRST) {
+        return undefined;
+      }
+    }
+  } catch (err) {
+    return undefined;
+  }
+  return text;
+};
+
+const decodeMatrix = (matrix: boolean[][], version: number): string | undefined => {
+  const format = readFormatInfo(matrix, version);
+  if (!format) {
+    return undefined;
+  }
+  const data = readCodewords(matrix, version, format.level, format.mask);
+  return data ? decodeSegments(data, version) : undefined;
+};
+
+/**
+ * finds and decodes a QR code in an image
+ * @param image PNG bytes, or RGBA or greyscale pixels
+ * @returns {string | undefined} the payload of the QR code, or undefined if no QR code could be read
+ */
+export const decodeQR = (image: QRImage): string | undefined => {
+  if (image instanceof Uint8Array && !isPNG(image)) {
+    throw new Error("Image bytes MUST be a PNG image");
+  }
+  const { width, height, luminance } = getLuminance(image);
+  const bits = binarize(width, height, luminance);
+  const triples = selectFinderPatterns(findFinderPatterns(bits)).slice(0, 5);
+  for (const triple of triples) {
+    const [topLeft, topRight, bottomLeft] = triple;
+    const moduleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    const modules =
+      (Math.sqrt(distanceSquared(topLeft, topRight)) +
+        Math.sqrt(distanceSquared(topLeft, bottomLeft))) /
+        (2 * moduleSize) +
+      7;
+    const estimate = Math.round((modules - 17) / 4);
+    // the module size is measured from the finder patterns only, so neighbouring versions are tried too
+    const versions = [estimate, estimate - 1, estimate + 1, estimate - 2, estimate + 2].filter(
+      (v) => v >= 1 && v <= 40
+    );
+    for (const version of versions) {
+      const matrix = sampleGrid(bits, triple, version);
+      if (!matrix) {
+        continue;
+      }
+      if (version >= 7 && readVersionInfo(matrix, version) !== version) {
+        continue;
+      }
+      const text = decodeMatrix(matrix, version);
+      if (text !== undefined) {
+        return text;
+      }
+    }
+  }
+  return undefined;
+};
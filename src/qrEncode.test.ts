@@ -0,0 +1,82 @@
+import { decodePNG } from "./png";
+import { encodeQR, QRCode, renderQRToPNG, renderQRToSVG } from "./qrEncode";
+import { DID_DOCUMENTS, verifyPassImageOffline } from "./main";
+
+// https://nzcp.covid19.health.nz/#valid-worked-example
+const EXAMPLE_PASS =
+  "NZCP:/1/2KCEVIQEIVVWK6JNGEASNICZAEP2KALYDZSGSZB2O5SWEOTOPJRXALTDN53GSZBRHEXGQZLBNR2GQLTOPICRUYMBTIFAIGTUKBAAUYTWMOSGQQDDN5XHIZLYOSBHQJTIOR2HA4Z2F4XXO53XFZ3TGLTPOJTS6MRQGE4C6Y3SMVSGK3TUNFQWY4ZPOYYXQKTIOR2HA4Z2F4XW46TDOAXGG33WNFSDCOJONBSWC3DUNAXG46RPMNXW45DFPB2HGL3WGFTXMZLSONUW63TFGEXDALRQMR2HS4DFQJ2FMZLSNFTGSYLCNRSUG4TFMRSW45DJMFWG6UDVMJWGSY2DN53GSZCQMFZXG4LDOJSWIZLOORUWC3CTOVRGUZLDOSRWSZ3JOZSW4TTBNVSWISTBMNVWUZTBNVUWY6KOMFWWKZ2TOBQXE4TPO5RWI33CNIYTSNRQFUYDILJRGYDVAYFE6VGU4MCDGK7DHLLYWHVPUS2YIDJOA6Y524TD3AZRM263WTY2BE4DPKIF27WKF3UDNNVSVWRDYIYVJ65IRJJJ6Z25M2DO4YZLBHWFQGVQR5ZLIWEQJOZTS3IQ7JTNCFDX";
+
+// draws the dark rectangles of an SVG path back into greyscale pixels, one pixel per module
+const rasterizeSVG = (svg: string) => {
+  const dimension = Number((svg.match(/viewBox="0 0 (\d+) \d+"/) as RegExpMatchArray)[1]);
+  const data = new Uint8Array(dimension * dimension).fill(255);
+  for (const [, x, y, width] of svg.matchAll(/M(\d+) (\d+)h(\d+)v1h-\d+z/g)) {
+    data.fill(0, Number(y) * dimension + Number(x), Number(y) * dimension + Number(x) + Number(width));
+  }
+  // scale up so the decoder sees modules wider than a pixel
+  const scale = 4;
+  const scaled = new Uint8Array(dimension * scale * dimension * scale);
+  scaled.forEach((_, i) => {
+    const x = Math.floor((i % (dimension * scale)) / scale);
+    const y = Math.floor(Math.floor(i / (dimension * scale)) / scale);
+    scaled[i] = data[y * dimension + x];
+  });
+  return { width: dimension * scale, height: dimension * scale, data: scaled };
+};
+
+const darkModules = (qr: QRCode) => qr.modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+
+test("Pass URIs are encoded in alphanumeric mode", () => {
+  // byte mode would need version 19 for the 600 characters of the example pass
+  expect(encodeQR(EXAMPLE_PASS).version).toBe(15);
+  expect(encodeQR(EXAMPLE_PASS.toLowerCase()).version).toBe(19);
+});
+
+test("Error correction level picks the version", () => {
+  expect(encodeQR(EXAMPLE_PASS, { errorCorrectionLevel: "L" }).version).toBe(13);
+  expect(encodeQR(EXAMPLE_PASS, { errorCorrectionLevel: "H" }).version).toBe(22);
+});
+
+test("Every error correction level round trips through verifyPassImageOffline", () => {
+  (["L", "M", "Q", "H"] as const).forEach((errorCorrectionLevel) => {
+    const qr = encodeQR(EXAMPLE_PASS, { errorCorrectionLevel });
+    expect(qr.size).toBe(17 + 4 * qr.version);
+    const result = verifyPassImageOffline(renderQRToPNG(qr), { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+    expect(result.success).toBe(true);
+  });
+});
+
+test("Every mask round trips through verifyPassImageOffline", () => {
+  for (let mask = 0; mask < 8; mask++) {
+    const qr = encodeQR(EXAMPLE_PASS, { errorCorrectionLevel: "L", mask });
+    expect(qr.mask).toBe(mask);
+    const result = verifyPassImageOffline(renderQRToPNG(qr, { scale: 2 }), { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+    expect(result.success).toBe(true);
+  }
+});
+
+test("SVG output round trips through verifyPassImageOffline", () => {
+  const qr = encodeQR(EXAMPLE_PASS);
+  const svg = renderQRToSVG(qr, { quietZone: 2 });
+  expect(svg).toContain(`viewBox="0 0 ${qr.size + 4} ${qr.size + 4}"`);
+  const image = rasterizeSVG(svg);
+  expect(image.data.filter((v) => v === 0).length).toBe(darkModules(qr) * 16);
+  const result = verifyPassImageOffline(image, { didDocument: DID_DOCUMENTS.MOH_EXAMPLE });
+  expect(result.success).toBe(true);
+});
+
+test("PNG output has the quiet zone and scale requested", () => {
+  const qr = encodeQR("NZCP:/1/ABC");
+  expect(qr.version).toBe(1);
+  const image = decodePNG(renderQRToPNG(qr, { quietZone: 1, scale: 3 }));
+  expect(image.width).toBe((21 + 2) * 3);
+  // the quiet zone is light and the top left finder pattern starts right after it
+  expect(Array.from(image.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+  expect(Array.from(image.data.subarray((3 * image.width + 3) * 4, (3 * image.width + 3) * 4 + 4))).toEqual([0, 0, 0, 255]);
+});
+
+test("Invalid options and oversized text throw", () => {
+  expect(() => encodeQR(EXAMPLE_PASS, { mask: 8 })).toThrowError("Mask MUST be an integer from 0 to 7");
+  expect(() => encodeQR("A".repeat(5000))).toThrowError("Text is too long for a QR code");
+  expect(() => renderQRToPNG(encodeQR("A"), { quietZone: -1 })).toThrowError();
+});
@@ -0,0 +1,363 @@
+import { encodePNG } from "./png";
+import {
+  ALPHANUMERIC_CHARSET,
+  computeReedSolomon,
+  encodeFormatInfo,
+  encodeVersionInfo,
+  ERROR_CORRECTION_LEVELS,
+  ErrorCorrectionLevel,
+  getAlignmentPatternPositions,
+  getBlockLayout,
+  getCharacterCountBits,
+  getDataCapacity,
+  getDataModulePositions,
+  getFormatInfoPositions,
+  getSize,
+  getVersionInfoPositions,
+  isMasked,
+  MASK_COUNT,
+  MODE_ALPHANUMERIC,
+  MODE_BYTE,
+  MODE_NUMERIC,
+} from "./qr";
+
+// Encodes COVID Pass URIs as QR codes, for printing passes and showing them in wallets
+// https://nzcp.covid19.health.nz/#2d-barcode-encoding
+
+export type QRCode = {
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  mask: number;
+  size: number;
+  // true for dark modules, indexed by row then column, without the quiet zone
+  modules: boolean[][];
+};
+
+export type EncodeQROptions = {
+  // how much of the code can be damaged and still read, L (7%), M (15%), Q (25%) or H (30%), defaults to M
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  // the data mask pattern, 0 to 7, defaults to the one with the lowest penalty score
+  mask?: number;
+};
+
+export type RenderQROptions = {
+  // the light border around the code in modules, readers need 4 but some layouts get away with less
+  quietZone?: number;
+  // pixels per module
+  scale?: number;
+};
+
+const getRenderOptions = (options: RenderQROptions): Required<RenderQROptions> => {
+  const { quietZone = 4, scale = 4 } = options;
+  if (!Number.isInteger(quietZone) || quietZone < 0 || !Number.isInteger(scale) || scale < 1) {
+    throw new Error("Quiet zone MUST be a non-negative integer and scale a positive integer");
+  }
+  return { quietZone, scale };
+};
+
+// the QR code mode of the whole payload, `NZCP:/1/` followed by uppercase base32 fits the alphanumeric mode
+const getMode = (text: string): number => {
+  if (/^[0-9]*$/.test(text)) {
+    return MODE_NUMERIC;
+  }
+  if ([...text].every((c) => ALPHANUMERIC_CHARSET.includes(c))) {
+    return MODE_ALPHANUMERIC;
+  }
+  return MODE_BYTE;
+};
+
+class BitBuffer {
+  bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+}
+
+const encodeSegmentData = (text: string, mode: number): { count: number; data: BitBuffer } => {
+  const data = new BitBuffer();
+  if (mode === MODE_NUMERIC) {
+    for (let i = 0; i < text.length; i += 3) {
+      const digits = text.slice(i, i + 3);
+      data.append(Number(digits), [0, 4, 7, 10][digits.length]);
+    }
+    return { count: text.length, data };
+  }
+  if (mode === MODE_ALPHANUMERIC) {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(text[i]);
+      if (i + 1 < text.length) {
+        data.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+      } else {
+        data.append(first, 6);
+      }
+    }
+    return { count: text.length, data };
+  }
+  const bytes = new TextEncoder().encode(text);
+  bytes.forEach((byte) => data.append(byte, 8));
+  return { count: bytes.length, data };
+};
+
+// finder, separator, timing and alignment patterns, the dark module, and format and version information
+const drawFunctionPatterns = (
+  modules: boolean[][],
+  version: number,
+  level: ErrorCorrectionLevel,
+  mask: number
+) => {
+  const size = getSize(version);
+  for (let i = 0; i < size; i++) {
+    modules[6][i] = i % 2 === 0;
+    modules[i][6] = i % 2 === 0;
+  }
+  [
+    [3, 3],
+    [3, size - 4],
+    [size - 4, 3],
+  ].forEach(([row, col]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const [r, c] = [row + dy, col + dx];
+        if (r >= 0 && r < size && c >= 0 && c < size) {
+          modules[r][c] = distance !== 2 && distance !== 4;
+        }
+      }
+    }
+  });
+  const positions = getAlignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((row, i) =>
+    positions.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          modules[row + dy][col + dx] = Math.max(Math.abs(dx), Math.abs(dy)) !== 1;
+        }
+      }
+    })
+  );
+  const format = encodeFormatInfo(level, mask);
+  getFormatInfoPositions(version).forEach((copy) =>
+    copy.forEach(([row, col], i) => {
+      modules[row][col] = ((format >>> i) & 1) === 1;
+    })
+  );
+  modules[size - 8][8] = true;
+  if (version >= 7) {
+    const info = encodeVersionInfo(version);
+    getVersionInfoPositions(version).forEach((copy) =>
+      copy.forEach(([row, col], i) => {
+        modules[row][col] = ((info >>> i) & 1) === 1;
+      })
+    );
+  }
+};
+
+// ISO/IEC 18004 section 7.8.3, lower scores are easier to read
+const getPenaltyScore = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+  // N1 runs of 5 or more modules and N3 finder-like patterns, in rows and then columns
+  const finderLike = [true, false, true, true, true, false, true];
+  for (let pass = 0; pass < 2; pass++) {
+    for (let i = 0; i < size; i++) {
+      const line = modules.map((_, j) => (pass === 0 ? modules[i][j] : modules[j][i]));
+      let run = 1;
+      for (let j = 1; j <= size; j++) {
+        if (j < size && line[j] === line[j - 1]) {
+          run += 1;
+          continue;
+        }
+        if (run >= 5) {
+          score += run - 2;
+        }
+        run = 1;
+      }
+      for (let j = 0; j + 7 <= size; j++) {
+        if (!finderLike.every((module, k) => line[j + k] === module)) {
+          continue;
+        }
+        // 4 light modules on either side, where the quiet zone counts as light
+        const light = (from: number) =>
+          [0, 1, 2, 3].every((k) => from + k < 0 || from + k >= size || !line[from + k]);
+        if (light(j - 4) || light(j + 7)) {
+          score += 40;
+        }
+      }
+    }
+  }
+  // N2 2x2 blocks of one colour
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (modules[row][col]) {
+        dark += 1;
+      }
+      if (
+        row + 1 < size &&
+        col + 1 < size &&
+        modules[row][col] === modules[row][col + 1] &&
+        modules[row][col] === modules[row + 1][col] &&
+        modules[row][col] === modules[row + 1][col + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  // N4 the proportion of dark modules away from 50%
+  score += 10 * Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5);
+  return score;
+};
+
+/**
+ * encodes text as a QR code, in the smallest version that fits
+ * @param text the payload, e.g. a COVID Pass URI
+ * @param options the error correction level and data mask
+ * @returns {QRCode} the modules of the QR code
+ */
+export const encodeQR = (text: string, options: EncodeQROptions = {}): QRCode => {
+  const level = options.errorCorrectionLevel ?? "M";
+  if (!ERROR_CORRECTION_LEVELS.includes(level)) {
+    throw new Error("Error correction level MUST be L, M, Q or H");
+  }
+  const { mask: requestedMask } = options;
+  if (
+    requestedMask !== undefined &&
+    !(Number.isInteger(requestedMask) && requestedMask >= 0 && requestedMask < MASK_COUNT)
+  ) {
+    throw new Error("Mask MUST be an integer from 0 to 7");
+  }
+  const mode = getMode(text);
+  const { count, data } = encodeSegmentData(text, mode);
+  let version = 1;
+  while (4 + getCharacterCountBits(mode, version) + data.bits.length > getDataCapacity(version, level) * 8) {
+    version += 1;
+    if (version > 40) {
+      throw new Error("Text is too long for a QR code");
+    }
+  }
+
+  const capacity = getDataCapacity(version, level) * 8;
+  const buffer = new BitBuffer();
+  buffer.append(mode, 4);
+  buffer.append(count, getCharacterCountBits(mode, version));
+  buffer.bits.push(...data.bits);
+  // terminator, then pad to a byte and fill the rest with alternating pad codewords
+  buffer.append(0, Math.min(4, capacity - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let pad = 0xec; buffer.bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    buffer.append(pad, 8);
+  }
+  const dataCodewords = new Uint8Array(capacity / 8);
+  buffer.bits.forEach((bit, i) => {
+    dataCodewords[i >> 3] |= bit << (7 - (i & 7));
+  });
+
+  // split into blocks, add error correction to each, and interleave them
+  const layout = getBlockLayout(version, level);
+  const blocks: Uint8Array[] = [];
+  layout.dataCodewords.reduce((offset, length) => {
+    blocks.push(dataCodewords.subarray(offset, offset + length));
+    return offset + length;
+  }, 0);
+  const ecBlocks = blocks.map((block) => computeReedSolomon(block, layout.ecCodewordsPerBlock));
+  const codewords: number[] = [];
+  for (let i = 0; i < Math.max(...layout.dataCodewords); i++) {
+    blocks.forEach((block) => {
+      if (i < block.length) {
+        codewords.push(block[i]);
+      }
+    });
+  }
+  for (let i = 0; i < layout.ecCodewordsPerBlock; i++) {
+    ecBlocks.forEach((block) => codewords.push(block[i]));
+  }
+
+  const size = getSize(version);
+  const positions = getDataModulePositions(version);
+  const draw = (mask: number): boolean[][] => {
+    const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    drawFunctionPatterns(modules, version, level, mask);
+    // the remainder bits after the last codeword are light before masking
+    positions.forEach(([row, col], i) => {
+      const bit = i < codewords.length * 8 ? (codewords[i >> 3] >> (7 - (i & 7))) & 1 : 0;
+      modules[row][col] = (bit === 1) !== isMasked(mask, row, col);
+    });
+    return modules;
+  };
+
+  let mask = requestedMask ?? 0;
+  let modules = draw(mask);
+  if (requestedMask === undefined) {
+    let best = getPenaltyScore(modules);
+    for (let candidate = 1; candidate < MASK_COUNT; candidate++) {
+      const candidateModules = draw(candidate);
+      const score = getPenaltyScore(candidateModules);
+      if (score < best) {
+        [best, mask, modules] = [score, candidate, candidateModules];
+      }
+    }
+  }
+  return { version, errorCorrectionLevel: level, mask, size, modules };
+};
+
+/**
+ * renders a QR code as an SVG image
+ * @param qr the QR code from encodeQR
+ * @param options the quiet zone, and the size of a module in SVG units
+ * @returns {string} the SVG document, dark modules are drawn as a single path
+ */
+export const renderQRToSVG = (qr: QRCode, options: RenderQROptions = {}): string => {
+  const { quietZone, scale } = getRenderOptions(options);
+  const dimension = qr.size + quietZone * 2;
+  const path: string[] = [];
+  qr.modules.forEach((line, row) => {
+    for (let col = 0; col < qr.size; col++) {
+      if (!line[col]) {
+        continue;
+      }
+      // runs of dark modules in a row are drawn as one rectangle
+      let end = col;
+      while (end + 1 < qr.size && line[end + 1]) {
+        end += 1;
+      }
+      const width = end - col + 1;
+      path.push(`M${col + quietZone} ${row + quietZone}h${width}v1h-${width}z`);
+      col = end;
+    }
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" width="${dimension * scale}" height="${dimension * scale}" shape-rendering="crispEdges">`,
+    `<rect width="${dimension}" height="${dimension}" fill="#fff"/>`,
+    `<path d="${path.join("")}" fill="#000"/>`,
+    `</svg>`,
+  ].join("");
+};
+
+/**
+ * renders a QR code as a black and white PNG image
+ * @param qr the QR code from encodeQR
+ * @param options the quiet zone, and the number of pixels per module
+ * @returns {Uint8Array} the PNG file
+ */
+export const renderQRToPNG = (qr: QRCode, options: RenderQROptions = {}): Uint8Array => {
+  const { quietZone, scale } = getRenderOptions(options);
+  const dimension = (qr.size + quietZone * 2) * scale;
+  const data = new Uint8Array(dimension * dimension);
+  for (let y = 0; y < dimension; y++) {
+    const row = Math.floor(y / scale) - quietZone;
+    for (let x = 0; x < dimension; x++) {
+      const col = Math.floor(x / scale) - quietZone;
+      if (row >= 0 && row < qr.size && col >= 0 && col < qr.size && qr.modules[row][col]) {
+        data[y * dimension + x] = 1;
+      }
+    }
+  }
+  return encodePNG({ width: dimension, height: dimension, data });
+};
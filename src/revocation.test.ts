@@ -0,0 +1,78 @@
+import { BloomFilter, DenyList, loadRevocationList } from "./revocation";
+
+const JTI = "urn:uuid:60a4f54d-4e30-4332-be33-ad78b1eafa4b";
+const KEY = "did:web:nzcp.covid19.health.nz#key-1";
+const OTHER_JTI = "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c";
+
+test("Deny list contains its jtis and keys", () => {
+  const list = new DenyList([JTI, KEY]);
+  expect(list.has(JTI)).toBe(true);
+  expect(list.has(KEY)).toBe(true);
+  expect(list.has(OTHER_JTI)).toBe(false);
+});
+
+test("Deny list loads from JSON", () => {
+  const list = loadRevocationList(JSON.stringify({ jti: [JTI], keys: [KEY] }));
+  expect(list.has(JTI)).toBe(true);
+  expect(list.has(KEY)).toBe(true);
+  expect(list.has(OTHER_JTI)).toBe(false);
+});
+
+test("Deny list with non-string entries throws", () => {
+  expect(() => loadRevocationList({ jti: [1 as unknown as string] })).toThrowError();
+  expect(() => loadRevocationList(JSON.stringify({ jti: JTI }))).toThrowError(
+    "Revocation list `jti` and `keys` MUST be arrays of strings"
+  );
+  expect(() => loadRevocationList(JSON.stringify({ keys: { KEY } }))).toThrowError();
+  expect(() => loadRevocationList("null")).toThrowError("Revocation list MUST be a JSON object");
+  expect(() => loadRevocationList(JSON.stringify({ type: "bloom", size: 8, hashes: 1, bits: 0 }))).toThrowError(
+    "Invalid Bloom filter parameters"
+  );
+});
+
+test("Bloom filter contains every added entry", () => {
+  const entries = Array.from({ length: 1000 }, (_, i) => `urn:uuid:00000000-0000-4000-8000-${i.toString(16).padStart(12, "0")}`);
+  const filter = BloomFilter.from(entries);
+  expect(entries.every((entry) => filter.has(entry))).toBe(true);
+  expect(filter.has(OTHER_JTI)).toBe(false);
+});
+
+test("Bloom filter false positive rate is close to the requested rate", () => {
+  const uuid = (prefix: string, i: number) => `urn:uuid:${prefix}-0000-4000-8000-${i.toString(16).padStart(12, "0")}`;
+  const filter = BloomFilter.from(Array.from({ length: 1000 }, (_, i) => uuid("00000000", i)), 0.01);
+  const falsePositives = Array.from({ length: 1000 }, (_, i) => uuid("11111111", i)).filter((entry) => filter.has(entry));
+  expect(falsePositives.length).toBeLessThan(30);
+});
+
+test("Bloom filter round trips through JSON", () => {
+  const filter = BloomFilter.from([JTI, KEY]);
+  const loaded = loadRevocationList(JSON.stringify(filter));
+  expect(loaded).toBeInstanceOf(BloomFilter);
+  expect(loaded.has(JTI)).toBe(true);
+  expect(loaded.has(KEY)).toBe(true);
+  expect(loaded.has(OTHER_JTI)).toBe(false);
+});
+
+test("Bloom filter with mismatched parameters throws", () => {
+  expect(() =>
+    loadRevocationList({ type: "bloom", size: 1024, hashes: 7, bits: "AAAA" })
+  ).toThrowError();
+  // fractional, not a number or too many hashes
+  [
+    { size: 1.5, hashes: 1 },
+    { size: 16, hashes: 1.5 },
+    { size: 16, hashes: 1e9 },
+    { size: 16, hashes: 65 },
+  ].forEach(({ size, hashes }) => {
+    expect(() =>
+      loadRevocationList(JSON.stringify({ type: "bloom", size, hashes, bits: "AAA" }))
+    ).toThrowError("Invalid Bloom filter parameters");
+  });
+  expect(() =>
+    loadRevocationList('{ "type": "bloom", "size": NaN, "hashes": 1, "bits": "AAA" }')
+  ).toThrowError();
+  expect(() =>
+    loadRevocationList({ type: "bloom", size: NaN, hashes: 1, bits: "AAA" })
+  ).toThrowError("Invalid Bloom filter parameters");
+  expect(loadRevocationList(JSON.stringify({ type: "bloom", size: 16, hashes: 64, bits: "AAA" })).has("a")).toBe(false);
+});
@@ -0,0 +1,159 @@
+import { sha256 } from "js-sha256";
+import { decodeBase64Url, encodeBase64Url } from "./util";
+
+// Deny lists of passes (by `jti`) and signing keys (by absolute key reference `did#kid`)
+// that must be rejected even though their signature is valid
+// https://nzcp.covid19.health.nz/#mapping-jti-cti
+
+export interface RevocationList {
+  // `entry` is either a `urn:uuid:` jti or an absolute key reference
+  has(entry: string): boolean;
+}
+
+// the JSON form of a deny list
+export type RevocationListJSON = {
+  jti?: string[];
+  keys?: string[];
+};
+
+// the JSON form of a Bloom filter, `bits` is base64url encoded
+export type BloomFilterJSON = {
+  type: "bloom";
+  size: number;
+  hashes: number;
+  bits: string;
+};
+
+export class DenyList implements RevocationList {
+  entries: Set<string>;
+
+  constructor(entries: string[]) {
+    this.entries = new Set(entries);
+  }
+
+  has(entry: string): boolean {
+    return this.entries.has(entry);
+  }
+}
+
+// more hashes than this only slow lookups down, a filter needs about 13 for a false positive rate of 0.0001
+const MAX_BLOOM_HASHES = 64;
+
+// A Bloom filter keeps large deny lists compact, at the cost of occasionally
+// rejecting a pass that is not on the list (a false positive) but never the reverse
+export class BloomFilter implements RevocationList {
+  size: number;
+  hashes: number;
+  bits: Uint8Array;
+
+  constructor(size: number, hashes: number, bits = new Uint8Array(Math.ceil(size / 8))) {
+    // a fractional size would give fractional bit indexes, which never match
+    if (
+      !Number.isInteger(size) ||
+      !Number.isInteger(hashes) ||
+      size < 1 ||
+      hashes < 1 ||
+      hashes > MAX_BLOOM_HASHES ||
+      bits.length !== Math.ceil(size / 8)
+    ) {
+      throw new Error("Invalid Bloom filter parameters");
+    }
+    this.size = size;
+    this.hashes = hashes;
+    this.bits = bits;
+  }
+
+  /**
+   * creates a Bloom filter sized for the given entries
+   * @param entries the jtis and absolute key references to deny
+   * @param falsePositiveRate the chance that an entry not in the list is reported as revoked
+   */
+  static from(entries: string[], falsePositiveRate = 0.0001): BloomFilter {
+    const n = Math.max(entries.length, 1);
+    const size = Math.ceil((-n * Math.log(falsePositiveRate)) / Math.LN2 ** 2);
+    const hashes = Math.min(
+      MAX_BLOOM_HASHES,
+      Math.max(1, Math.round((size / n) * Math.LN2))
+    );
+    const filter = new BloomFilter(size, hashes);
+    entries.forEach((entry) => filter.add(entry));
+    return filter;
+  }
+
+  // enhanced double hashing (Dillinger & Manolios), h1 and h2 are taken from a SHA-256 digest of the entry
+  indexes(entry: string): number[] {
+    const digest = sha256.digest(entry);
+    const view = new DataView(new Uint8Array(digest).buffer);
+    let a = view.getUint32(0) % this.size;
+    let b = view.getUint32(4) % this.size;
+    const indexes = [];
+    for (let i = 0; i < this.hashes; i++) {
+      indexes.push(a);
+      a = (a + b) % this.size;
+      b = (b + i + 1) % this.size;
+    }
+    return indexes;
+  }
+
+  add(entry: string): void {
+    this.indexes(entry).forEach((i) => {
+      this.bits[i >> 3] |= 1 << (i & 7);
+    });
+  }
+
+  has(entry: string): boolean {
+    return this.indexes(entry).every(
+      (i) => (this.bits[i >> 3] & (1 << (i & 7))) !== 0
+    );
+  }
+
+  toJSON(): BloomFilterJSON {
+    return {
+      type: "bloom",
+      size: this.size,
+      hashes: this.hashes,
+      bits: encodeBase64Url(this.bits),
+    };
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+/**
+ * loads a deny list, either `{ "jti": [...], "keys": [...] }` or a Bloom filter `{ "type": "bloom", ... }`
+ * @param json the list as a JSON string or as parsed JSON
+ * @returns {RevocationList} the deny list
+ */
+export const loadRevocationList = (
+  json: string | RevocationListJSON | BloomFilterJSON
+): RevocationList => {
+  const parsed: RevocationListJSON | BloomFilterJSON =
+    typeof json === "string" ? JSON.parse(json) : json;
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Revocation list MUST be a JSON object");
+  }
+  if ("type" in parsed && parsed.type === "bloom") {
+    if (
+      typeof parsed.size !== "number" ||
+      typeof parsed.hashes !== "number" ||
+      typeof parsed.bits !== "string"
+    ) {
+      throw new Error("Invalid Bloom filter parameters");
+    }
+    return new BloomFilter(
+      parsed.size,
+      parsed.hashes,
+      decodeBase64Url(parsed.bits)
+    );
+  }
+  // a string would otherwise be spread into its characters
+  const list = parsed as RevocationListJSON;
+  if (
+    (list.jti !== undefined && !isStringArray(list.jti)) ||
+    (list.keys !== undefined && !isStringArray(list.keys))
+  ) {
+    throw new Error("Revocation list `jti` and `keys` MUST be arrays of strings");
+  }
+  return new DenyList([...(list.jti ?? []), ...(list.keys ?? [])]);
+};
@@ -0,0 +1,47 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemorySeenStore } from "./seenStore";
+import { FileSeenStore } from "./seenStoreFile";
+
+const JTI = "urn:uuid:60a4f54d-4e30-4332-be33-ad78b1eafa4b";
+const OTHER_JTI = "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c";
+
+test("Memory seen store counts scans within the window", () => {
+  const store = new MemorySeenStore();
+  expect(store.record(JTI, 1000, 60)).toBe(1);
+  expect(store.record(JTI, 1030, 60)).toBe(2);
+  expect(store.record(OTHER_JTI, 1030, 60)).toBe(1);
+  // the scan at 1000 has left the window
+  expect(store.record(JTI, 1070, 60)).toBe(2);
+  expect(store.record(JTI, 1200, 60)).toBe(1);
+  // passes that left the window are dropped from the store
+  expect(Array.from(store.scans.keys())).toStrictEqual([JTI]);
+});
+
+test("Memory seen store evicts passes that left the window on a later sweep", () => {
+  const store = new MemorySeenStore();
+  for (let i = 0; i < 100; i++) {
+    store.record(`urn:uuid:${i}`, 1000, 60);
+  }
+  // within the window nothing is swept
+  store.record(JTI, 1030, 60);
+  expect(store.scans.size).toBe(101);
+  // the first scan after a window has passed sweeps the store
+  store.record(OTHER_JTI, 1060, 60);
+  expect(Array.from(store.scans.keys())).toStrictEqual([JTI, OTHER_JTI]);
+});
+
+test("File seen store survives restarts", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "nzcp-"));
+  const file = path.join(dir, "seen.json");
+  try {
+    expect(new FileSeenStore(file).record(JTI, 1000, 60)).toBe(1);
+    expect(new FileSeenStore(file).record(JTI, 1030, 60)).toBe(2);
+    expect(new FileSeenStore(file).record(OTHER_JTI, 1100, 60)).toBe(1);
+    // passes that left the window are dropped from the file
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, "utf8")))).toStrictEqual([OTHER_JTI]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,77 @@
+// Stores of the passes that were successfully verified, so that a pass presented
+// over and over again (e.g. a shared screenshot) can be flagged
+
+// `scannedAt` is a unix timestamp, `record` returns how often the pass was scanned
+// within `windowSeconds` up to and including this scan
+export interface SeenStore {
+  record(jti: string, scannedAt: number, windowSeconds: number): number;
+}
+
+// a store backed by a database, only supported by verifyPassURI
+export interface AsyncSeenStore {
+  record(jti: string, scannedAt: number, windowSeconds: number): Promise<number>;
+}
+
+export type ReplayPolicy = {
+  // how often a pass may be scanned within the window before it is flagged, defaults to 1
+  maxScans?: number;
+  // defaults to 5 minutes
+  windowSeconds?: number;
+  // fail verification instead of returning a warning
+  reject?: boolean;
+};
+
+export const DEFAULT_REPLAY_POLICY: Required<ReplayPolicy> = {
+  maxScans: 1,
+  windowSeconds: 5 * 60,
+  reject: false,
+};
+
+/**
+ * keeps the scans that are still inside the window, including the new one
+ * @param scans unix timestamps of previous scans
+ * @param scannedAt unix timestamp of this scan
+ * @param windowSeconds the window the scans are counted in
+ */
+export const addScan = (
+  scans: number[],
+  scannedAt: number,
+  windowSeconds: number
+): number[] => [
+  ...scans.filter((s) => s > scannedAt - windowSeconds && s <= scannedAt),
+  scannedAt,
+];
+
+/**
+ * whether none of the scans of a pass are inside the window any more, so the pass can be forgotten
+ * @param scans unix timestamps of previous scans
+ * @param scannedAt unix timestamp of this scan
+ * @param windowSeconds the window the scans are counted in
+ */
+export const hasLeftWindow = (
+  scans: number[],
+  scannedAt: number,
+  windowSeconds: number
+): boolean => scans.every((s) => s <= scannedAt - windowSeconds);
+
+export class MemorySeenStore implements SeenStore {
+  scans = new Map<string, number[]>();
+  // unix timestamp of the last sweep for passes that left the window
+  sweptAt = -Infinity;
+
+  record(jti: string, scannedAt: number, windowSeconds: number): number {
+    // drop passes that have not been scanned within the window, so the store does not keep growing
+    // The store is swept at most once per window, between sweeps only the scanned pass is pruned
+    if (scannedAt - this.sweptAt >= windowSeconds) {
+      this.sweptAt = scannedAt;
+      this.scans.forEach((scans, key) => {
+        if (hasLeftWindow(scans, scannedAt, windowSeconds)) {
+          this.scans.delete(key);
+        }
+      });
+    }
+    const scans = addScan(this.scans.get(jti) ?? [], scannedAt, windowSeconds);
+    this.scans.set(jti, scans);
+    return scans.length;
+  }
+}
@@ -0,0 +1,34 @@
+import fs from "fs";
+import { addScan, hasLeftWindow, SeenStore } from "./seenStore";
+
+// Seen store that keeps the scans in a JSON file, so repeated scans are detected across restarts
+// Only available in node builds
+export class FileSeenStore implements SeenStore {
+  path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  load(): Record<string, number[]> {
+    try {
+      return JSON.parse(fs.readFileSync(this.path, "utf8"));
+    } catch (err) {
+      // a missing or corrupt file starts an empty store
+      return {};
+    }
+  }
+
+  record(jti: string, scannedAt: number, windowSeconds: number): number {
+    const scans = this.load();
+    // drop passes that have not been scanned within the window, so the file does not keep growing
+    Object.keys(scans).forEach((key) => {
+      if (hasLeftWindow(scans[key], scannedAt, windowSeconds)) {
+        delete scans[key];
+      }
+    });
+    scans[jti] = addScan(scans[jti] ?? [], scannedAt, windowSeconds);
+    fs.writeFileSync(this.path, JSON.stringify(scans));
+    return scans[jti].length;
+  }
+}
@@ -1,6 +1,10 @@
+import { decode, encode } from "base64-arraybuffer";
+
 // convert js timestamp to unix timestamp
-export function currentTimestamp(): number {
-  return Date.now() / 1000;
+// `now` overrides the current time, either as a date or as a function returning one
+export function currentTimestamp(now?: Date | (() => Date)): number {
+  const date = typeof now === "function" ? now() : now;
+  return (date ? date.getTime() : Date.now()) / 1000;
 }
 
 // from https://nzcp.covid19.health.nz/#adding-base32-padding
@@ -18,4 +22,59 @@ export function toHex(buffer: Uint8Array) {
   }
   const hex = Array.from(buffer).map(i2hex).join('');
   return hex
-}
\ No newline at end of file
+}
+export function fromHex(hex: string): Uint8Array {
+  const bytes = (hex.match(/.{1,2}/g) ?? []).map((byte) => parseInt(byte, 16));
+  return new Uint8Array(bytes);
+}
+
+// whether a semantic version such as "1.0.0" matches a range of an exact version or an x-range such as "1.x"
+export function satisfiesVersion(version: string, range: string): boolean {
+  const parts = version.split(".");
+  if (parts.length !== 3 || !parts.every((part) => /^\d+$/.test(part))) {
+    return false;
+  }
+  return range
+    .split(".")
+    .every((part, i) => part === "x" || part === "*" || part === parts[i]);
+}
+
+// base64url as defined by [RFC4648] section 5, as used by JWK members
+export function decodeBase64Url(input: string): Uint8Array {
+  return new Uint8Array(decode(input.replace(/-/g, "+").replace(/_/g, "/")));
+}
+
+export function encodeBase64Url(input: Uint8Array): string {
+  return encode(input).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// base58btc, the alphabet used by multibase values starting with `z`
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function decodeBase58(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // every leading "1" is a leading zero byte
+  for (const char of input) {
+    if (char !== "1") {
+      break;
+    }
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
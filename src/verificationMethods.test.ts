@@ -0,0 +1,119 @@
+import { DIDDocument, VerificationMethod } from "did-resolver";
+import { createPassURI } from "./issue";
+import { verifyPassURIOffline } from "./main";
+import mineDIDDocument from "./mineDIDDocument.json";
+import minePrivateKey from "./minePrivateKey.json";
+import { decodeBase64Url } from "./util";
+import { decodePublicKeyMultibase, toJsonWebKey2020 } from "./verificationMethods";
+
+// the public key of minePrivateKey as a compressed P-256 multikey, as in did:key
+const MULTIKEY = "zDnaeQnP2RwfT4F6tnVFnxWLYJCLSfFgQGdyPhXbaRDVWP4Wp";
+const publicKeyJwk = { kty: "EC", crv: "P-256", x: minePrivateKey.x, y: minePrivateKey.y };
+
+const base58btc = (bytes: number[]) => {
+  const alphabet = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+  const digits: number[] = [];
+  bytes.forEach((byte) => {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  });
+  return `z${digits.reverse().map((digit) => alphabet[digit]).join("")}`;
+};
+
+const now = new Date("2023-01-01T00:00:00Z");
+const uri = createPassURI(
+  {
+    jti: "urn:uuid:0decc6c0-e2f2-450d-89e1-b0332e589f2c",
+    nbf: 1641679750,
+    exp: 1956007750,
+    vc: {
+      "@context": ["https://www.w3.org/2018/credentials/v1", "https://nzcp.covid19.health.nz/contexts/v1"],
+      version: "1.0.0",
+      type: ["VerifiableCredential", "PublicCovidPass"],
+      credentialSubject: { givenName: "Patrick", familyName: "Star", dob: "1960-04-16" },
+    },
+  },
+  { privateKeyJwk: minePrivateKey, kid: minePrivateKey.kid, iss: mineDIDDocument.id }
+);
+
+// the DID document of the issuer with its key published as the verification method
+const withVerificationMethod = (verificationMethod: Partial<VerificationMethod>): DIDDocument => ({
+  ...mineDIDDocument,
+  verificationMethod: [
+    { id: mineDIDDocument.verificationMethod[0].id, controller: mineDIDDocument.id, type: "Multikey", ...verificationMethod },
+  ],
+});
+
+test("Multibase keys decode to a JWK, compressed or not", () => {
+  expect(decodePublicKeyMultibase(MULTIKEY)).toEqual(publicKeyJwk);
+  const uncompressed = [0x80, 0x24, 4, ...decodeBase64Url(minePrivateKey.x), ...decodeBase64Url(minePrivateKey.y)];
+  expect(decodePublicKeyMultibase(base58btc(uncompressed))).toEqual(publicKeyJwk);
+  // Ed25519 public key from the did:key specification
+  expect(decodePublicKeyMultibase("z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK")).toEqual({
+    kty: "OKP",
+    crv: "Ed25519",
+    x: "Lm_M42cB3HkUiODQsXRcweM6TByfzEHGO9ND274JcOY",
+  });
+
+  expect(() => decodePublicKeyMultibase("mDnaeQnP2RwfT4F6tnVFnxWLYJC")).toThrow("`publicKeyMultibase` is not base58btc encoded");
+  expect(() => decodePublicKeyMultibase("zDnae0")).toThrow("`publicKeyMultibase` is not base58btc encoded");
+  // secp256k1 (0xe7)
+  expect(() => decodePublicKeyMultibase(base58btc([0xe7, 0x01, 2, ...new Array(32).fill(1)]))).toThrow(
+    "`publicKeyMultibase` is not a supported public key type"
+  );
+  expect(() => decodePublicKeyMultibase(base58btc([0x80, 0x24, 2, 1]))).toThrow(
+    "`publicKeyMultibase` is not a P-256 public key"
+  );
+});
+
+test("Compatible verification methods convert to a JsonWebKey2020", () => {
+  const id = mineDIDDocument.verificationMethod[0].id;
+  const controller = mineDIDDocument.id;
+  const converted = { id, controller, type: "JsonWebKey2020", publicKeyJwk };
+  expect(toJsonWebKey2020({ id, controller, type: "Multikey", publicKeyMultibase: MULTIKEY })).toEqual(converted);
+  expect(toJsonWebKey2020({ id, controller, type: "EcdsaSecp256r1VerificationKey2019", publicKeyJwk })).toEqual(converted);
+  expect(toJsonWebKey2020({ id, controller, type: "JsonWebKey", publicKeyJwk })).toEqual(converted);
+  // other types are left to the checks of section 5.1.3
+  const rsa = { id, controller, type: "RsaVerificationKey2018", publicKeyJwk };
+  expect(toJsonWebKey2020(rsa)).toBe(rsa);
+});
+
+test("Keys in newer encodings verify in compatibility mode only", () => {
+  const didDocuments = [
+    withVerificationMethod({ publicKeyMultibase: MULTIKEY }),
+    withVerificationMethod({ type: "EcdsaSecp256r1VerificationKey2019", publicKeyMultibase: MULTIKEY }),
+    withVerificationMethod({ type: "JsonWebKey", publicKeyJwk }),
+  ];
+  didDocuments.forEach((didDocument) => {
+    expect(verifyPassURIOffline(uri, { didDocument, now, compatibleKeyFormats: true }).success).toBe(true);
+    const strict = verifyPassURIOffline(uri, { didDocument, now, allViolations: true });
+    expect(strict.violations?.map((v) => v.code)).toContain("INVALID_KEY_FORMAT");
+  });
+});
+
+test("Keys converted in compatibility mode are checked as JWKs", () => {
+  const verify = (verificationMethod: Partial<VerificationMethod>) =>
+    verifyPassURIOffline(uri, { didDocument: withVerificationMethod(verificationMethod), now, compatibleKeyFormats: true })
+      .violates;
+  expect(verify({ publicKeyMultibase: "mDnaeQnP2RwfT4F6tnVFnxWLYJC" })).toMatchObject({
+    code: "INVALID_PUBLIC_KEY",
+    section: "5.1.2",
+    message:
+      "The public key referenced by the decoded CWT MUST be a valid P-256 public key, but `publicKeyMultibase` is not base58btc encoded.",
+  });
+  // a compressed point whose x has no y on the curve
+  expect(verify({ publicKeyMultibase: base58btc([0x80, 0x24, 2, ...new Array(31).fill(0), 1]) })?.message).toBe(
+    "The public key referenced by the decoded CWT MUST be a valid P-256 public key, but `publicKeyMultibase` is not a point on the P-256 curve."
+  );
+  // the Ed25519 key of an ES256 pass
+  expect(verify({ publicKeyMultibase: "z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK" })?.section).toBe("5.1.2");
+  expect(verify({ publicKeyMultibase: MULTIKEY })).toBeNull();
+});
@@ -0,0 +1,123 @@
+import { VerificationMethod } from "did-resolver";
+import { EdDSA, ES256, ES384, ES512, isEdDSA, SignatureAlgorithm } from "./algorithms";
+import { getECDSA } from "./crypto";
+import { decodeBase58, encodeBase64Url } from "./util";
+
+// Section 5.1.3 requires keys to be expressed as JsonWebKey2020 verification methods
+// https://nzcp.covid19.health.nz/#did-document
+// DID tooling of other issuers publishes the same keys in newer encodings, which the compatibility mode
+// of the verify functions converts to a JsonWebKey2020 before the key is checked
+
+type PublicKeyJwk = NonNullable<VerificationMethod["publicKeyJwk"]>;
+
+// verification method types whose `publicKeyJwk` or `publicKeyMultibase` is converted
+// https://www.w3.org/TR/vc-data-integrity/#multikey, https://www.w3.org/TR/vc-jose-cose/#jsonwebkey
+// and https://w3id.org/security/suites/ecdsa-2019/v1
+export const COMPATIBLE_VERIFICATION_METHOD_TYPES = [
+  "JsonWebKey2020",
+  "JsonWebKey",
+  "Multikey",
+  "EcdsaSecp256r1VerificationKey2019",
+];
+
+// multicodec prefixes of public keys as unsigned varints
+// https://github.com/multiformats/multicodec/blob/master/table.csv
+const MULTICODECS: { prefix: number[]; algorithm: SignatureAlgorithm }[] = [
+  { prefix: [0x80, 0x24], algorithm: ES256 },
+  { prefix: [0x81, 0x24], algorithm: ES384 },
+  { prefix: [0x82, 0x24], algorithm: ES512 },
+  { prefix: [0xed, 0x01], algorithm: EdDSA },
+];
+
+// the bytes of a base58btc multibase value, or null
+const decodeBase58btc = (value: string): Uint8Array | null => {
+  // z is the multibase prefix of base58btc
+  if (!value.startsWith("z")) {
+    return null;
+  }
+  try {
+    return decodeBase58(value.slice(1));
+  } catch (err) {
+    // an invalid character
+    return null;
+  }
+};
+
+/**
+ * decodes a multibase public key to a JWK, points can be compressed or uncompressed
+ * @param publicKeyMultibase base58btc multibase value with a multicodec prefix, e.g. zDn...
+ * @returns {PublicKeyJwk} the public key JWK
+ * @throws {Error} when the value is not a supported public key
+ */
+export const decodePublicKeyMultibase = (
+  publicKeyMultibase: string
+): PublicKeyJwk => {
+  const bytes = decodeBase58btc(publicKeyMultibase);
+  if (!bytes) {
+    throw new Error("`publicKeyMultibase` is not base58btc encoded");
+  }
+  const multicodec = MULTICODECS.find(({ prefix }) =>
+    prefix.every((byte, i) => bytes[i] === byte)
+  );
+  if (!multicodec) {
+    throw new Error("`publicKeyMultibase` is not a supported public key type");
+  }
+  const { algorithm } = multicodec;
+  const point = bytes.slice(multicodec.prefix.length);
+
+  // an octet key pair is the encoded point itself
+  if (isEdDSA(algorithm)) {
+    if (point.length !== algorithm.size) {
+      throw new Error(`\`publicKeyMultibase\` is not a ${algorithm.crv} public key`);
+    }
+    return { kty: algorithm.kty, crv: algorithm.crv, x: encodeBase64Url(point) };
+  }
+
+  // 0x02 or 0x03 and x, or 0x04, x and y
+  // https://www.secg.org/sec1-v2.pdf#section.2.3.3
+  if (
+    point.length !== 1 + algorithm.size &&
+    point.length !== 1 + 2 * algorithm.size
+  ) {
+    throw new Error(`\`publicKeyMultibase\` is not a ${algorithm.crv} public key`);
+  }
+  let x: number[];
+  let y: number[];
+  try {
+    const publicKey = getECDSA(algorithm).keyFromPublic(point).getPublic();
+    x = publicKey.getX().toArray("be", algorithm.size);
+    y = publicKey.getY().toArray("be", algorithm.size);
+  } catch (err) {
+    throw new Error(`\`publicKeyMultibase\` is not a point on the ${algorithm.crv} curve`);
+  }
+  return {
+    kty: algorithm.kty,
+    crv: algorithm.crv,
+    x: encodeBase64Url(new Uint8Array(x)),
+    y: encodeBase64Url(new Uint8Array(y)),
+  };
+};
+
+/**
+ * converts a verification method of a compatible type to a JsonWebKey2020
+ * @param verificationMethod the verification method from the DID document
+ * @returns {VerificationMethod} the JsonWebKey2020 verification method, or the verification method itself when its type is not compatible
+ * @throws {Error} when the `publicKeyMultibase` is not a supported public key
+ */
+export const toJsonWebKey2020 = (
+  verificationMethod: VerificationMethod
+): VerificationMethod => {
+  if (
+    verificationMethod.type === "JsonWebKey2020" ||
+    !COMPATIBLE_VERIFICATION_METHOD_TYPES.includes(verificationMethod.type)
+  ) {
+    return verificationMethod;
+  }
+  const { publicKeyMultibase, ...rest } = verificationMethod;
+  const publicKeyJwk =
+    verificationMethod.publicKeyJwk ??
+    (publicKeyMultibase !== undefined
+      ? decodePublicKeyMultibase(publicKeyMultibase)
+      : undefined);
+  return { ...rest, type: "JsonWebKey2020", publicKeyJwk };
+};
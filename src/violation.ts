@@ -1,14 +1,58 @@
 import { UnvalidatedCWTClaims } from "./cwtTypes";
 import { Violates } from "./generalTypes";
+import { getDescription } from "./locale";
 
-type ViolationOptions = Violates;
+// the description defaults to the one in the catalogue for the code
+type ViolationOptions = Omit<Violates, "description"> & { description?: string };
 
 export class Violation extends Error {
   violates: Violates;
-  cwtClaims: UnvalidatedCWTClaims | null
-  constructor(options: ViolationOptions, cwtClaims: UnvalidatedCWTClaims | null = null) {
+  cwtClaims: UnvalidatedCWTClaims<unknown> | null
+  constructor(options: ViolationOptions, cwtClaims: UnvalidatedCWTClaims<unknown> | null = null) {
     super(options.message);
-    this.violates = options;
+    this.violates = {
+      ...options,
+      description: options.description ?? getDescription(options.code),
+    };
     this.cwtClaims = cwtClaims;
   }
 }
+
+// Checks report violations here instead of throwing them. By default the first
+// report is thrown straight away, with `allViolations` every independent check runs
+export class ViolationCollector {
+  allViolations: boolean;
+  violations: Violation[];
+  constructor(allViolations = false) {
+    this.allViolations = allViolations;
+    this.violations = [];
+  }
+  report(violation: Violation): void {
+    if (!this.allViolations) {
+      throw violation;
+    }
+    // the same check can be reached from more than one step, e.g. the issuer claim
+    const reported = this.violations.some(
+      (v) =>
+        v.violates.section === violation.violates.section &&
+        v.message === violation.message
+    );
+    if (!reported) {
+      this.violations.push(violation);
+    }
+  }
+}
+
+// Section 7.1
+// https://nzcp.covid19.health.nz/#steps-to-verify-a-new-zealand-covid-pass
+// If an error is encountered while decoding the COSE_Sign1 structure or its contents then fail,
+// errors the CBOR decoder throws that are not violations become one
+export const getMalformedViolation = (err: Error): Violation =>
+  err instanceof Violation
+    ? err
+    : new Violation({
+        code: "MALFORMED",
+        message: `The payload of the QR Code MUST decode as a \`COSE_Sign1\` CBOR structure, but decoding failed: ${err.message}`,
+        section: "7.1",
+        link: "https://nzcp.covid19.health.nz/#steps-to-verify-a-new-zealand-covid-pass",
+      });